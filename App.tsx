@@ -4,8 +4,8 @@ import { CommandCenter } from './components/CommandCenter';
 import { ExecutionDashboard } from './components/ExecutionDashboard';
 import { MasterConfigurationPanel } from './components/MasterConfigurationPanel';
 import { AnimatePresence, motion } from 'framer-motion';
-import { Task, LogEntry, AgentMode, AgentStatus, Artifact, CustomAgent, Service, Playbook, TodoItem, SessionStats } from './types';
-import { createInitialPlan, getChatResponse, suggestPlaybookName, clarifyAndCorrectPrompt, analyzeChatMessageForAction } from './services/planner';
+import { Task, LogEntry, LiveOutput, AgentMode, AgentStatus, Artifact, CustomAgent, Service, Playbook, PlaybookParameter, TodoItem, SessionStats, RunCheckpoint, ApprovalDecision, TokenUsage, PlanRevision, SessionRecord, UsageTotals, Message } from './types';
+import { createInitialPlan, getChatResponse, suggestPlaybookName, extractPlaybookParameters, clarifyAndCorrectPrompt, analyzeChatMessageForAction } from './services/planner';
 import { useMemory } from './hooks/useMemory';
 import { ChatInterface } from './components/ChatInterface';
 import { HistoryPanel } from './components/HistoryPanel';
@@ -13,6 +13,22 @@ import { ExecutionStatusBar } from './components/ExecutionStatusBar';
 import { AgentExecutor } from './services/agentExecutor';
 import { ArtifactsPanel } from './components/ArtifactsPanel';
 import { PlaybookCreationModal } from './components/PlaybookCreationModal';
+import { ResumeRunModal } from './components/ResumeRunModal';
+import { PlaybookParameterRequest, PlaybookParametersModal } from './components/PlaybookParametersModal';
+import { PlaybookSuggestionModal } from './components/PlaybookSuggestionModal';
+import { loadInterruptedRun, clearRunCheckpoint, loadSessions, saveSession } from './services/persistence';
+import { addUsage, createEmptySessionStats, recordUsage } from './services/usageStats';
+import type { TokenUpdateHandler } from './services/llmProviders';
+import { ParameterValues, templatePlaybookTasks } from './services/playbookParameters';
+import { describePlaybookMatch, PlaybookMatch } from './services/playbookRetrieval';
+import { loadPlaybooks, recordPlaybookVersion, savePlaybooks } from './services/playbookStore';
+import { createAgentOpsSink, ExecutionEvent, toJsonl } from './services/executionEvents';
+import { exportTraceToAgentOps } from './services/tools';
+
+// What the session history keeps about an action run besides its tasks, logs and artifacts.
+type ActionSession = Pick<SessionRecord, 'id' | 'prompt' | 'refinedPrompt' | 'runId' | 'usage' | 'outcome' | 'startedAt'>;
+
+const EMPTY_USAGE: UsageTotals = { tokens: 0, cost: 0 };
 
 const App: React.FC = () => {
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -20,19 +36,36 @@ const App: React.FC = () => {
     const [isArtifactsOpen, setIsArtifactsOpen] = useState(false);
     const [isPlaybookModalOpen, setIsPlaybookModalOpen] = useState(false);
     const [tasks, setTasks] = useState<Task[]>([]);
+    const [planRevisions, setPlanRevisions] = useState<PlanRevision[]>([]);
     const [liveLogs, setLiveLogs] = useState<LogEntry[]>([]);
+    const [liveOutputs, setLiveOutputs] = useState<LiveOutput[]>([]);
     const [artifacts, setArtifacts] = useState<Artifact[]>([]);
     const [agents, setAgents] = useState<CustomAgent[]>([]);
     const [theme, setTheme] = useState<'light' | 'dark'>('dark');
-    const { messages, addMessage, editMessage, removeMessage, clearMemory } = useMemory([]);
+    const { threads, activeThreadId, messages, addMessage, updateMessage, editMessage, removeMessage, branchThread, newThread, switchThread, renameThread, deleteThread, recordThreadUsage } = useMemory();
+    const [actionSession, setActionSession] = useState<ActionSession | null>(null);
     const [agentMode, setAgentMode] = useState<AgentMode>(AgentMode.ACTION);
     const [agentStatus, setAgentStatus] = useState<AgentStatus>(AgentStatus.IDLE);
     const [currentPrompt, setCurrentPrompt] = useState<string>('');
     const [commandCenterInput, setCommandCenterInput] = useState<string>('');
-    const [sessionStats, setSessionStats] = useState<SessionStats>({ totalTokensUsed: 0 });
-    const [playbookCandidate, setPlaybookCandidate] = useState<{ suggestedName: string; tasks: Task[]; triggerPrompt: string } | null>(null);
+    const [sessionStats, setSessionStats] = useState<SessionStats>(createEmptySessionStats);
+    const [playbookCandidate, setPlaybookCandidate] = useState<{ suggestedName: string; suggestedParameters: PlaybookParameter[]; tasks: Task[]; triggerPrompt: string } | null>(null);
+    const [parameterRequest, setParameterRequest] = useState<PlaybookParameterRequest | null>(null);
+    const [playbookSuggestions, setPlaybookSuggestions] = useState<PlaybookMatch[] | null>(null);
+    // Settles the planner's pending playbook suggestion when the user picks one or declines.
+    const playbookChoiceResolverRef = useRef<((playbook: Playbook | null) => void) | null>(null);
+    // Settles the planner's pending request for playbook parameters when the user answers or cancels.
+    const parameterResolverRef = useRef<((values: ParameterValues | null) => void) | null>(null);
+    const [interruptedRun, setInterruptedRun] = useState<RunCheckpoint | null>(null);
 
     const executorRef = useRef<AgentExecutor | null>(null);
+    // Aborts the planner's calls when the user stops a run before its executor exists.
+    const planningAbortRef = useRef<AbortController | null>(null);
+    // One controller per thread with a reply in progress, so that stopping one leaves the others streaming.
+    const chatAbortRefs = useRef(new Map<string, AbortController>());
+    // The current run's events. Kept in a ref: they are only read when the trace is exported.
+    const traceEventsRef = useRef<ExecutionEvent[]>([]);
+    const agentOpsSinkRef = useRef(createAgentOpsSink(exportTraceToAgentOps));
 
     useEffect(() => {
         if (theme === 'dark') {
@@ -42,6 +75,26 @@ const App: React.FC = () => {
         }
     }, [theme]);
     
+    useEffect(() => {
+        loadInterruptedRun().then(checkpoint => {
+            if (checkpoint) setInterruptedRun(checkpoint);
+        });
+    }, []);
+
+    // The current action run is saved to the session history whenever it changes; chat threads save themselves.
+    useEffect(() => {
+        if (!actionSession) return;
+        saveSession({
+            ...actionSession,
+            mode: AgentMode.ACTION,
+            tasks,
+            logs: liveLogs,
+            artifacts,
+            messages: [],
+            updatedAt: new Date().toISOString(),
+        }).catch(error => console.error("Failed to save the run to the session history", error));
+    }, [actionSession, tasks, liveLogs, artifacts]);
+
     const handleSuggestionClick = (prompt: string) => {
         setCommandCenterInput(prompt);
     };
@@ -53,9 +106,17 @@ const App: React.FC = () => {
     const handleArtifactsClick = () => setIsArtifactsOpen(true);
     const handleArtifactsClose = () => setIsArtifactsOpen(false);
 
-    const handleTokenUpdate = (tokenCount: number) => {
+    const handleTokenUpdate = (tokenCount: number, usage?: TokenUsage) => {
         if (typeof tokenCount === 'number' && !isNaN(tokenCount)) {
-            setSessionStats(prev => ({ ...prev, totalTokensUsed: prev.totalTokensUsed + tokenCount }));
+            setSessionStats(prev => recordUsage(prev, tokenCount, usage));
+            setActionSession(prev => prev?.outcome === 'running' ? { ...prev, usage: addUsage(prev.usage, tokenCount, usage?.cost || 0) } : prev);
+        }
+    };
+
+    const createChatTokenHandler = (threadId: string) => (tokenCount: number, usage?: TokenUsage) => {
+        if (typeof tokenCount === 'number' && !isNaN(tokenCount)) {
+            setSessionStats(prev => recordUsage(prev, tokenCount, usage));
+            recordThreadUsage(threadId, tokenCount, usage?.cost || 0);
         }
     };
 
@@ -63,22 +124,27 @@ const App: React.FC = () => {
         const newLog = { ...log, timestamp: new Date().toISOString() };
         setLiveLogs(prev => [...prev.slice(-100), newLog]);
     };
+
+    const showLiveOutput = (output: LiveOutput) => {
+        setLiveOutputs(prev => prev.some(o => o.id === output.id)
+            ? prev.map(o => o.id === output.id ? output : o)
+            : [...prev, output]);
+    };
+
+    const endLiveOutput = (id: string) => {
+        setLiveOutputs(prev => prev.filter(o => o.id !== id));
+    };
     
-    const handleCreateArtifact = (artifactData: Omit<Artifact, 'id' | 'createdAt'>) => {
-        const newArtifact: Artifact = {
-            ...artifactData,
-            id: `artifact-${Date.now()}`,
-            createdAt: new Date().toISOString(),
-        };
+    const handleCreateArtifact = (newArtifact: Artifact) => {
         setArtifacts(prev => [...prev, newArtifact]);
-        addLog({ status: 'SUCCESS', message: `[Executor] New artifact created: "${artifactData.title}"` });
+        addLog({ status: 'SUCCESS', message: `[Executor] New artifact created: "${newArtifact.title}"` });
     };
 
     const handleAgentCreated = (newAgent: CustomAgent) => {
         setAgents(prev => {
             const updatedAgents = [...prev, newAgent];
             try {
-                const userAgents = updatedAgents.filter(agent => !agent.isCore);
+                const userAgents = updatedAgents.filter(agent => !agent.isCore && !agent.ephemeral);
                 localStorage.setItem('echo-custom-agents', JSON.stringify(userAgents));
             } catch (error) {
                 console.error("Failed to save new agent to localStorage", error);
@@ -87,16 +153,32 @@ const App: React.FC = () => {
         });
         addLog({ status: 'SUCCESS', message: `[System] New specialist agent spawned: "${newAgent.name}"` });
     };
+
+    const handleAgentsRemoved = (agentIds: string[]) => {
+        setAgents(prev => prev.filter(agent => !agentIds.includes(agent.id)));
+    };
     
     const handleCancelTask = (taskId: string) => {
         if (executorRef.current) {
             executorRef.current.cancelTask(taskId);
         }
     };
+
+    const handleResolveApproval = (taskId: string, decision: ApprovalDecision) => {
+        if (executorRef.current) {
+            executorRef.current.resolveApproval(taskId, decision);
+        }
+    };
+
+    const handleAnswerQuestion = (taskId: string, answer: string) => {
+        if (executorRef.current) {
+            executorRef.current.answerQuestion(taskId, answer);
+        }
+    };
     
     const handleAcceptAction = (messageId: string, prompt: string) => {
         removeMessage(messageId);
-        addMessage({
+        addMessage(activeThreadId, {
             sender: 'agent',
             text: 'Switching to Action Mode to execute the task.',
             type: 'system',
@@ -111,46 +193,135 @@ const App: React.FC = () => {
 
     const handleDeclineAction = (messageId: string) => {
         removeMessage(messageId);
-        addMessage({
+        addMessage(activeThreadId, {
             sender: 'agent',
             text: "Understood. We'll stay in Chat Mode. How else can I assist you?",
         });
     };
 
+    const createExecutor = () => new AgentExecutor({
+        onTaskUpdate: (updatedTask) => {
+            setTasks(prev => prev.map(t => t.id === updatedTask.id ? updatedTask : t));
+        },
+        onTasksUpdate: (updatedTasks) => {
+            setTasks(updatedTasks);
+        },
+        onLog: addLog,
+        onLiveOutput: showLiveOutput,
+        onLiveOutputEnd: endLiveOutput,
+        onTokenUpdate: handleTokenUpdate,
+        onArtifactCreated: handleCreateArtifact,
+        onAgentCreated: handleAgentCreated,
+        onAgentsRemoved: handleAgentsRemoved,
+        onPlanRevised: (revision) => {
+            setPlanRevisions(prev => [...prev, revision]);
+        },
+        onEvent: (event) => {
+            traceEventsRef.current.push(event);
+            agentOpsSinkRef.current.handle(event);
+            if (event.type === 'run-started') {
+                setActionSession(prev => prev && { ...prev, runId: event.runId });
+            } else if (event.type === 'run-finished') {
+                setActionSession(prev => prev && { ...prev, outcome: event.outcome });
+            }
+        },
+        onFinish: () => {
+            addLog({ status: 'SUCCESS', message: 'ECHO: All tasks completed successfully.' });
+            setAgentStatus(AgentStatus.FINISHED);
+        },
+        onFail: (errorMessage) => {
+            addLog({ status: 'ERROR', message: `ECHO: Execution failed. ${errorMessage}` });
+            setAgentStatus(AgentStatus.ERROR);
+        }
+    });
+
+    // Answers the last message of a thread, or offers to act on it. The reply goes to that thread even if another one is shown by then.
+    const respondInThread = async (threadId: string, history: Message[]) => {
+        const prompt = history[history.length - 1].text;
+        const onTokenUpdate = createChatTokenHandler(threadId);
+        try {
+            const actionAnalysis = await analyzeChatMessageForAction(prompt, onTokenUpdate);
+            if (actionAnalysis.is_actionable) {
+                addMessage(threadId, {
+                    sender: 'agent',
+                    text: 'It looks like you want me to perform an action. Shall I switch to Action Mode and execute this task?',
+                    type: 'action_prompt',
+                    suggestedPrompt: actionAnalysis.suggested_prompt,
+                });
+            } else {
+                await streamReply(threadId, history, onTokenUpdate);
+            }
+        } catch (error) {
+             console.error("Error during chat analysis/response:", error);
+             addMessage(threadId, { sender: 'agent', text: "Sorry, I encountered an error. Please try again." });
+        }
+    };
+
+    // Streams the reply into a placeholder message. Stopping keeps whatever text arrived.
+    const streamReply = async (threadId: string, history: Message[], onTokenUpdate: TokenUpdateHandler) => {
+        const controller = new AbortController();
+        chatAbortRefs.current.get(threadId)?.abort(new Error('A newer reply replaced this one.'));
+        chatAbortRefs.current.set(threadId, controller);
+        const reply = addMessage(threadId, { sender: 'agent', text: '', isStreaming: true });
+        let streamedText = '';
+        try {
+            const agentResponse = await getChatResponse(history, onTokenUpdate, {
+                signal: controller.signal,
+                onTextDelta: delta => {
+                    streamedText += delta;
+                    updateMessage(threadId, reply.id, { text: streamedText });
+                },
+            });
+            updateMessage(threadId, reply.id, { text: agentResponse, isStreaming: false });
+        } catch (error) {
+            if (!controller.signal.aborted) throw error;
+            updateMessage(threadId, reply.id, { text: streamedText || '_Stopped before any reply was generated._', isStreaming: false });
+        } finally {
+            if (chatAbortRefs.current.get(threadId) === controller) {
+                chatAbortRefs.current.delete(threadId);
+            }
+        }
+    };
+
+    const handleStopReply = () => {
+        chatAbortRefs.current.get(activeThreadId)?.abort(new Error('The reply was stopped.'));
+    };
+
+    const handleEditMessage = (messageId: string, newText: string) => {
+        const edited = editMessage(messageId, newText);
+        if (edited) {
+            // The reply being generated answered the old text.
+            chatAbortRefs.current.get(edited.threadId)?.abort(new Error('The message was edited.'));
+            respondInThread(edited.threadId, edited.history);
+        }
+    };
+
     const handleSendCommand = async (prompt: string, isWebToolActive: boolean) => {
         if (agentMode === AgentMode.CHAT) {
-            addMessage({ sender: 'user', text: prompt });
-            try {
-                const actionAnalysis = await analyzeChatMessageForAction(prompt, handleTokenUpdate);
-                if (actionAnalysis.is_actionable) {
-                    addMessage({
-                        sender: 'agent',
-                        text: 'It looks like you want me to perform an action. Shall I switch to Action Mode and execute this task?',
-                        type: 'action_prompt',
-                        suggestedPrompt: actionAnalysis.suggested_prompt,
-                    });
-                } else {
-                    const agentResponse = await getChatResponse(prompt, handleTokenUpdate);
-                    addMessage({ sender: 'agent', text: agentResponse });
-                }
-            } catch (error) {
-                 console.error("Error during chat analysis/response:", error);
-                 addMessage({ sender: 'agent', text: "Sorry, I encountered an error. Please try again." });
-            }
+            const userMessage = addMessage(activeThreadId, { sender: 'user', text: prompt });
+            await respondInThread(activeThreadId, [...messages, userMessage]);
             return;
         }
 
         setTasks([]);
+        setPlanRevisions([]);
+        traceEventsRef.current = [];
+        executorRef.current = null;
         setLiveLogs([]);
+        setLiveOutputs([]);
         setArtifacts([]);
         setCurrentPrompt(prompt);
+        setActionSession({ id: `session-${Date.now()}`, prompt, usage: EMPTY_USAGE, outcome: 'running', startedAt: new Date().toISOString() });
         setAgentStatus(AgentStatus.RUNNING);
 
         addLog({ status: 'INFO', message: `User command received: "${prompt}"` });
 
+        const planningAbort = new AbortController();
+        planningAbortRef.current = planningAbort;
         try {
             addLog({ status: 'INFO', message: '[Planner] Analyzing and clarifying prompt...' });
             const correctedPrompt = await clarifyAndCorrectPrompt(prompt, handleTokenUpdate);
+            setActionSession(prev => prev && { ...prev, refinedPrompt: correctedPrompt });
             if (prompt !== correctedPrompt) {
                  addLog({ status: 'SUCCESS', message: `[Planner] Refined prompt: "${correctedPrompt}"` });
             } else {
@@ -161,7 +332,7 @@ const App: React.FC = () => {
             
             // Gather full context for the planner
             const connectedServices = JSON.parse(localStorage.getItem('echo-services') || '[]').filter((s: Service) => s.status === 'Connected').map((s: Service) => s.name);
-            const playbooks = JSON.parse(localStorage.getItem('echo-playbooks') || '[]') as Playbook[];
+            const playbooks = loadPlaybooks();
             const customAgents = JSON.parse(localStorage.getItem('echo-custom-agents') || '[]') as CustomAgent[];
             const todos = JSON.parse(localStorage.getItem('echo-todo-list') || '[]') as TodoItem[];
             
@@ -170,9 +341,36 @@ const App: React.FC = () => {
                 playbooks,
                 customAgents,
                 activeTodos: todos.filter(t => !t.isCompleted),
+                choosePlaybook: (matches: PlaybookMatch[]) => {
+                    addLog({ status: 'INFO', message: `[Planner] Found ${matches.length} similar playbook(s). Waiting for the user to pick one...` });
+                    return new Promise<Playbook | null>(resolve => {
+                        playbookChoiceResolverRef.current = resolve;
+                        setPlaybookSuggestions(matches);
+                    });
+                },
+                onPlaybookMatched: (match: PlaybookMatch, autoSelected: boolean) => {
+                    addLog({ status: 'INFO', message: `[Planner] ${autoSelected ? 'Replaying' : 'User chose'} playbook "${match.playbook.name}" (${describePlaybookMatch(match)}).` });
+                },
+                requestParameterValues: (playbook: Playbook, missing: PlaybookParameter[], values: ParameterValues) => {
+                    addLog({ status: 'WARN', message: `[Planner] Playbook "${playbook.name}" needs: ${missing.map(p => p.name).join(', ')}. Waiting for user input...` });
+                    return new Promise<ParameterValues | null>(resolve => {
+                        parameterResolverRef.current = resolve;
+                        setParameterRequest({ playbook, missing, values });
+                    });
+                },
             };
 
-            const initialTasks = await createInitialPlan(correctedPrompt, isWebToolActive, executionContext, handleTokenUpdate);
+            let streamedPlan = '';
+            const initialTasks = await createInitialPlan(correctedPrompt, isWebToolActive, executionContext, handleTokenUpdate, {
+                signal: planningAbort.signal,
+                onTextDelta: delta => {
+                    streamedPlan += delta;
+                    showLiveOutput({ id: 'planner', source: 'Planner', text: streamedPlan });
+                },
+            }).finally(() => endLiveOutput('planner'));
+            // A playbook match makes no abortable call, so a stop during it is only seen here.
+            if (planningAbort.signal.aborted) throw planningAbort.signal.reason;
+            planningAbortRef.current = null;
             setTasks(initialTasks);
             
             if (initialTasks.length > 0 && initialTasks[0].id.startsWith('playbook-')) {
@@ -181,46 +379,72 @@ const App: React.FC = () => {
                  addLog({ status: 'SUCCESS', message: '[Planner] Initial task pipeline generated.' });
             }
 
-            const executor = new AgentExecutor({
-                onTaskUpdate: (updatedTask) => {
-                    setTasks(prev => prev.map(t => t.id === updatedTask.id ? updatedTask : t));
-                },
-                onTasksUpdate: (updatedTasks) => {
-                    setTasks(updatedTasks);
-                },
-                onLog: addLog,
-                onTokenUpdate: handleTokenUpdate,
-                onArtifactCreated: handleCreateArtifact,
-                onAgentCreated: handleAgentCreated,
-                onFinish: () => {
-                    addLog({ status: 'SUCCESS', message: 'ECHO: All tasks completed successfully.' });
-                    setAgentStatus(AgentStatus.FINISHED);
-                },
-                onFail: (errorMessage) => {
-                    addLog({ status: 'ERROR', message: `ECHO: Execution failed. ${errorMessage}` });
-                    setAgentStatus(AgentStatus.ERROR);
-                }
-            });
+            const executor = createExecutor();
             executorRef.current = executor;
             await executor.run(initialTasks, correctedPrompt, artifacts);
 
         } catch (error) {
+            if (planningAbort.signal.aborted) {
+                setActionSession(prev => prev?.outcome === 'running' ? { ...prev, outcome: 'stopped' } : prev);
+                return;
+            }
             console.error("Error during agent execution:", error);
             const errorMessage = error instanceof Error ? error.message : String(error);
             addLog({ status: 'ERROR', message: `[System] A critical error occurred: ${errorMessage}` });
+            setActionSession(prev => prev?.outcome === 'running' ? { ...prev, outcome: 'failed' } : prev);
             setAgentStatus(AgentStatus.ERROR);
         }
     };
     
+    const handleResumeInterruptedRun = async (checkpoint: RunCheckpoint) => {
+        setInterruptedRun(null);
+        const restoredTasks = AgentExecutor.restoreTasksFromCheckpoint(checkpoint);
+        // The resumed run continues the session it was saved in before the interruption.
+        const previousSession = (await loadSessions()).find(s => s.runId === checkpoint.runId);
+        setActionSession(previousSession
+            ? { id: previousSession.id, prompt: previousSession.prompt, refinedPrompt: previousSession.refinedPrompt, runId: checkpoint.runId, usage: previousSession.usage, outcome: 'running', startedAt: previousSession.startedAt }
+            : { id: `session-${Date.now()}`, prompt: checkpoint.prompt, runId: checkpoint.runId, usage: EMPTY_USAGE, outcome: 'running', startedAt: checkpoint.startedAt });
+        setAgentMode(AgentMode.ACTION);
+        setTasks(restoredTasks);
+        setPlanRevisions(checkpoint.planRevisions || []);
+        traceEventsRef.current = [];
+        setLiveLogs(checkpoint.logs);
+        setArtifacts(checkpoint.artifacts);
+        setCurrentPrompt(checkpoint.prompt);
+        setAgentStatus(AgentStatus.RUNNING);
+        addLog({ status: 'INFO', message: `[System] Resuming interrupted run from checkpoint saved at ${new Date(checkpoint.updatedAt).toLocaleTimeString()}.` });
+
+        try {
+            const executor = createExecutor();
+            executorRef.current = executor;
+            await executor.run(restoredTasks, checkpoint.prompt, checkpoint.artifacts, checkpoint);
+        } catch (error) {
+            console.error("Error while resuming agent execution:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog({ status: 'ERROR', message: `[System] A critical error occurred: ${errorMessage}` });
+            setActionSession(prev => prev?.outcome === 'running' ? { ...prev, outcome: 'failed' } : prev);
+            setAgentStatus(AgentStatus.ERROR);
+        }
+    };
+
+    const handleDiscardInterruptedRun = (checkpoint: RunCheckpoint) => {
+        setInterruptedRun(null);
+        clearRunCheckpoint(checkpoint.runId).catch(error => console.error("Failed to discard run checkpoint", error));
+    };
+
     useEffect(() => {
         const handleSynthesis = async () => {
             if (agentStatus === AgentStatus.FINISHED && currentPrompt && tasks.length > 0 && !tasks[0].id.startsWith('playbook-')) {
                 setAgentStatus(AgentStatus.SYNTHESIZING);
                 addLog({ status: 'INFO', message: '[Synthesizer] Analyzing successful plan to create a new playbook...' });
                 try {
-                    const suggestedName = await suggestPlaybookName(currentPrompt, tasks, handleTokenUpdate);
+                    const [suggestedName, suggestedParameters] = await Promise.all([
+                        suggestPlaybookName(currentPrompt, tasks, handleTokenUpdate),
+                        extractPlaybookParameters(currentPrompt, tasks, handleTokenUpdate),
+                    ]);
                     setPlaybookCandidate({
                         suggestedName,
+                        suggestedParameters,
                         tasks,
                         triggerPrompt: currentPrompt,
                     });
@@ -238,23 +462,29 @@ const App: React.FC = () => {
     }, [agentStatus, currentPrompt, tasks]);
 
 
-    const handleSavePlaybook = (name: string, description: string) => {
+    const handleSavePlaybook = (name: string, description: string, parameters: PlaybookParameter[]) => {
         if (!playbookCandidate) return;
 
-        const taskTemplates = playbookCandidate.tasks.map(({ id, status, dependencies, logs, reviewHistory, retryCount, maxRetries, subSteps, ...rest }) => rest);
+        // Tasks replaced by a plan revision never ran to completion, so they are not part of the playbook.
+        const playbookTasks = playbookCandidate.tasks.filter(t => !t.supersededByRevision);
+        const candidateIds = playbookTasks.map(t => t.id);
+        const taskTemplates = playbookTasks.map(({ id, status, dependencies, logs, reviewHistory, retryCount, maxRetries, subSteps, output, pendingApproval, pendingQuestion, usage, planRevision, supersededByRevision, contextSummary, ...rest }) => ({
+            ...rest,
+            dependsOn: dependencies.map(depId => candidateIds.indexOf(depId)).filter(index => index >= 0),
+        }));
+        // Each parameter's value from this run becomes a {name} placeholder; parameters whose value is in no task are dropped.
+        const templated = templatePlaybookTasks(taskTemplates, parameters);
         const newPlaybook: Playbook = {
             id: `playbook-${Date.now()}`,
             name,
             description,
             triggerPrompt: playbookCandidate.triggerPrompt,
-            tasks: taskTemplates,
+            ...(templated.parameters.length > 0 ? { parameters: templated.parameters } : {}),
+            tasks: templated.tasks,
             createdAt: new Date().toISOString(),
         };
 
-        const savedPlaybooksJSON = localStorage.getItem('echo-playbooks');
-        const playbooks = savedPlaybooksJSON ? JSON.parse(savedPlaybooksJSON) : [];
-        playbooks.push(newPlaybook);
-        localStorage.setItem('echo-playbooks', JSON.stringify(playbooks));
+        savePlaybooks([...loadPlaybooks(), recordPlaybookVersion(newPlaybook, 'Learned from a run')]);
         
         addLog({ status: 'SUCCESS', message: `[Synthesizer] New playbook created: "${newPlaybook.name}"` });
         
@@ -270,7 +500,37 @@ const App: React.FC = () => {
         addLog({ status: 'WARN', message: '[Synthesizer] Playbook creation cancelled by user.' });
     };
 
+    const handlePauseExecution = () => {
+        if (executorRef.current) {
+            executorRef.current.pause();
+            setAgentStatus(AgentStatus.PAUSED);
+        }
+    };
+
+    const handleResumeExecution = () => {
+        if (executorRef.current) {
+            executorRef.current.resume();
+            setAgentStatus(AgentStatus.RUNNING);
+        }
+    };
+
+    const settleParameterRequest = (values: ParameterValues | null) => {
+        parameterResolverRef.current?.(values);
+        parameterResolverRef.current = null;
+        setParameterRequest(null);
+    };
+
+    const settlePlaybookChoice = (playbook: Playbook | null) => {
+        playbookChoiceResolverRef.current?.(playbook);
+        playbookChoiceResolverRef.current = null;
+        setPlaybookSuggestions(null);
+    };
+
     const handleStopExecution = () => {
+        settlePlaybookChoice(null);
+        settleParameterRequest(null);
+        planningAbortRef.current?.abort(new Error('Execution was stopped.'));
+        planningAbortRef.current = null;
         if (executorRef.current) {
             executorRef.current.stop();
         }
@@ -278,6 +538,17 @@ const App: React.FC = () => {
         setAgentStatus(AgentStatus.IDLE);
     };
 
+    const handleExportTrace = () => {
+        const events = traceEventsRef.current;
+        if (events.length === 0) return;
+        const url = URL.createObjectURL(new Blob([toJsonl(events)], { type: 'application/x-ndjson' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `echo-trace-${events[0].runId}.jsonl`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     const pageVariants = {
         initial: { opacity: 0, y: 20 },
         in: { opacity: 1, y: 0 },
@@ -315,8 +586,12 @@ const App: React.FC = () => {
                         >
                             <ExecutionDashboard 
                                 tasks={tasks}
+                                planRevisions={planRevisions}
                                 liveLogs={liveLogs}
+                                liveOutputs={liveOutputs}
                                 onCancelTask={handleCancelTask}
+                                onResolveApproval={handleResolveApproval}
+                                onAnswerQuestion={handleAnswerQuestion}
                             />
                         </motion.div>
                     ) : (
@@ -331,10 +606,18 @@ const App: React.FC = () => {
                         >
                            <ChatInterface 
                                 messages={messages} 
+                                threads={threads}
+                                activeThreadId={activeThreadId}
+                                onSwitchThread={switchThread}
+                                onNewThread={newThread}
+                                onRenameThread={renameThread}
+                                onDeleteThread={deleteThread}
+                                onBranchFromMessage={branchThread}
                                 onSuggestionClick={handleSuggestionClick}
-                                onEditMessage={editMessage}
+                                onEditMessage={handleEditMessage}
                                 onAcceptAction={handleAcceptAction}
                                 onDeclineAction={handleDeclineAction}
+                                onStopReply={handleStopReply}
                            />
                         </motion.div>
                     )}
@@ -342,8 +625,15 @@ const App: React.FC = () => {
             </main>
 
             <AnimatePresence>
-                {agentMode === AgentMode.ACTION && tasks.length > 0 && (
-                    <ExecutionStatusBar tasks={tasks} agentStatus={agentStatus} onStopExecution={handleStopExecution} />
+                {agentMode === AgentMode.ACTION && (tasks.length > 0 || agentStatus === AgentStatus.RUNNING) && (
+                    <ExecutionStatusBar
+                        tasks={tasks}
+                        agentStatus={agentStatus}
+                        onStopExecution={handleStopExecution}
+                        onPauseExecution={handlePauseExecution}
+                        onResumeExecution={handleResumeExecution}
+                        onExportTrace={handleExportTrace}
+                    />
                 )}
             </AnimatePresence>
 
@@ -355,8 +645,8 @@ const App: React.FC = () => {
                     setCommandCenterInput('');
                 }} 
                 onClearChat={() => {
-                    clearMemory();
-                    setSessionStats({ totalTokensUsed: 0 }); // Reset token count on new chat
+                    newThread();
+                    setSessionStats(createEmptySessionStats()); // Reset token count on new chat
                 }}
                 inputValue={commandCenterInput}
                 onInputChange={setCommandCenterInput}
@@ -374,11 +664,10 @@ const App: React.FC = () => {
             <AnimatePresence>
                 {isHistoryOpen && (
                     <HistoryPanel 
-                        tasks={tasks}
-                        messages={messages} 
+                        activeSessionId={actionSession?.outcome === 'running' ? actionSession.id : null}
                         onClose={handleHistoryClose} 
                         onClearChat={() => {
-                            clearMemory();
+                            newThread();
                             handleHistoryClose();
                         }}
                     />
@@ -397,12 +686,28 @@ const App: React.FC = () => {
                     <PlaybookCreationModal
                         isOpen={isPlaybookModalOpen}
                         suggestedName={playbookCandidate.suggestedName}
+                        suggestedParameters={playbookCandidate.suggestedParameters}
                         triggerPrompt={playbookCandidate.triggerPrompt}
                         onClose={handleCancelPlaybookCreation}
                         onSave={handleSavePlaybook}
                     />
                 )}
             </AnimatePresence>
+            <PlaybookSuggestionModal
+                matches={playbookSuggestions}
+                onChoose={settlePlaybookChoice}
+                onDecline={() => settlePlaybookChoice(null)}
+            />
+            <PlaybookParametersModal
+                request={parameterRequest}
+                onSubmit={settleParameterRequest}
+                onCancel={() => settleParameterRequest(null)}
+            />
+            <ResumeRunModal
+                checkpoint={interruptedRun}
+                onResume={handleResumeInterruptedRun}
+                onDiscard={handleDiscardInterruptedRun}
+            />
         </div>
     );
 };
@@ -5,6 +5,7 @@ import { CustomAgent, ModelProviderConfig, ChildAgentTemplate } from '../types';
 import { AgentsIcon } from './icons/AgentsIcon';
 import { AgentIcon, PREDEFINED_ICONS } from './AgentIcon';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { TOOL_ALIASES } from '../services/agentToolset';
 
 interface AgentCreationModalProps {
     agent: CustomAgent | null;
@@ -226,6 +227,9 @@ export const AgentCreationModal: React.FC<AgentCreationModalProps> = ({ agent, i
                                             placeholder="e.g., CODE_INTERPRETER, GOOGLE_SEARCH"
                                             className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
                                         />
+                                        <p className="text-gray-500 dark:text-gray-400 text-xs mt-1">
+                                            Groups: {Object.keys(TOOL_ALIASES).join(', ')}, or exact tool names. Leave empty to allow every tool.
+                                        </p>
                                     </div>
                                  </div>
                             </Accordion>
@@ -87,7 +87,7 @@ export const AgentOrchestration: React.FC<AgentOrchestrationProps> = ({ tasks })
                 continue;
             }
             if (tasksForRole.some(t => t.status === 'Error')) statuses[roleKey] = 'error';
-            else if (tasksForRole.some(t => ['Executing', 'Revising', 'Pending Review', 'Delegating'].includes(t.status))) statuses[roleKey] = 'executing';
+            else if (tasksForRole.some(t => ['Executing', 'Revising', 'Pending Review', 'Delegating', 'Awaiting Approval', 'Awaiting Input'].includes(t.status))) statuses[roleKey] = 'executing';
             else if (tasksForRole.every(t => t.status === 'Done')) statuses[roleKey] = 'success';
             else statuses[roleKey] = 'pending';
         }
@@ -8,13 +8,29 @@ import { EyeSlashIcon } from './icons/EyeSlashIcon';
 import { PencilSquareIcon } from './icons/PencilSquareIcon';
 import { ClipboardDocumentIcon } from './icons/ClipboardDocumentIcon';
 import { ClipboardCheckIcon } from './icons/ClipboardCheckIcon';
+import { BranchIcon } from './icons/BranchIcon';
+import { PlusIcon } from './icons/PlusIcon';
+import { PencilIcon } from './icons/PencilIcon';
+import { TrashIcon } from './icons/TrashIcon';
+import { StopIcon } from './icons/StopIcon';
+import { ChatThread, getThreadName } from '../hooks/useMemory';
 
 interface ChatInterfaceProps {
     messages: Message[];
+    threads: ChatThread[];
+    // May not be in `threads` yet: a new thread is only listed once it has a message.
+    activeThreadId: string;
+    onSwitchThread: (threadId: string) => void;
+    onNewThread: () => void;
+    onRenameThread: (threadId: string, name: string) => void;
+    onDeleteThread: (threadId: string) => void;
+    onBranchFromMessage: (messageId: string) => void;
     onSuggestionClick: (prompt: string) => void;
     onEditMessage: (messageId: string, newText: string) => void;
     onAcceptAction: (messageId: string, prompt: string) => void;
     onDeclineAction: (messageId: string) => void;
+    // Stops the reply being generated in the active thread.
+    onStopReply: () => void;
 }
 
 interface WelcomeScreenProps {
@@ -81,13 +97,81 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onSuggestionClick }) => {
 };
 
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSuggestionClick, onEditMessage, onAcceptAction, onDeclineAction }) => {
+const threadButtonClassName = "p-1.5 rounded-md text-zinc-500 dark:text-zinc-400 hover:text-zinc-800 dark:hover:text-white hover:bg-black/5 dark:hover:bg-white/10 transition-colors";
+
+const ThreadBar: React.FC<Pick<ChatInterfaceProps, 'threads' | 'activeThreadId' | 'onSwitchThread' | 'onNewThread' | 'onRenameThread' | 'onDeleteThread'>> = ({ threads, activeThreadId, onSwitchThread, onNewThread, onRenameThread, onDeleteThread }) => {
+    const [renameText, setRenameText] = useState<string | null>(null);
+    const activeThread = threads.find(t => t.id === activeThreadId);
+
+    const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' && activeThread && renameText !== null) {
+            onRenameThread(activeThread.id, renameText);
+            setRenameText(null);
+        }
+        if (e.key === 'Escape') {
+            setRenameText(null);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2 min-w-0">
+            {renameText !== null ? (
+                <input
+                    value={renameText}
+                    onChange={(e) => setRenameText(e.target.value)}
+                    onKeyDown={handleRenameKeyDown}
+                    onBlur={() => setRenameText(null)}
+                    placeholder="Thread name"
+                    className="min-w-0 w-56 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-[#8B5CF6]"
+                    autoFocus
+                />
+            ) : (
+                <select
+                    value={activeThreadId}
+                    onChange={(e) => onSwitchThread(e.target.value)}
+                    className="min-w-0 w-56 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-[#8B5CF6]"
+                    aria-label="Chat thread"
+                >
+                    {!activeThread && <option value={activeThreadId}>New chat</option>}
+                    {threads.map(thread => <option key={thread.id} value={thread.id}>{getThreadName(thread)}</option>)}
+                </select>
+            )}
+            <button onClick={onNewThread} className={threadButtonClassName} title="New thread"><PlusIcon className="w-4 h-4" /></button>
+            {activeThread && (
+                <>
+                    <button onClick={() => setRenameText(activeThread.name || '')} className={threadButtonClassName} title="Rename thread"><PencilIcon className="w-4 h-4" /></button>
+                    <button onClick={() => onDeleteThread(activeThread.id)} className={`${threadButtonClassName} hover:text-red-500 dark:hover:text-red-400`} title="Delete thread"><TrashIcon className="w-4 h-4" /></button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, threads, activeThreadId, onSwitchThread, onNewThread, onRenameThread, onDeleteThread, onBranchFromMessage, onSuggestionClick, onEditMessage, onAcceptAction, onDeclineAction, onStopReply }) => {
     const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
     const [editText, setEditText] = useState('');
     const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
 
+    const threadBar = (
+        <ThreadBar
+            threads={threads}
+            activeThreadId={activeThreadId}
+            onSwitchThread={onSwitchThread}
+            onNewThread={onNewThread}
+            onRenameThread={onRenameThread}
+            onDeleteThread={onDeleteThread}
+        />
+    );
+
     if (messages.length === 0) {
-        return <WelcomeScreen onSuggestionClick={onSuggestionClick} />;
+        return (
+            <div className="flex-grow flex flex-col">
+                {threads.length > 0 && <div className="w-full max-w-3xl mx-auto px-4 py-4 flex justify-end">{threadBar}</div>}
+                <div className="flex-grow">
+                    <WelcomeScreen onSuggestionClick={onSuggestionClick} />
+                </div>
+            </div>
+        );
     }
     
     const handleCopy = (text: string, id: string) => {
@@ -128,14 +212,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSugges
     return (
         <div className="w-full max-w-3xl mx-auto px-4 flex-grow flex flex-col">
             <div className="py-4">
-                <div className="flex justify-between items-center max-w-3xl mx-auto">
-                    <h2 className="text-lg font-bold text-zinc-800 dark:text-gray-100">Chat Mode</h2>
+                <div className="flex justify-between items-center gap-4 max-w-3xl mx-auto">
+                    <h2 className="text-lg font-bold text-zinc-800 dark:text-gray-100 flex-shrink-0">Chat Mode</h2>
+                    {threadBar}
                 </div>
             </div>
             <div className="flex-grow flex flex-col justify-end">
                 <div className="space-y-8 pb-8">
-                    {messages.map((msg) => {
+                    {messages.map((msg, index) => {
                         const isEditing = editingMessageId === msg.id;
+                        const hasLaterMessages = index < messages.length - 1;
                         
                         if (msg.type === 'system') {
                             return (
@@ -215,6 +301,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSugges
                                                 rows={Math.max(3, editText.split('\n').length)}
                                                 autoFocus
                                             />
+                                            <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">
+                                                {hasLaterMessages ? 'Saving regenerates the reply and removes the messages after this one. Branch first to keep them.' : 'Saving regenerates the reply.'}
+                                            </p>
                                             <div className="flex justify-end gap-2 mt-2">
                                                 <button onClick={handleCancelEdit} className="text-sm font-semibold px-3 py-1 rounded-md bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">Cancel</button>
                                                 <button onClick={handleSaveEdit} className="text-sm font-semibold px-3 py-1 rounded-md bg-[#8B5CF6] text-white hover:bg-[#7c4ee3] transition-colors">Save</button>
@@ -223,6 +312,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSugges
                                     ) : (
                                         <>
                                             {msg.sender === 'agent' ? <MarkdownRenderer content={msg.text} /> : <p className="text-base whitespace-pre-wrap">{msg.text}</p>}
+                                            {msg.isStreaming && (
+                                                <div className="flex items-center justify-between gap-3 mt-2">
+                                                    <span className="inline-block w-2 h-4 bg-cyan-500 dark:bg-[#00D4FF] animate-pulse"></span>
+                                                    <button onClick={onStopReply} className="flex items-center gap-1.5 text-xs font-semibold px-2.5 py-1 rounded-md bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-200 hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors">
+                                                        <StopIcon className="w-3.5 h-3.5" /> Stop
+                                                    </button>
+                                                </div>
+                                            )}
                                         </>
                                     )}
                                     <div className="absolute -bottom-4 flex gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
@@ -230,6 +327,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSugges
                                         {msg.sender === 'user' && !isEditing && (
                                             <button onClick={() => handleEditClick(msg)} className="p-1 rounded-full bg-zinc-300 dark:bg-zinc-700 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-400 dark:hover:bg-zinc-600"><PencilSquareIcon className="w-4 h-4" /></button>
                                         )}
+                                        {!isEditing && (
+                                            <button onClick={() => onBranchFromMessage(msg.id)} className="p-1 rounded-full bg-zinc-300 dark:bg-zinc-700 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-400 dark:hover:bg-zinc-600" title="Branch a new thread from here"><BranchIcon className="w-4 h-4" /></button>
+                                        )}
                                         <button onClick={() => handleCopy(msg.text, msg.id)} className="p-1 rounded-full bg-zinc-300 dark:bg-zinc-700 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-400 dark:hover:bg-zinc-600">
                                             {copiedMessageId === msg.id ? <ClipboardCheckIcon className="w-4 h-4 text-green-500" /> : <ClipboardDocumentIcon className="w-4 h-4" />}
                                         </button>
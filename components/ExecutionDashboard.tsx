@@ -1,7 +1,7 @@
-import React, { useState, useRef, useLayoutEffect, useEffect } from 'react';
+import React, { useState, useRef, useLayoutEffect, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { CloseIcon } from './icons/CloseIcon';
-import { Task, LogEntry, TaskStatus } from '../types';
+import { Task, LogEntry, LiveOutput, TaskStatus, ApprovalDecision, PlanRevision } from '../types';
 import { PlannerIcon } from './icons/PlannerIcon';
 import { ExecutorIcon } from './icons/ExecutorIcon';
 import { ReviewerIcon } from './icons/ReviewerIcon';
@@ -12,6 +12,13 @@ import { BrainIcon } from './icons/BrainIcon';
 import { PlugIcon } from './icons/PlugIcon';
 import { WebHawkIcon } from './icons/WebHawkIcon';
 import { StopIcon } from './icons/StopIcon';
+import { DocumentTextIcon } from './icons/DocumentTextIcon';
+import { getTaskLevels } from '../services/taskGraph';
+import { ToolApprovalCard } from './ToolApprovalCard';
+import { UserQuestionCard } from './UserQuestionCard';
+import { PlanRevisionCard } from './PlanRevisionCard';
+import { TaskTraceInspector } from './TaskTraceInspector';
+import { formatCost } from '../services/usageStats';
 
 
 const statusConfig = {
@@ -22,6 +29,8 @@ const statusConfig = {
     'Pending Review': { color: 'bg-yellow-500/20 text-yellow-500 dark:text-yellow-400 border-yellow-500/70 dark:border-yellow-400/70', glow: 'shadow-[0_0_12px_rgba(234,179,8,0.6),0_0_24px_rgba(234,179,8,0.3)]' },
     Revising: { color: 'bg-orange-500/20 text-orange-500 dark:text-orange-400 border-orange-500/70 dark:border-orange-400/70', glow: 'shadow-[0_0_12px_rgba(249,115,22,0.6),0_0_24px_rgba(249,115,22,0.3)]' },
     Delegating: { color: 'bg-purple-500/20 text-purple-500 dark:text-purple-400 border-purple-500/70 dark:border-purple-400/70', glow: 'shadow-[0_0_12px_rgba(168,85,247,0.5),0_0_24px_rgba(168,85,247,0.3)]' },
+    'Awaiting Approval': { color: 'bg-amber-500/20 text-amber-500 dark:text-amber-400 border-amber-500/70 dark:border-amber-400/70', glow: 'shadow-[0_0_12px_rgba(245,158,11,0.6),0_0_24px_rgba(245,158,11,0.3)] animate-pulse' },
+    'Awaiting Input': { color: 'bg-sky-500/20 text-sky-500 dark:text-sky-400 border-sky-500/70 dark:border-sky-400/70', glow: 'shadow-[0_0_12px_rgba(14,165,233,0.6),0_0_24px_rgba(14,165,233,0.3)] animate-pulse' },
     Cancelled: { color: 'bg-zinc-500/10 text-zinc-600 dark:text-gray-500 border-zinc-500/20 dark:bg-gray-600/20 dark:border-gray-600/30', glow: '' },
 };
 
@@ -76,14 +85,17 @@ const TaskItem = React.forwardRef<HTMLDivElement, {
             transition={{ type: "spring", stiffness: 300, damping: 20 }}
         >
             <div className="flex justify-between items-start">
-                <p className="font-bold text-zinc-800 dark:text-white truncate pr-2">{task.title}</p>
+                <p className={`font-bold text-zinc-800 dark:text-white truncate pr-2 ${task.supersededByRevision ? 'line-through' : ''}`}>{task.title}</p>
                 <span className="text-xs font-mono text-gray-500 dark:text-gray-400">{task.estimatedTime}</span>
             </div>
             <p className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
                 {roleIcons[task.agent.role]}
                 <span>{task.agent.role}: <span className="font-semibold">{task.agent.name}</span></span>
             </p>
-            <div className={`mt-2 text-xs font-mono px-2 py-1 rounded w-fit ${config.color}`} >{task.status}</div>
+            <div className="mt-2 flex items-center gap-2">
+                <div className={`text-xs font-mono px-2 py-1 rounded w-fit ${config.color}`} >{task.supersededByRevision ? `Superseded (rev ${task.supersededByRevision})` : task.status}</div>
+                {task.planRevision && <span className="text-xs font-mono px-2 py-1 rounded bg-violet-500/20 text-violet-600 dark:text-violet-400">Rev {task.planRevision}</span>}
+            </div>
         </motion.div>
     );
 });
@@ -108,13 +120,18 @@ const logStatusColors = {
 
 interface ExecutionDashboardProps {
     tasks: Task[];
+    planRevisions: PlanRevision[];
     liveLogs: LogEntry[];
+    liveOutputs: LiveOutput[];
     onCancelTask: (taskId: string) => void;
+    onResolveApproval: (taskId: string, decision: ApprovalDecision) => void;
+    onAnswerQuestion: (taskId: string, answer: string) => void;
 }
 
 
-export const ExecutionDashboard: React.FC<ExecutionDashboardProps> = ({ tasks, liveLogs, onCancelTask }) => {
+export const ExecutionDashboard: React.FC<ExecutionDashboardProps> = ({ tasks, planRevisions, liveLogs, liveOutputs, onCancelTask, onResolveApproval, onAnswerQuestion }) => {
     const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+    const [traceTaskId, setTraceTaskId] = useState<string | null>(null);
     const [relatedTaskIds, setRelatedTaskIds] = useState<{ dependencies: string[], dependents: string[] }>({ dependencies: [], dependents: [] });
     const [lines, setLines] = useState<Line[]>([]);
     
@@ -177,8 +194,12 @@ export const ExecutionDashboard: React.FC<ExecutionDashboardProps> = ({ tasks, l
 
     }, [tasks]);
 
+    // Tasks are laid out in columns by dependency depth, so parallel branches stack vertically.
+    const taskLevels = useMemo(() => getTaskLevels(tasks), [tasks]);
     const selectedTask = tasks.find(t => t.id === selectedTaskId);
     const isCancellable = selectedTask && !['Done', 'Error', 'Cancelled'].includes(selectedTask.status);
+    const awaitingApproval = tasks.filter(t => t.status === 'Awaiting Approval' && t.pendingApproval);
+    const awaitingInput = tasks.filter(t => t.status === 'Awaiting Input' && t.pendingQuestion);
 
     return (
         <div className="w-full max-w-7xl mx-auto px-4 flex-grow flex flex-col gap-8">
@@ -186,9 +207,39 @@ export const ExecutionDashboard: React.FC<ExecutionDashboardProps> = ({ tasks, l
                 <h2 className="text-lg font-bold text-cyan-600 dark:text-[#00D4FF] tracking-widest uppercase">Agent Brain</h2>
                 <AgentOrchestration tasks={tasks} />
             </div>
+            {awaitingApproval.length > 0 && (
+                <div>
+                    <h2 className="text-lg font-bold text-amber-500 dark:text-amber-400 tracking-widest uppercase mb-2">Approval Required</h2>
+                    <div className="space-y-3">
+                        {awaitingApproval.map(task => (
+                            <ToolApprovalCard key={`${task.id}-${task.pendingApproval!.requestedAt}`} task={task} onResolve={onResolveApproval} />
+                        ))}
+                    </div>
+                </div>
+            )}
+            {awaitingInput.length > 0 && (
+                <div>
+                    <h2 className="text-lg font-bold text-sky-500 dark:text-sky-400 tracking-widest uppercase mb-2">Input Needed</h2>
+                    <div className="space-y-3">
+                        {awaitingInput.map(task => (
+                            <UserQuestionCard key={`${task.id}-${task.pendingQuestion!.askedAt}`} task={task} onAnswer={onAnswerQuestion} />
+                        ))}
+                    </div>
+                </div>
+            )}
+            {planRevisions.length > 0 && (
+                <div>
+                    <h2 className="text-lg font-bold text-violet-500 dark:text-violet-400 tracking-widest uppercase mb-2">Plan Revisions</h2>
+                    <div className="space-y-3">
+                        {[...planRevisions].reverse().map(revision => (
+                            <PlanRevisionCard key={revision.revision} revision={revision} />
+                        ))}
+                    </div>
+                </div>
+            )}
             <div>
                  <h2 className="text-lg font-bold text-cyan-600 dark:text-[#00D4FF] tracking-widest uppercase">Task Pipeline</h2>
-                 <div ref={pipelineRef} className="relative mt-2 flex gap-4 overflow-x-auto pb-4 p-2 -m-2">
+                 <div ref={pipelineRef} className="relative mt-2 flex gap-8 overflow-x-auto pb-4 p-2 -m-2">
                     <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" style={{ zIndex: -1 }}>
                         <defs>
                             <linearGradient id="line-gradient" x1="0%" y1="0%" x2="100%" y2="0%">
@@ -229,26 +280,30 @@ export const ExecutionDashboard: React.FC<ExecutionDashboardProps> = ({ tasks, l
                             )})}
                         </AnimatePresence>
                     </svg>
-                    {tasks.map(task => {
-                        let highlight: 'selected' | 'dependency' | 'dependent' | 'none' = 'none';
-                        if (selectedTaskId) {
-                            if (task.id === selectedTaskId) highlight = 'selected';
-                            else if (relatedTaskIds.dependencies.includes(task.id)) highlight = 'dependency';
-                            else if (relatedTaskIds.dependents.includes(task.id)) highlight = 'dependent';
-                        }
-                        const isDimmed = selectedTaskId ? highlight === 'none' : false;
+                    {taskLevels.map((level, levelIndex) => (
+                        <div key={levelIndex} className="flex flex-col justify-center gap-4 flex-shrink-0">
+                            {level.map(task => {
+                                let highlight: 'selected' | 'dependency' | 'dependent' | 'none' = 'none';
+                                if (selectedTaskId) {
+                                    if (task.id === selectedTaskId) highlight = 'selected';
+                                    else if (relatedTaskIds.dependencies.includes(task.id)) highlight = 'dependency';
+                                    else if (relatedTaskIds.dependents.includes(task.id)) highlight = 'dependent';
+                                }
+                                const isDimmed = selectedTaskId ? highlight === 'none' : false;
 
-                        return (
-                            <TaskItem
-                                key={task.id}
-                                ref={el => { taskRefs.current[task.id] = el }}
-                                task={task}
-                                highlight={highlight}
-                                isDimmed={isDimmed}
-                                onClick={() => setSelectedTaskId(task.id === selectedTaskId ? null : task.id)}
-                            />
-                        )
-                    })}
+                                return (
+                                    <TaskItem
+                                        key={task.id}
+                                        ref={el => { taskRefs.current[task.id] = el }}
+                                        task={task}
+                                        highlight={highlight}
+                                        isDimmed={isDimmed}
+                                        onClick={() => setSelectedTaskId(task.id === selectedTaskId ? null : task.id)}
+                                    />
+                                )
+                            })}
+                        </div>
+                    ))}
                  </div>
             </div>
             
@@ -277,19 +332,33 @@ export const ExecutionDashboard: React.FC<ExecutionDashboardProps> = ({ tasks, l
                                     <div className="flex items-center gap-4">
                                         <span className={`px-3 py-1 rounded-full text-xs font-semibold ${statusConfig[selectedTask.status].color}`}>{selectedTask.status}</span>
                                         <span className="text-gray-500 dark:text-gray-400 flex items-center gap-1.5">{roleIcons[selectedTask.agent.role]} {selectedTask.agent.role}: {selectedTask.agent.name}</span>
+                                        {selectedTask.usage && (
+                                            <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{selectedTask.usage.tokens.toLocaleString()} tokens · {formatCost(selectedTask.usage.cost)}</span>
+                                        )}
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        {selectedTask.subSteps && selectedTask.subSteps.length > 0 && (
+                                            <button
+                                                onClick={() => setTraceTaskId(selectedTask.id)}
+                                                className="flex items-center gap-2 bg-cyan-500/10 hover:bg-cyan-500/20 text-cyan-600 dark:text-cyan-400 font-bold text-xs py-1.5 px-3 rounded-md transition-colors"
+                                            >
+                                                <DocumentTextIcon className="w-4 h-4" />
+                                                <span>View Trace</span>
+                                            </button>
+                                        )}
+                                        {isCancellable && (
+                                            <button
+                                                onClick={() => {
+                                                    onCancelTask(selectedTask.id);
+                                                    setSelectedTaskId(null);
+                                                }}
+                                                className="flex items-center gap-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 dark:text-red-400 font-bold text-xs py-1.5 px-3 rounded-md transition-colors"
+                                            >
+                                                <StopIcon className="w-4 h-4" />
+                                                <span>Cancel Task</span>
+                                            </button>
+                                        )}
                                     </div>
-                                    {isCancellable && (
-                                        <button
-                                            onClick={() => {
-                                                onCancelTask(selectedTask.id);
-                                                setSelectedTaskId(null);
-                                            }}
-                                            className="flex items-center gap-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 dark:text-red-400 font-bold text-xs py-1.5 px-3 rounded-md transition-colors"
-                                        >
-                                            <StopIcon className="w-4 h-4" />
-                                            <span>Cancel Task</span>
-                                        </button>
-                                    )}
                                 </div>
                             </div>
                             <div className="flex-grow overflow-y-auto p-6 space-y-6">
@@ -300,6 +369,25 @@ export const ExecutionDashboard: React.FC<ExecutionDashboardProps> = ({ tasks, l
                                     </div>
                                 </div>
 
+                                {selectedTask.output && (
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Output</h4>
+                                        <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg space-y-2">
+                                            <p className="text-sm text-zinc-700 dark:text-gray-300 whitespace-pre-wrap">{selectedTask.output.summary}</p>
+                                            {Object.keys(selectedTask.output.values).length > 0 && (
+                                                <dl className="font-mono text-xs space-y-1">
+                                                    {Object.entries(selectedTask.output.values).map(([key, value]) => (
+                                                        <div key={key} className="flex gap-2">
+                                                            <dt className="text-cyan-600 dark:text-cyan-400 flex-shrink-0">{key}:</dt>
+                                                            <dd className="text-gray-600 dark:text-gray-400 whitespace-pre-wrap break-all">{value}</dd>
+                                                        </div>
+                                                    ))}
+                                                </dl>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {selectedTask.subSteps && selectedTask.subSteps.length > 0 && (
                                     <div>
                                         <h4 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Agent's Thought Process</h4>
@@ -370,10 +458,16 @@ export const ExecutionDashboard: React.FC<ExecutionDashboardProps> = ({ tasks, l
                     </motion.div>
                 )}
             </AnimatePresence>
+
+            <TaskTraceInspector
+                task={tasks.find(t => t.id === traceTaskId) || null}
+                tasks={tasks}
+                onClose={() => setTraceTaskId(null)}
+            />
              
              <div>
                 <h2 className="text-lg font-bold text-cyan-600 dark:text-[#00D4FF] tracking-widest uppercase mb-2">Live Terminal</h2>
-                <LiveTerminal logs={liveLogs} />
+                <LiveTerminal logs={liveLogs} liveOutputs={liveOutputs} />
             </div>
         </div>
     );
@@ -5,14 +5,20 @@ import { StopIcon } from './icons/StopIcon';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { ClipboardCheckIcon } from './icons/ClipboardCheckIcon';
 import { BrainIcon } from './icons/BrainIcon';
+import { PauseIcon } from './icons/PauseIcon';
+import { PlayIcon } from './icons/PlayIcon';
+import { DocumentTextIcon } from './icons/DocumentTextIcon';
 
 interface ExecutionStatusBarProps {
     tasks: Task[];
     agentStatus: AgentStatus;
     onStopExecution: () => void;
+    onPauseExecution: () => void;
+    onResumeExecution: () => void;
+    onExportTrace: () => void;
 }
 
-export const ExecutionStatusBar: React.FC<ExecutionStatusBarProps> = ({ tasks, agentStatus, onStopExecution }) => {
+export const ExecutionStatusBar: React.FC<ExecutionStatusBarProps> = ({ tasks, agentStatus, onStopExecution, onPauseExecution, onResumeExecution, onExportTrace }) => {
     const { statusText, Icon } = useMemo(() => {
         switch (agentStatus) {
             case AgentStatus.RUNNING:
@@ -21,6 +27,15 @@ export const ExecutionStatusBar: React.FC<ExecutionStatusBarProps> = ({ tasks, a
                     statusText: executingTask ? `Executing: ${executingTask.title}` : 'Agent is running...',
                     Icon: <SpinnerIcon className="w-5 h-5 animate-spin text-cyan-600 dark:text-[#00D4FF]" />,
                 };
+            case AgentStatus.PAUSED:
+                const inFlight = tasks.filter(t => t.status === 'Executing').length;
+                const queued = tasks.filter(t => ['Queued', 'Revising', 'Pending Review'].includes(t.status)).length;
+                return {
+                    statusText: inFlight > 0
+                        ? `Pausing: waiting for ${inFlight} in-flight task${inFlight !== 1 ? 's' : ''} to reach a safe point...`
+                        : `Paused. ${queued} task${queued !== 1 ? 's' : ''} queued.`,
+                    Icon: <PauseIcon className="w-5 h-5 text-yellow-500" />,
+                };
             case AgentStatus.SYNTHESIZING:
                 return {
                     statusText: 'Synthesizing Playbook...',
@@ -46,6 +61,7 @@ export const ExecutionStatusBar: React.FC<ExecutionStatusBarProps> = ({ tasks, a
     }, [tasks, agentStatus]);
 
     const isExecuting = agentStatus === AgentStatus.RUNNING;
+    const isPaused = agentStatus === AgentStatus.PAUSED;
 
     return (
         <motion.div
@@ -60,15 +76,44 @@ export const ExecutionStatusBar: React.FC<ExecutionStatusBarProps> = ({ tasks, a
                     {Icon}
                     <p className="text-sm font-semibold text-zinc-800 dark:text-gray-200">{statusText}</p>
                 </div>
-                {isExecuting && (
-                    <button 
-                        onClick={onStopExecution}
-                        className="flex items-center gap-2 bg-red-500/80 hover:bg-red-500 text-white font-bold text-sm py-1.5 px-3 rounded-md transition-colors"
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={onExportTrace}
+                        title="Download this run's events as JSON Lines"
+                        className="flex items-center gap-2 bg-black/5 dark:bg-white/10 hover:bg-black/10 dark:hover:bg-white/20 text-zinc-800 dark:text-gray-200 font-bold text-sm py-1.5 px-3 rounded-md transition-colors"
                     >
-                        <StopIcon className="w-4 h-4" />
-                        <span>Stop</span>
+                        <DocumentTextIcon className="w-4 h-4" />
+                        <span>Trace</span>
                     </button>
-                )}
+                    {(isExecuting || isPaused) && (
+                        <>
+                            {isExecuting ? (
+                                <button
+                                    onClick={onPauseExecution}
+                                    className="flex items-center gap-2 bg-yellow-500/80 hover:bg-yellow-500 text-black font-bold text-sm py-1.5 px-3 rounded-md transition-colors"
+                                >
+                                    <PauseIcon className="w-4 h-4" />
+                                    <span>Pause</span>
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={onResumeExecution}
+                                    className="flex items-center gap-2 bg-green-500/80 hover:bg-green-500 text-white font-bold text-sm py-1.5 px-3 rounded-md transition-colors"
+                                >
+                                    <PlayIcon className="w-4 h-4" />
+                                    <span>Resume</span>
+                                </button>
+                            )}
+                            <button 
+                                onClick={onStopExecution}
+                                className="flex items-center gap-2 bg-red-500/80 hover:bg-red-500 text-white font-bold text-sm py-1.5 px-3 rounded-md transition-colors"
+                            >
+                                <StopIcon className="w-4 h-4" />
+                                <span>Stop</span>
+                            </button>
+                        </>
+                    )}
+                </div>
             </div>
         </motion.div>
     );
@@ -1,18 +1,24 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { CloseIcon } from './icons/CloseIcon';
-import { Task, Message } from '../types';
+import { AgentMode, Message, SessionOutcome, SessionRecord, Task } from '../types';
 import { DocumentTextIcon } from './icons/DocumentTextIcon';
 import { PlannerIcon } from './icons/PlannerIcon';
 import { ExecutorIcon } from './icons/ExecutorIcon';
 import { ReviewerIcon } from './icons/ReviewerIcon';
 import { SynthesizerIcon } from './icons/SynthesizerIcon';
 import { ChatIcon } from './icons/ChatIcon';
+import { ActionIcon } from './icons/ActionIcon';
 import { PlusCircleIcon } from './icons/PlusCircleIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { TaskTraceInspector } from './TaskTraceInspector';
+import { loadSessions } from '../services/persistence';
+import { filterSessions, getMatchSnippet, SessionFilter } from '../services/sessionHistory';
+import { formatCost } from '../services/usageStats';
 
 interface HistoryPanelProps {
-    tasks: Task[];
-    messages: Message[];
+    // The session of the run in progress, if any. Other sessions that are still 'running' were interrupted.
+    activeSessionId: string | null;
     onClose: () => void;
     onClearChat: () => void;
 }
@@ -26,6 +32,24 @@ const statusConfig = {
     Revising: { color: 'bg-[#FF6B00]/20 text-[#FF6B00] border-[#FF6B00]/30' },
     Cancelled: { color: 'bg-zinc-500/10 text-zinc-600 dark:text-gray-500 border-zinc-500/20 dark:bg-gray-600/20 dark:border-gray-600/30' },
     Delegating: { color: 'bg-purple-500/20 text-purple-500 dark:text-purple-400 border-purple-500/70 dark:border-purple-400/70' },
+    'Awaiting Approval': { color: 'bg-amber-500/20 text-amber-500 dark:text-amber-400 border-amber-500/70 dark:border-amber-400/70' },
+    'Awaiting Input': { color: 'bg-sky-500/20 text-sky-500 dark:text-sky-400 border-sky-500/70 dark:border-sky-400/70' },
+};
+
+const outcomeConfig: Record<SessionOutcome | 'interrupted', { label: string; color: string }> = {
+    running: { label: 'Running', color: 'bg-[#00D4FF]/20 text-[#00D4FF] border-[#00D4FF]/30' },
+    finished: { label: 'Finished', color: 'bg-green-500/20 text-green-500 dark:text-green-400 border-green-500/30' },
+    failed: { label: 'Failed', color: 'bg-red-500/20 text-red-500 dark:text-red-400 border-red-500/30' },
+    stopped: { label: 'Stopped', color: 'bg-zinc-500/10 text-zinc-600 dark:text-gray-500 border-zinc-500/20 dark:bg-gray-600/20 dark:border-gray-600/30' },
+    incomplete: { label: 'Incomplete', color: 'bg-yellow-500/20 text-yellow-500 dark:text-yellow-400 border-yellow-500/30' },
+    interrupted: { label: 'Interrupted', color: 'bg-amber-500/20 text-amber-500 dark:text-amber-400 border-amber-500/30' },
+};
+
+const logStatusColors = {
+    INFO: 'text-gray-500 dark:text-gray-400',
+    SUCCESS: 'text-green-600 dark:text-green-400',
+    WARN: 'text-yellow-600 dark:text-yellow-400',
+    ERROR: 'text-red-500 dark:text-red-400',
 };
 
 const roleIcons = {
@@ -35,85 +59,186 @@ const roleIcons = {
     Synthesizer: <SynthesizerIcon className="w-4 h-4" />,
 };
 
-// FIX: Renamed discriminant property to `historyType` to avoid conflict with `Message.type`.
-type HistoryItem = (Task & { historyType: 'task' }) | (Message & { historyType: 'message' });
-
-// FIX: Added a helper to reliably get a task's timestamp for sorting and display.
-const getTaskTimestamp = (task: Task): string => {
-    // Prefer the first log's timestamp if it exists.
-    if (task.logs && task.logs.length > 0 && task.logs[0].timestamp) {
-        return task.logs[0].timestamp;
-    }
-    // Fallback to parsing the creation timestamp from the task ID.
-    // We look for the last 13-digit number, as that's most likely the Date.now() timestamp.
-    const matches = task.id.match(/\d{13}/g);
-    if (matches && matches.length > 0) {
-        return new Date(parseInt(matches[matches.length - 1], 10)).toISOString();
-    }
-    // Final fallback, though it shouldn't be reached in normal operation.
-    return new Date(0).toISOString();
-}
+const inputClassName = "bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-orange-500/50";
 
+const OutcomeBadge: React.FC<{ session: SessionRecord; activeSessionId: string | null }> = ({ session, activeSessionId }) => {
+    if (!session.outcome) return null;
+    const config = outcomeConfig[session.outcome === 'running' && session.id !== activeSessionId ? 'interrupted' : session.outcome];
+    return <span className={`text-xs font-mono px-2 py-1 rounded border w-fit flex-shrink-0 ${config.color}`}>{config.label}</span>;
+};
 
-const HistoryItemCard: React.FC<{ item: HistoryItem }> = ({ item }) => {
-    // FIX: Use `historyType` for discriminating the union.
-    if (item.historyType === 'task') {
-        const config = statusConfig[item.status];
-        return (
-            <div className="bg-black/5 dark:bg-white/5 p-4 rounded-lg border border-black/10 dark:border-white/10">
-                <div className="flex justify-between items-start">
-                    <p className="font-bold text-zinc-800 dark:text-white">{item.title}</p>
-                    <span className={`text-xs font-mono px-2 py-1 rounded w-fit ${config.color}`}>{item.status}</span>
-                </div>
-                <p className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2 mt-1">
-                    {roleIcons[item.agent.role]}
-                    <span>{item.agent.role}: <span className="font-semibold">{item.agent.name}</span></span>
-                </p>
-                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                    {new Date(getTaskTimestamp(item)).toLocaleString()}
+const MessageBubble: React.FC<{ message: Message }> = ({ message }) => (
+    <div className="flex gap-3">
+        <div className={`w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center ${message.sender === 'user' ? 'bg-orange-500' : 'bg-cyan-500'}`}>
+            {message.sender === 'agent' && <ChatIcon className="w-5 h-5 text-black" />}
+        </div>
+        <div className={`p-3 rounded-xl max-w-sm w-full ${message.sender === 'user' ? 'bg-orange-500/10' : 'bg-cyan-500/10'}`}>
+            <p className="text-sm text-zinc-700 dark:text-zinc-200 whitespace-pre-wrap">{message.text}</p>
+            <p className="text-xs text-right text-gray-500 dark:text-gray-400 mt-2">
+                {new Date(message.timestamp).toLocaleTimeString()}
+            </p>
+        </div>
+    </div>
+);
+
+const SessionCard: React.FC<{ session: SessionRecord; query: string; activeSessionId: string | null; onOpen: () => void }> = ({ session, query, activeSessionId, onOpen }) => {
+    const snippet = useMemo(() => getMatchSnippet(session, query), [session, query]);
+    const isChat = session.mode === AgentMode.CHAT;
+    return (
+        <button
+            onClick={onOpen}
+            className="w-full text-left bg-black/5 dark:bg-white/5 hover:bg-black/10 dark:hover:bg-white/10 p-4 rounded-lg border border-black/10 dark:border-white/10 transition-colors"
+        >
+            <div className="flex justify-between items-start gap-3">
+                <p className="font-bold text-zinc-800 dark:text-white flex items-start gap-2 min-w-0">
+                    {isChat
+                        ? <ChatIcon className="w-4 h-4 mt-1 flex-shrink-0 text-cyan-500" />
+                        : <ActionIcon className="w-4 h-4 mt-1 flex-shrink-0 text-orange-500" />}
+                    <span className="line-clamp-2 break-words">{session.name || session.prompt}</span>
                 </p>
+                <OutcomeBadge session={session} activeSessionId={activeSessionId} />
             </div>
-        );
-    } else {
-        // FIX: Added an else block to ensure proper type narrowing for `Message`.
-        return (
-             <div className="flex gap-3">
-                <div className={`w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center ${item.sender === 'user' ? 'bg-orange-500' : 'bg-cyan-500'}`}>
-                    {item.sender === 'agent' && <ChatIcon className="w-5 h-5 text-black" />}
-                </div>
-                <div className={`p-3 rounded-xl max-w-sm w-full ${item.sender === 'user' ? 'bg-orange-500/10' : 'bg-cyan-500/10'}`}>
-                    <p className="text-sm text-zinc-700 dark:text-zinc-200 whitespace-pre-wrap">{item.text}</p>
-                     <p className="text-xs text-right text-gray-500 dark:text-gray-400 mt-2">
-                        {new Date(item.timestamp).toLocaleTimeString()}
-                    </p>
+            {snippet && <p className="text-xs text-gray-600 dark:text-gray-400 italic mt-2 break-words">{snippet}</p>}
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 flex flex-wrap gap-x-3">
+                <span>{new Date(session.startedAt).toLocaleTimeString()}</span>
+                <span>{isChat ? `${session.messages.length} messages` : `${session.tasks.length} tasks · ${session.artifacts.length} artifacts`}</span>
+                <span className="font-mono">{session.usage.tokens.toLocaleString()} tokens · {formatCost(session.usage.cost)}</span>
+            </p>
+        </button>
+    );
+};
+
+const DetailSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <div>
+        <h4 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">{title}</h4>
+        {children}
+    </div>
+);
+
+/** A read-only view of a past session: what was asked, what the agents did and what they produced. */
+const SessionDetail: React.FC<{ session: SessionRecord; activeSessionId: string | null; onBack: () => void }> = ({ session, activeSessionId, onBack }) => {
+    const [traceTask, setTraceTask] = useState<Task | null>(null);
+    const isChat = session.mode === AgentMode.CHAT;
+    const visibleTasks = session.tasks.filter(task => !task.supersededByRevision);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+                <button onClick={onBack} className="flex items-center gap-1 text-sm font-semibold text-orange-500 hover:text-orange-400 transition-colors">
+                    <ChevronDownIcon className="w-4 h-4 rotate-90" />
+                    <span>All sessions</span>
+                </button>
+                <span className="text-xs font-mono text-gray-500 dark:text-gray-400">Read-only</span>
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex justify-between items-start gap-3">
+                    <p className="font-bold text-lg text-zinc-800 dark:text-white whitespace-pre-wrap break-words">{session.name || session.prompt}</p>
+                    <OutcomeBadge session={session} activeSessionId={activeSessionId} />
                 </div>
+                {session.refinedPrompt && session.refinedPrompt !== session.prompt && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400"><span className="font-semibold">Refined:</span> {session.refinedPrompt}</p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 flex flex-wrap gap-x-3">
+                    <span>{new Date(session.startedAt).toLocaleString()}</span>
+                    <span className="font-mono">{session.usage.tokens.toLocaleString()} tokens · {formatCost(session.usage.cost)}</span>
+                </p>
             </div>
-        );
-    }
+
+            {isChat ? (
+                <DetailSection title="Messages">
+                    <div className="space-y-4">
+                        {session.messages.map(message => <MessageBubble key={message.id} message={message} />)}
+                    </div>
+                </DetailSection>
+            ) : (
+                <>
+                    <DetailSection title="Tasks">
+                        {visibleTasks.length === 0 ? (
+                            <p className="text-sm text-gray-500">No tasks were planned.</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {visibleTasks.map(task => (
+                                    <div key={task.id} className="bg-black/5 dark:bg-white/5 p-4 rounded-lg border border-black/10 dark:border-white/10">
+                                        <div className="flex justify-between items-start gap-3">
+                                            <p className="font-bold text-zinc-800 dark:text-white">{task.title}</p>
+                                            <span className={`text-xs font-mono px-2 py-1 rounded w-fit flex-shrink-0 ${statusConfig[task.status].color}`}>{task.status}</span>
+                                        </div>
+                                        <p className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2 mt-1">
+                                            {roleIcons[task.agent.role]}
+                                            <span>{task.agent.role}: <span className="font-semibold">{task.agent.name}</span></span>
+                                        </p>
+                                        {task.output && <p className="text-sm text-zinc-700 dark:text-gray-300 mt-2 whitespace-pre-wrap">{task.output.summary}</p>}
+                                        {task.subSteps && task.subSteps.length > 0 && (
+                                            <button onClick={() => setTraceTask(task)} className="mt-2 flex items-center gap-1.5 text-xs font-semibold text-cyan-600 dark:text-cyan-400 hover:underline">
+                                                <DocumentTextIcon className="w-4 h-4" />
+                                                <span>View trace ({task.subSteps.length} steps)</span>
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </DetailSection>
+
+                    {session.artifacts.length > 0 && (
+                        <DetailSection title="Artifacts">
+                            <div className="space-y-2">
+                                {session.artifacts.map(artifact => (
+                                    <details key={artifact.id} className="bg-black/5 dark:bg-white/5 rounded-lg border border-black/10 dark:border-white/10">
+                                        <summary className="cursor-pointer p-3 text-sm font-semibold text-zinc-800 dark:text-white">
+                                            {artifact.title} <span className="font-mono text-xs text-gray-500">({artifact.type})</span>
+                                        </summary>
+                                        <pre className="font-mono text-xs p-3 border-t border-black/10 dark:border-white/10 text-zinc-700 dark:text-gray-300 whitespace-pre-wrap break-words max-h-64 overflow-auto">{artifact.content}</pre>
+                                    </details>
+                                ))}
+                            </div>
+                        </DetailSection>
+                    )}
+
+                    {session.logs.length > 0 && (
+                        <DetailSection title="Logs">
+                            <div className="font-mono text-xs p-3 bg-zinc-200/50 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg max-h-64 overflow-auto space-y-1">
+                                {session.logs.map((log, index) => (
+                                    <p key={index} className={logStatusColors[log.status]}>
+                                        <span className="text-gray-400 dark:text-gray-600">{new Date(log.timestamp).toLocaleTimeString()}</span> {log.message}
+                                    </p>
+                                ))}
+                            </div>
+                        </DetailSection>
+                    )}
+                </>
+            )}
+
+            <TaskTraceInspector task={traceTask} tasks={session.tasks} onClose={() => setTraceTask(null)} />
+        </div>
+    );
 };
 
-export const HistoryPanel: React.FC<HistoryPanelProps> = ({ tasks, messages, onClose, onClearChat }) => {
-    // In a real app, filtering state would be managed here with useState
-    // FIX: Use `historyType` when creating the combined array to avoid type conflicts.
-    const historyItems: HistoryItem[] = [
-        ...tasks.map(t => ({ ...t, historyType: 'task' as const })),
-        ...messages.map(m => ({ ...m, historyType: 'message' as const }))
-    ].sort((a, b) => {
-        // FIX: Use `getTaskTimestamp` helper to correctly access timestamp properties for sorting.
-        const timeA = new Date(a.historyType === 'task' ? getTaskTimestamp(a) : a.timestamp).getTime();
-        const timeB = new Date(b.historyType === 'task' ? getTaskTimestamp(b) : b.timestamp).getTime();
-        return timeB - timeA;
-    });
-
-    const groupedItems = historyItems.reduce((acc, item) => {
-        // FIX: Use `getTaskTimestamp` helper for grouping items by date.
-        const date = new Date(item.historyType === 'task' ? getTaskTimestamp(item) : item.timestamp).toDateString();
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ activeSessionId, onClose, onClearChat }) => {
+    const [sessions, setSessions] = useState<SessionRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [filter, setFilter] = useState<SessionFilter>({ query: '', mode: 'all', outcome: 'all' });
+    const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadSessions().then(loaded => {
+            setSessions(loaded);
+            setIsLoading(false);
+        });
+    }, []);
+
+    const filteredSessions = useMemo(() => filterSessions(sessions, filter), [sessions, filter]);
+    const openSession = sessions.find(s => s.id === openSessionId);
+
+    const groupedSessions: Record<string, SessionRecord[]> = filteredSessions.reduce((acc: Record<string, SessionRecord[]>, session: SessionRecord) => {
+        const date = new Date(session.startedAt).toDateString();
         if (!acc[date]) {
             acc[date] = [];
         }
-        acc[date].push(item);
+        acc[date].push(session);
         return acc;
-    }, {} as Record<string, HistoryItem[]>);
+    }, {});
 
     return (
         <motion.div
@@ -137,7 +262,7 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ tasks, messages, onC
                         Execution & Chat History
                     </h2>
                     <div className="flex items-center gap-4">
-                        <button 
+                        <button
                             onClick={onClearChat}
                             className="flex items-center gap-2 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white bg-black/5 dark:bg-white/5 hover:bg-black/10 dark:hover:bg-white/10 px-3 py-1.5 rounded-lg transition-colors"
                             title="Start New Chat"
@@ -151,35 +276,67 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ tasks, messages, onC
                     </div>
                 </header>
 
-                <div className="p-4 border-b border-black/10 dark:border-white/10 flex-shrink-0">
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
-                        <input type="text" placeholder="Search..." className="col-span-1 md:col-span-2 bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-orange-500/50"/>
-                        <select className="bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-orange-500/50">
-                            <option>All Modes</option>
-                            <option>Action</option>
-                            <option>Chat</option>
-                        </select>
-                         <select className="bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-orange-500/50">
-                            <option>All Statuses</option>
-                            <option>Done</option>
-                            <option>Executing</option>
-                             <option>Error</option>
-                        </select>
+                {!openSession && (
+                    <div className="p-4 border-b border-black/10 dark:border-white/10 flex-shrink-0">
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                            <input
+                                type="text"
+                                placeholder="Search prompts, tasks, artifacts, logs..."
+                                value={filter.query}
+                                onChange={(e) => setFilter(prev => ({ ...prev, query: e.target.value }))}
+                                className={`col-span-1 md:col-span-2 ${inputClassName}`}
+                            />
+                            <select
+                                value={filter.mode}
+                                onChange={(e) => setFilter(prev => ({ ...prev, mode: e.target.value as SessionFilter['mode'] }))}
+                                className={inputClassName}
+                            >
+                                <option value="all">All Modes</option>
+                                <option value={AgentMode.ACTION}>Action</option>
+                                <option value={AgentMode.CHAT}>Chat</option>
+                            </select>
+                            <select
+                                value={filter.outcome}
+                                onChange={(e) => setFilter(prev => ({ ...prev, outcome: e.target.value as SessionFilter['outcome'] }))}
+                                className={inputClassName}
+                            >
+                                <option value="all">All Outcomes</option>
+                                <option value="finished">Finished</option>
+                                <option value="failed">Failed</option>
+                                <option value="stopped">Stopped</option>
+                                <option value="incomplete">Incomplete</option>
+                                <option value="running">Running / Interrupted</option>
+                            </select>
+                        </div>
                     </div>
-                </div>
+                )}
 
                 <div className="p-6 flex-grow overflow-y-auto">
-                    {historyItems.length === 0 ? (
+                    {openSession ? (
+                        <SessionDetail session={openSession} activeSessionId={activeSessionId} onBack={() => setOpenSessionId(null)} />
+                    ) : isLoading ? (
+                        <div className="flex items-center justify-center h-full text-gray-500">
+                            <p>Loading history...</p>
+                        </div>
+                    ) : filteredSessions.length === 0 ? (
                         <div className="flex items-center justify-center h-full text-gray-500">
-                            <p>No history yet.</p>
+                            <p>{sessions.length === 0 ? 'No history yet.' : 'No sessions match your search.'}</p>
                         </div>
                     ) : (
                         <div className="space-y-8">
-                            {Object.entries(groupedItems).map(([date, items]) => (
+                            {Object.entries(groupedSessions).map(([date, dateSessions]) => (
                                 <div key={date}>
                                     <h3 className="font-semibold text-gray-500 dark:text-gray-400 pb-2 mb-4 border-b border-black/10 dark:border-white/10">{date}</h3>
                                     <div className="space-y-4">
-                                        {items.map((item) => <HistoryItemCard key={item.id} item={item} />)}
+                                        {dateSessions.map(session => (
+                                            <SessionCard
+                                                key={session.id}
+                                                session={session}
+                                                query={filter.query}
+                                                activeSessionId={activeSessionId}
+                                                onOpen={() => setOpenSessionId(session.id)}
+                                            />
+                                        ))}
                                     </div>
                                 </div>
                             ))}
@@ -189,4 +346,4 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ tasks, messages, onC
             </motion.div>
         </motion.div>
     );
-};
\ No newline at end of file
+};
@@ -1,9 +1,11 @@
 import React, { useRef, useEffect } from 'react';
-import { LogEntry } from '../types';
+import { LogEntry, LiveOutput } from '../types';
 import { WindowControlsIcon } from './icons/WindowControlsIcon';
 
 interface LiveTerminalProps {
     logs: LogEntry[];
+    // Model output still being generated, shown after the logs until it is complete.
+    liveOutputs?: LiveOutput[];
 }
 
 const logStatusColors = {
@@ -13,14 +15,14 @@ const logStatusColors = {
     INFO: 'text-cyan-400',
 };
 
-export const LiveTerminal: React.FC<LiveTerminalProps> = ({ logs }) => {
+export const LiveTerminal: React.FC<LiveTerminalProps> = ({ logs, liveOutputs = [] }) => {
     const terminalRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         if (terminalRef.current) {
             terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
         }
-    }, [logs]);
+    }, [logs, liveOutputs]);
 
     return (
         <div className="bg-[#121212] border border-white/10 rounded-lg h-80 flex flex-col font-mono text-sm shadow-2xl shadow-black/50">
@@ -39,6 +41,15 @@ export const LiveTerminal: React.FC<LiveTerminalProps> = ({ logs }) => {
                         </p>
                     </div>
                 ))}
+                {liveOutputs.map(output => (
+                    <div key={output.id} className="flex items-start gap-2">
+                        <span className="text-gray-500 flex-shrink-0">streaming</span>
+                        <p className="text-gray-400 whitespace-pre-wrap">
+                            <span className="text-violet-400">[{output.source}]</span> {output.text}
+                            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-violet-400 animate-pulse"></span>
+                        </p>
+                    </div>
+                ))}
                 <div className="flex items-center gap-2 text-gray-200">
                     <span>&gt;</span>
                     <span className="inline-block w-2 h-4 bg-green-400 animate-pulse"></span>
@@ -42,6 +42,10 @@ import { CodeSandboxIcon } from './icons/CodeSandboxIcon';
 import { ServerIcon } from './icons/ServerIcon';
 // FIX: Import missing ChevronDownIcon.
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { coreAgents, loadModelProviders } from '../services/agentRegistry';
+import { ExecutionSettings, BudgetScope, UsageBudget, DEFAULT_EXECUTION_SETTINGS, loadExecutionSettings, saveExecutionSettings } from '../services/executionSettings';
+import { PlaybookFileFormat, deletePlaybookVersions, getPlaybookFileFormat, loadPlaybooks, parsePlaybookFile, recordPlaybookVersion, savePlaybooks, serializePlaybooks, summarizePlaybookChanges } from '../services/playbookStore';
+import { PlaybookEditorModal } from './PlaybookEditorModal';
 
 
 interface MasterConfigurationPanelProps {
@@ -108,46 +112,6 @@ const advancedWorkflows = [
   }
 ];
 
-const initialModelProviders: ModelProviderConfig[] = [
-  {
-    id: 'gemini-flash-main',
-    provider: 'GEMINI',
-    type: 'CLOUD',
-    description: 'Primary high-speed, multi-modal model for core reasoning and tool use.',
-    config: {
-      model_name: 'gemini-2.5-flash',
-      api_key_env_var: 'GEMINI_API_KEY'
-    },
-    integration_layer: 'NATIVE',
-    enabled: true
-  },
-  {
-    id: 'ollama-llama3-8b',
-    provider: 'OLLAMA',
-    type: 'LOCAL',
-    description: 'Local Llama 3 8B model hosted via Ollama for code generation and internal critique.',
-    config: {
-      model_name: 'llama3:8b',
-      base_url: 'http://localhost:11434/api/generate'
-    },
-    integration_layer: 'LANGCHAIN',
-    enabled: true
-  },
-  {
-    id: 'hf-mixtral-8x7b',
-    provider: 'HUGGING_FACE',
-    type: 'CLOUD',
-    description: 'Mixtral 8x7B for complex reasoning tasks and detailed debugging reports.',
-    config: {
-      model_name: 'mixtral-8x7b-instruct-v0.1',
-      api_key_env_var: 'HF_API_KEY',
-      endpoint_url: 'https://api-inference.huggingface.co/models/...'
-    },
-    integration_layer: 'LANGCHAIN',
-    enabled: false
-  }
-];
-
 const Section: React.FC<{ title: string; icon?: React.ReactNode; children: React.ReactNode; defaultOpen?: boolean }> = ({ title, icon, children, defaultOpen = true }) => {
     const [isOpen, setIsOpen] = useState(defaultOpen);
     return (
@@ -178,33 +142,6 @@ const Section: React.FC<{ title: string; icon?: React.ReactNode; children: React
     );
 };
 
-const coreAgents: CustomAgent[] = [
-    {
-        id: 'ECHOMEN_PARENT_AGENT',
-        name: 'ECHOMEN | Orchestrator',
-        description: 'Primary self-improving orchestrator.',
-        instructions: "You are ECHOMEN, the master orchestrator. Your first step is always to analyze the request. If the task is complex, delegate it to a 'CHILD_TASK_AGENT'. If delegation is used, you MUST review the child's output according to the CRITIQUE_DEBUG_AND_REFINE policy before reporting back to the user.",
-        isCore: true,
-        enabled: true,
-        icon: 'Brain',
-        llm_profile_id: 'gemini-flash-main',
-        delegation_enabled: true,
-        review_policy: 'CRITIQUE_DEBUG_AND_REFINE',
-        capabilities: ['DECOMPOSITION', 'PLANNING', 'DELEGATION', 'CODE_EXECUTION', 'SELF_CORRECTION', 'LEARNING'],
-        enabled_tools: ['CODE_INTERPRETER', 'GOOGLE_SEARCH_GROUNDING', 'MONGODB_CLIENT', 'GOOGLE_DRIVE_MANAGER'],
-        child_agent_template: {
-            id_prefix: 'CHILD_TASK_',
-            llm_profile_id: 'ollama-llama3-8b',
-            default_tools: ['CODE_INTERPRETER', 'GOOGLE_SEARCH_GROUNDING'],
-            timeout_seconds: 300,
-            max_retries: 2,
-        },
-    },
-    { id: 'core-webhawk', name: 'WebHawk', instructions: 'Autonomous web research agent.', isCore: true, enabled: true, icon: 'WebHawk', description: "Autonomous web research agent." },
-    { id: 'core-codeforge', name: 'CodeForge', instructions: 'Generates and debugs code.', isCore: true, enabled: true, icon: 'CodeForge', description: "Generates and debugs code." },
-    { id: 'core-docmaster', name: 'DocMaster', instructions: 'Reads and analyzes documents.', isCore: true, enabled: false, icon: 'DocumentMaster', description: "Reads and analyzes documents." }
-];
-
 const defaultAgentModels = [
     'ECHOMEN | Orchestrator',
     'Gemini Advanced',
@@ -238,19 +175,14 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
     const [todos, setTodos] = useState<TodoItem[]>([]);
     const [newTodoText, setNewTodoText] = useState('');
     const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+    const [editingPlaybook, setEditingPlaybook] = useState<Playbook | null>(null);
+    const [playbookImportResult, setPlaybookImportResult] = useState<{ summary: string; problems: string[] } | null>(null);
     const [copiedPromptId, setCopiedPromptId] = useState<string | null>(null);
     const [isModelModalOpen, setIsModelModalOpen] = useState(false);
     const [editingModel, setEditingModel] = useState<ModelProviderConfig | null>(null);
 
-    const [modelProviders, setModelProviders] = useState<ModelProviderConfig[]>(() => {
-        try {
-            const saved = localStorage.getItem('echo-model-providers');
-            if (saved) {
-                return JSON.parse(saved);
-            }
-        } catch (e) { console.error(e); }
-        return initialModelProviders;
-    });
+    const [modelProviders, setModelProviders] = useState<ModelProviderConfig[]>(loadModelProviders);
+    const [executionSettings, setExecutionSettings] = useState<ExecutionSettings>(loadExecutionSettings);
     
     const [agents, setAgents] = useState<CustomAgent[]>(() => {
         let savedAgents: CustomAgent[] = [];
@@ -269,6 +201,10 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
         return [...coreAgents, ...savedAgents];
     });
 
+    useEffect(() => {
+        saveExecutionSettings(executionSettings);
+    }, [executionSettings]);
+
     useEffect(() => {
         try {
             const userAgents = agents.filter(agent => !agent.isCore);
@@ -297,18 +233,7 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
              console.error("Failed to parse todos from localStorage", error);
         }
         
-        try {
-            const savedPlaybooksJSON = localStorage.getItem('echo-playbooks');
-            if (savedPlaybooksJSON) {
-                // FIX: Use a type guard to safely parse playbooks from localStorage.
-                const parsed = JSON.parse(savedPlaybooksJSON);
-                if (Array.isArray(parsed)) {
-                    setPlaybooks(parsed as Playbook[]);
-                }
-            }
-        } catch (error) {
-            console.error("Failed to parse playbooks from localStorage", error);
-        }
+        setPlaybooks(loadPlaybooks());
     }, []);
 
     useEffect(() => {
@@ -328,11 +253,7 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
     }, [todos]);
     
     useEffect(() => {
-        try {
-            localStorage.setItem('echo-playbooks', JSON.stringify(playbooks));
-        } catch(error) {
-            console.error("Failed to save playbooks to localStorage", error);
-        }
+        savePlaybooks(playbooks);
     }, [playbooks]);
     
     useEffect(() => {
@@ -431,16 +352,88 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
         }));
     };
     
+    const handleBudgetChange = (scope: BudgetScope, field: keyof UsageBudget, value: string) => {
+        const limit = Number(value);
+        setExecutionSettings(prev => ({
+            ...prev,
+            [scope]: { ...prev[scope], [field]: value !== '' && limit > 0 ? limit : undefined },
+        }));
+    };
+
+    const handleLimitChange = (field: 'maxDelegationDepth' | 'maxDelegationFanOut' | 'maxReplans', value: string) => {
+        const limit = Math.floor(Number(value));
+        setExecutionSettings(prev => ({
+            ...prev,
+            [field]: value !== '' && limit >= 0 ? limit : DEFAULT_EXECUTION_SETTINGS[field],
+        }));
+    };
+
+    // Stored as 0 when cleared, so that an emptied field is not replaced by the default on the next load.
+    const handleTimeoutChange = (field: 'taskTimeoutSeconds' | 'toolTimeoutSeconds', value: string) => {
+        const seconds = Math.floor(Number(value));
+        setExecutionSettings(prev => ({
+            ...prev,
+            [field]: value !== '' && seconds > 0 ? seconds : 0,
+        }));
+    };
+
     const handleDeletePlaybook = (id: string) => {
         setPlaybooks(prev => prev.filter(p => p.id !== id));
+        deletePlaybookVersions([id]);
     };
 
     const handleClearAllPlaybooks = () => {
         if (window.confirm("Are you sure you want to delete all learned playbooks? This action cannot be undone.")) {
+            deletePlaybookVersions(playbooks.map(p => p.id));
             setPlaybooks([]);
         }
     };
 
+    const handleSavePlaybookEdit = (edited: Playbook, summary: string) => {
+        const previous = playbooks.find(p => p.id === edited.id);
+        const saved = recordPlaybookVersion(edited, summary, previous);
+        setPlaybooks(prev => prev.map(p => (p.id === saved.id ? saved : p)));
+        setEditingPlaybook(saved);
+    };
+
+    const handleExportPlaybooks = (toExport: Playbook[], format: PlaybookFileFormat) => {
+        if (toExport.length === 0) return;
+        const url = URL.createObjectURL(new Blob([serializePlaybooks(toExport, format)], { type: format === 'yaml' ? 'application/yaml' : 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = toExport.length === 1
+            ? `echo-playbook-${toExport[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || toExport[0].id}.${format}`
+            : `echo-playbooks.${format}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // A playbook whose id is already here becomes a new version of it; any other is added as a new playbook.
+    const handleImportPlaybooks = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const { playbooks: imported, problems } = parsePlaybookFile(await file.text(), getPlaybookFileFormat(file.name));
+            let next = [...playbooks];
+            imported.forEach(playbook => {
+                const existing = next.find(p => p.id === playbook.id);
+                if (existing) {
+                    const saved = recordPlaybookVersion({ ...playbook, createdAt: existing.createdAt }, `Imported from ${file.name}: ${summarizePlaybookChanges(existing, playbook).toLowerCase()}`, existing);
+                    next = next.map(p => (p.id === saved.id ? saved : p));
+                } else {
+                    next.push(recordPlaybookVersion(playbook, `Imported from ${file.name}`));
+                }
+            });
+            setPlaybooks(next);
+            setPlaybookImportResult({ summary: `Imported ${imported.length} playbook${imported.length === 1 ? '' : 's'} from ${file.name}.`, problems });
+        } catch (error) {
+            console.error("Failed to import playbooks", error);
+            const message = error instanceof Error ? error.message : String(error);
+            setPlaybookImportResult({ summary: `Could not import ${file.name}.`, problems: [message] });
+        }
+    };
+
     const handleAddTodo = (e: React.FormEvent) => {
         e.preventDefault();
         if (newTodoText.trim()) {
@@ -596,9 +589,21 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
                                                 <p className="font-semibold text-zinc-800 dark:text-white">{playbook.name}</p>
                                                 <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{playbook.description}</p>
                                                 <p className="text-xs text-gray-500 dark:text-gray-400 italic mt-2">Learned from: "{playbook.triggerPrompt}"</p>
-                                                 <p className="text-xs text-gray-500 mt-2">{new Date(playbook.createdAt).toLocaleString()}</p>
+                                                {playbook.parameters && playbook.parameters.length > 0 && (
+                                                    <div className="flex flex-wrap gap-1 mt-2">
+                                                        {playbook.parameters.map(p => (
+                                                            <span key={p.name} title={p.description} className="text-xs font-mono px-1.5 py-0.5 rounded bg-[#8B5CF6]/10 text-[#8B5CF6]">{`{${p.name}}`}: {p.type}</span>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                 <p className="text-xs text-gray-500 mt-2">
+                                                    {new Date(playbook.createdAt).toLocaleString()}
+                                                    {playbook.version && <span className="ml-2 font-mono">v{playbook.version}{playbook.updatedAt && `, updated ${new Date(playbook.updatedAt).toLocaleString()}`}</span>}
+                                                 </p>
                                             </div>
                                             <div className="flex items-center gap-3 flex-shrink-0 ml-4">
+                                                <button onClick={() => handleExportPlaybooks([playbook], 'yaml')} title="Export as YAML" className="text-xs font-mono text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white">YAML</button>
+                                                <button onClick={() => setEditingPlaybook(playbook)} title="Edit" className="text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white"><PencilIcon className="w-4 h-4" /></button>
                                                 <button onClick={() => handleDeletePlaybook(playbook.id)} title="Delete" className="text-gray-500 dark:text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
                                             </div>
                                         </div>
@@ -606,6 +611,28 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
                                 ))}
                                 {Array.isArray(playbooks) && playbooks.length === 0 && <p className="text-sm text-center text-gray-500 py-2">No playbooks learned yet.</p>}
                             </div>
+                            <div className="mt-3 grid grid-cols-3 gap-2">
+                                <label className="text-center cursor-pointer bg-black/5 hover:bg-black/10 dark:bg-white/5 dark:hover:bg-white/10 text-zinc-800 dark:text-white font-semibold py-2 px-4 rounded-lg transition-colors text-sm">
+                                    Import
+                                    <input type="file" accept=".json,.yaml,.yml" onChange={handleImportPlaybooks} className="hidden" />
+                                </label>
+                                {(['json', 'yaml'] as PlaybookFileFormat[]).map(format => (
+                                    <button
+                                        key={format}
+                                        onClick={() => handleExportPlaybooks(playbooks, format)}
+                                        disabled={!Array.isArray(playbooks) || playbooks.length === 0}
+                                        className="bg-black/5 hover:bg-black/10 dark:bg-white/5 dark:hover:bg-white/10 text-zinc-800 dark:text-white font-semibold py-2 px-4 rounded-lg transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Export {format.toUpperCase()}
+                                    </button>
+                                ))}
+                            </div>
+                            {playbookImportResult && (
+                                <div className="mt-2 text-xs space-y-1">
+                                    <p className="text-gray-600 dark:text-gray-300">{playbookImportResult.summary}</p>
+                                    {playbookImportResult.problems.map(problem => <p key={problem} className="text-red-500">{problem}</p>)}
+                                </div>
+                            )}
                             <button
                                 onClick={handleClearAllPlaybooks}
                                 disabled={!Array.isArray(playbooks) || playbooks.length === 0}
@@ -692,6 +719,71 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
                             </div>
                         </Section>
                         
+                        <Section title="Execution Limits" icon={<CpuChipIcon className="w-5 h-5" />}>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">Leave a field empty for no limit. A task that goes over budget wraps up with the work it has so far; when the run budget is spent, no new tasks start. Costs use each model provider's pricing.</p>
+                            <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-2 items-center text-sm">
+                                <span></span>
+                                <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">Max Tokens</span>
+                                <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">Max Cost (USD)</span>
+                                {([['runBudget', 'Per Run'], ['taskBudget', 'Per Task'], ['agentBudget', 'Per Agent']] as [BudgetScope, string][]).map(([scope, label]) => (
+                                    <React.Fragment key={scope}>
+                                        <label className="font-semibold text-zinc-800 dark:text-white">{label}</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="1000"
+                                            value={executionSettings[scope].maxTokens ?? ''}
+                                            onChange={(e) => handleBudgetChange(scope, 'maxTokens', e.target.value)}
+                                            placeholder="No limit"
+                                            className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-1 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
+                                        />
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={executionSettings[scope].maxCost ?? ''}
+                                            onChange={(e) => handleBudgetChange(scope, 'maxCost', e.target.value)}
+                                            placeholder="No limit"
+                                            className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-1 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
+                                        />
+                                    </React.Fragment>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4 mb-3">Delegation limits apply when agents hand sub-tasks to other agents; a depth of 0 disables delegation. Plan revisions happen when a task fails for good or an agent asks for a new plan; 0 disables replanning.</p>
+                            <div className="grid grid-cols-3 gap-3 text-sm">
+                                {([['maxDelegationDepth', 'Max Delegation Depth'], ['maxDelegationFanOut', 'Max Sub-tasks per Task'], ['maxReplans', 'Max Plan Revisions']] as ['maxDelegationDepth' | 'maxDelegationFanOut' | 'maxReplans', string][]).map(([field, label]) => (
+                                    <div key={field}>
+                                        <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">{label}</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="1"
+                                            value={executionSettings[field]}
+                                            onChange={(e) => handleLimitChange(field, e.target.value)}
+                                            className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-1 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4 mb-3">Timeouts abort a task attempt or a tool call that runs too long; the attempt is then retried with backoff. A spawned agent's own timeout overrides the task timeout. Leave a field empty for no limit.</p>
+                            <div className="grid grid-cols-2 gap-3 text-sm">
+                                {([['taskTimeoutSeconds', 'Task Timeout (s)'], ['toolTimeoutSeconds', 'Tool Call Timeout (s)']] as ['taskTimeoutSeconds' | 'toolTimeoutSeconds', string][]).map(([field, label]) => (
+                                    <div key={field}>
+                                        <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">{label}</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="10"
+                                            value={executionSettings[field] || ''}
+                                            onChange={(e) => handleTimeoutChange(field, e.target.value)}
+                                            placeholder="No limit"
+                                            className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-1 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </Section>
+
                         <Section title="AI Core: Model Providers" icon={<CpuChipIcon className="w-5 h-5" />}>
                             <div className="space-y-2">
                                 {modelProviders.map(provider => (
@@ -822,6 +914,12 @@ export const MasterConfigurationPanel: React.FC<MasterConfigurationPanelProps> =
                     />
                 )}
             </AnimatePresence>
+
+            <PlaybookEditorModal
+                playbook={editingPlaybook}
+                onSave={handleSavePlaybookEdit}
+                onClose={() => setEditingPlaybook(null)}
+            />
         </>
     );
 };
\ No newline at end of file
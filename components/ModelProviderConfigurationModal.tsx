@@ -3,6 +3,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { CloseIcon } from './icons/CloseIcon';
 import { ModelProviderConfig } from '../types';
 import { CpuChipIcon } from './icons/CpuChipIcon';
+import { SUPPORTED_PROVIDERS } from '../services/llmProviders';
+import { DEFAULT_CONTEXT_BUDGET } from '../services/contextManager';
 
 interface ModelProviderConfigurationModalProps {
     providerConfig: ModelProviderConfig | null;
@@ -40,6 +42,22 @@ export const ModelProviderConfigurationModal: React.FC<ModelProviderConfiguratio
         setFormData(prev => ({ ...prev, [field]: value }));
     };
 
+    const handlePricingChange = (field: 'input_per_million' | 'output_per_million', value: string) => {
+        setFormData(prev => {
+            const pricing = { input_per_million: 0, output_per_million: 0, ...prev.pricing, [field]: value === '' ? 0 : Math.max(0, Number(value) || 0) };
+            // Clearing both rates removes the pricing, so the profile is counted as free again.
+            return { ...prev, pricing: pricing.input_per_million || pricing.output_per_million ? pricing : undefined };
+        });
+    };
+
+    const handleContextBudgetChange = (field: 'history_tokens' | 'observation_tokens', value: string) => {
+        setFormData(prev => {
+            const contextBudget = { ...prev.contextBudget, [field]: Math.max(0, Math.floor(Number(value)) || 0) || undefined };
+            // With neither budget set, the profile uses the defaults.
+            return { ...prev, contextBudget: contextBudget.history_tokens || contextBudget.observation_tokens ? contextBudget : undefined };
+        });
+    };
+
     const handleConfigChange = (field: string, value: any) => {
         setFormData(prev => ({
             ...prev,
@@ -84,9 +102,7 @@ export const ModelProviderConfigurationModal: React.FC<ModelProviderConfiguratio
                                 <div>
                                     <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Provider</label>
                                     <select value={formData.provider} onChange={(e) => handleChange('provider', e.target.value)} className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50">
-                                        <option>GEMINI</option>
-                                        <option>OLLAMA</option>
-                                        <option>HUGGING_FACE</option>
+                                        {SUPPORTED_PROVIDERS.map(provider => <option key={provider}>{provider}</option>)}
                                     </select>
                                 </div>
                                 <div>
@@ -136,20 +152,73 @@ export const ModelProviderConfigurationModal: React.FC<ModelProviderConfiguratio
                                     type="text"
                                     value={formData.config?.base_url || ''}
                                     onChange={(e) => handleConfigChange('base_url', e.target.value)}
-                                    placeholder="http://localhost:11434/api/generate"
+                                    placeholder="http://localhost:11434"
                                     className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
                                 />
                             </div>
                              <div>
-                                <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Endpoint URL (for Cloud)</label>
+                                <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Endpoint URL (for OpenAI-compatible APIs)</label>
                                 <input
                                     type="text"
                                     value={formData.config?.endpoint_url || ''}
                                     onChange={(e) => handleConfigChange('endpoint_url', e.target.value)}
-                                    placeholder="https://api-inference.huggingface.co/models/..."
+                                    placeholder="https://api.openai.com/v1"
                                     className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
                                 />
                             </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Input Price (USD / 1M tokens)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={formData.pricing?.input_per_million || ''}
+                                        onChange={(e) => handlePricingChange('input_per_million', e.target.value)}
+                                        placeholder="0"
+                                        className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Output Price (USD / 1M tokens)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={formData.pricing?.output_per_million || ''}
+                                        onChange={(e) => handlePricingChange('output_per_million', e.target.value)}
+                                        placeholder="0"
+                                        className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
+                                    />
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">History Budget (tokens)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="1000"
+                                        value={formData.contextBudget?.history_tokens || ''}
+                                        onChange={(e) => handleContextBudgetChange('history_tokens', e.target.value)}
+                                        placeholder={String(DEFAULT_CONTEXT_BUDGET.historyTokens)}
+                                        className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Observation Limit (tokens)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="100"
+                                        value={formData.contextBudget?.observation_tokens || ''}
+                                        onChange={(e) => handleContextBudgetChange('observation_tokens', e.target.value)}
+                                        placeholder={String(DEFAULT_CONTEXT_BUDGET.observationTokens)}
+                                        className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-600/50 dark:focus:ring-[#00D4FF]/50"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">When a task's history goes over its budget, older steps are summarized. Longer observations are shortened, and the agent can read the rest on demand.</p>
                         </div>
 
                         <footer className="flex-shrink-0 mt-2 p-6 pt-0 flex justify-end">
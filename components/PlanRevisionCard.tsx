@@ -0,0 +1,44 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { PlannerIcon } from './icons/PlannerIcon';
+import { PlanRevision } from '../types';
+
+interface PlanRevisionCardProps {
+    revision: PlanRevision;
+}
+
+export const PlanRevisionCard: React.FC<PlanRevisionCardProps> = ({ revision }) => {
+    const triggerText = revision.trigger === 'task-failed'
+        ? `"${revision.triggerTaskTitle}" failed`
+        : `"${revision.triggerTaskTitle}" asked for a new plan`;
+
+    return (
+        <motion.div
+            layout
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-4 bg-violet-500/10 border border-violet-500/40 rounded-lg space-y-2"
+        >
+            <div className="flex items-start justify-between gap-4">
+                <div className="flex items-center gap-2 text-violet-600 dark:text-violet-400">
+                    <PlannerIcon className="w-5 h-5 flex-shrink-0" />
+                    <p className="font-bold text-sm">Revision {revision.revision}: {triggerText}</p>
+                </div>
+                <span className="text-xs font-mono text-gray-500 dark:text-gray-400 flex-shrink-0">{new Date(revision.revisedAt).toLocaleTimeString()}</span>
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-400 break-words">{revision.reason}</p>
+            {revision.rationale && <p className="text-sm italic text-gray-600 dark:text-gray-300">"{revision.rationale}"</p>}
+            <ul className="text-xs font-mono space-y-0.5">
+                {revision.removedTasks.map(t => (
+                    <li key={`removed-${t.id}`} className="text-red-500 dark:text-red-400 line-through">- {t.title}</li>
+                ))}
+                {revision.addedTasks.map(t => (
+                    <li key={`added-${t.id}`} className="text-green-600 dark:text-green-400">+ {t.title}</li>
+                ))}
+                {revision.removedTasks.length === 0 && revision.addedTasks.length === 0 && (
+                    <li className="text-gray-500 dark:text-gray-400">No tasks changed.</li>
+                )}
+            </ul>
+        </motion.div>
+    );
+};
@@ -2,29 +2,43 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { CloseIcon } from './icons/CloseIcon';
 import { BrainIcon } from './icons/BrainIcon';
+import { TrashIcon } from './icons/TrashIcon';
+import { PlaybookParameter, PlaybookParameterType } from '../types';
+import { PLAYBOOK_PARAMETER_TYPES, toParameterName } from '../services/playbookParameters';
 
 interface PlaybookCreationModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (name: string, description: string) => void;
+    onSave: (name: string, description: string, parameters: PlaybookParameter[]) => void;
     suggestedName: string;
+    // Values found in the run that would change on a replay; each becomes a {name} placeholder in the saved tasks.
+    suggestedParameters: PlaybookParameter[];
     triggerPrompt: string;
 }
 
-export const PlaybookCreationModal: React.FC<PlaybookCreationModalProps> = ({ isOpen, onClose, onSave, suggestedName, triggerPrompt }) => {
+export const PlaybookCreationModal: React.FC<PlaybookCreationModalProps> = ({ isOpen, onClose, onSave, suggestedName, suggestedParameters, triggerPrompt }) => {
     const [name, setName] = useState('');
     const [description, setDescription] = useState('');
+    const [parameters, setParameters] = useState<PlaybookParameter[]>([]);
 
     useEffect(() => {
         if (isOpen) {
             setName(suggestedName);
             setDescription(''); // Reset description on open
+            setParameters(suggestedParameters);
         }
-    }, [isOpen, suggestedName]);
+    }, [isOpen, suggestedName, suggestedParameters]);
+
+    const updateParameter = (index: number, fields: Partial<PlaybookParameter>) => {
+        setParameters(prev => prev.map((p, i) => i === index ? { ...p, ...fields } : p));
+    };
+
+    const parameterNames = parameters.map(p => toParameterName(p.name));
+    const hasInvalidParameters = parameterNames.some((n, i) => !n || parameterNames.indexOf(n) !== i);
 
     const handleSave = () => {
-        if (name.trim()) {
-            onSave(name.trim(), description.trim());
+        if (name.trim() && !hasInvalidParameters) {
+            onSave(name.trim(), description.trim(), parameters.map(p => ({ ...p, name: toParameterName(p.name), description: p.description.trim() || toParameterName(p.name) })));
         }
     };
     
@@ -81,6 +95,46 @@ export const PlaybookCreationModal: React.FC<PlaybookCreationModalProps> = ({ is
                                     className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#8B5CF6]/50"
                                 />
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Parameters</label>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                                    These values are replaced by placeholders in the saved tasks and filled in from the prompt each time the playbook is replayed. Remove any that should stay fixed.
+                                </p>
+                                <div className="space-y-2">
+                                    {parameters.map((parameter, index) => (
+                                        <div key={index} className="p-3 bg-black/5 dark:bg-white/5 rounded-lg border border-black/10 dark:border-white/10 space-y-2">
+                                            <div className="flex items-center gap-2">
+                                                <input
+                                                    type="text"
+                                                    value={parameter.name}
+                                                    onChange={(e) => updateParameter(index, { name: e.target.value })}
+                                                    className="flex-grow min-w-0 bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-md px-2 py-1 text-sm font-mono text-zinc-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-[#8B5CF6]/50"
+                                                />
+                                                <select
+                                                    value={parameter.type}
+                                                    onChange={(e) => updateParameter(index, { type: e.target.value as PlaybookParameterType })}
+                                                    className="bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-md px-2 py-1 text-sm text-zinc-800 dark:text-gray-200 focus:outline-none"
+                                                >
+                                                    {PLAYBOOK_PARAMETER_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                                </select>
+                                                <button onClick={() => setParameters(prev => prev.filter((_, i) => i !== index))} title="Keep this value fixed" className="text-gray-500 dark:text-gray-400 hover:text-red-500">
+                                                    <TrashIcon className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                            <input
+                                                type="text"
+                                                value={parameter.description}
+                                                onChange={(e) => updateParameter(index, { description: e.target.value })}
+                                                placeholder="What should the user be asked for?"
+                                                className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-md px-2 py-1 text-sm text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#8B5CF6]/50"
+                                            />
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">In this run: <span className="font-mono">{parameter.example}</span></p>
+                                        </div>
+                                    ))}
+                                    {parameters.length === 0 && <p className="text-sm text-gray-500">No parameters. The playbook replays exactly as this run did.</p>}
+                                    {hasInvalidParameters && <p className="text-xs text-red-500">Parameter names must be unique and contain letters or digits.</p>}
+                                </div>
+                            </div>
                         </div>
 
                         <footer className="flex-shrink-0 mt-2 p-6 pt-0 flex justify-end items-center gap-4">
@@ -92,7 +146,7 @@ export const PlaybookCreationModal: React.FC<PlaybookCreationModalProps> = ({ is
                             </button>
                             <button
                                 onClick={handleSave}
-                                disabled={!name.trim()}
+                                disabled={!name.trim() || hasInvalidParameters}
                                 className="bg-[#8B5CF6] hover:bg-[#7c4ee3] text-white font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 Save Playbook
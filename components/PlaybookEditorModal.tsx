@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CloseIcon } from './icons/CloseIcon';
+import { BrainIcon } from './icons/BrainIcon';
+import { TrashIcon } from './icons/TrashIcon';
+import { PlusIcon } from './icons/PlusIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { TextDiff } from './TextDiff';
+import { AgentRole, Playbook } from '../types';
+import { loadPlaybookVersions, playbookToDiffText, summarizePlaybookChanges, validatePlaybook } from '../services/playbookStore';
+
+type PlaybookTaskTemplate = Playbook['tasks'][number];
+
+interface PlaybookEditorModalProps {
+    playbook: Playbook | null;
+    onSave: (playbook: Playbook, summary: string) => void;
+    onClose: () => void;
+}
+
+const AGENT_ROLES: AgentRole[] = ['Planner', 'Executor', 'Reviewer', 'Synthesizer'];
+
+// Agent names are chosen from the user's preferences when the playbook is replayed, so only the role matters here.
+const newTask = (): PlaybookTaskTemplate => ({
+    title: '',
+    details: '',
+    agent: { role: 'Executor', name: 'God Mode' },
+    estimatedTime: '~45s',
+    dependsOn: [],
+});
+
+// Playbooks saved before dependency indices were recorded run as a linear chain; the editor shows that chain explicitly.
+const withExplicitDependencies = (playbook: Playbook): Playbook => ({
+    ...playbook,
+    tasks: playbook.tasks.some(task => task.dependsOn)
+        ? playbook.tasks
+        : playbook.tasks.map((task, index) => ({ ...task, dependsOn: index > 0 ? [index - 1] : [] })),
+});
+
+/** Moves a task to a new position, keeping every dependency pointing at the same task. */
+const moveTask = (tasks: PlaybookTaskTemplate[], from: number, to: number): PlaybookTaskTemplate[] => {
+    const order = tasks.map((_, index) => index);
+    order.splice(to, 0, order.splice(from, 1)[0]);
+    const newIndex = new Map(order.map((oldIndex, index) => [oldIndex, index]));
+    return order.map(oldIndex => ({
+        ...tasks[oldIndex],
+        dependsOn: (tasks[oldIndex].dependsOn || []).map(dep => newIndex.get(dep)!).sort((a, b) => a - b),
+    }));
+};
+
+/** Removes a task, dropping the dependencies on it and shifting the ones after it. */
+const removeTask = (tasks: PlaybookTaskTemplate[], removed: number): PlaybookTaskTemplate[] =>
+    tasks.filter((_, index) => index !== removed).map(task => ({
+        ...task,
+        dependsOn: (task.dependsOn || []).filter(dep => dep !== removed).map(dep => (dep > removed ? dep - 1 : dep)),
+    }));
+
+const inputClassName = "w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#8B5CF6]/50";
+
+export const PlaybookEditorModal: React.FC<PlaybookEditorModalProps> = ({ playbook, onSave, onClose }) => {
+    const [draft, setDraft] = useState<Playbook | null>(null);
+    const [tab, setTab] = useState<'edit' | 'history'>('edit');
+    const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+    const [showErrors, setShowErrors] = useState(false);
+
+    useEffect(() => {
+        setDraft(playbook ? withExplicitDependencies(playbook) : null);
+        setShowErrors(false);
+        setSelectedVersion(null);
+    }, [playbook]);
+
+    useEffect(() => {
+        if (!playbook) setTab('edit');
+    }, [playbook]);
+
+    // Re-read on every save, since saving and restoring both add a version.
+    const versions = useMemo(() => (playbook ? loadPlaybookVersions(playbook.id).slice().reverse() : []), [playbook]);
+    const problems = useMemo(() => (draft ? validatePlaybook(draft) : []), [draft]);
+
+    const updateTask = (index: number, fields: Partial<PlaybookTaskTemplate>) => {
+        setDraft(prev => prev && { ...prev, tasks: prev.tasks.map((task, i) => (i === index ? { ...task, ...fields } : task)) });
+    };
+
+    const toggleDependency = (index: number, dep: number) => {
+        const current = draft?.tasks[index].dependsOn || [];
+        updateTask(index, { dependsOn: current.includes(dep) ? current.filter(d => d !== dep) : [...current, dep].sort((a, b) => a - b) });
+    };
+
+    const handleSave = () => {
+        if (!playbook || !draft) return;
+        if (problems.length > 0) {
+            setShowErrors(true);
+            return;
+        }
+        onSave(draft, summarizePlaybookChanges(playbook, draft));
+        onClose();
+    };
+
+    const handleRestore = (version: number) => {
+        const snapshot = versions.find(v => v.version === version);
+        if (!playbook || !snapshot) return;
+        if (window.confirm(`Restore version ${version}? Your current playbook is kept in the history.`)) {
+            onSave({ ...snapshot.playbook, id: playbook.id }, `Restored version ${version}`);
+        }
+    };
+
+    const selected = versions.find(v => v.version === selectedVersion);
+    const currentVersion = playbook?.version;
+
+    return (
+        <AnimatePresence>
+            {playbook && draft && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+                    initial={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                    animate={{ backdropFilter: 'blur(16px)', backgroundColor: 'rgba(0,0,0,0.6)' }}
+                    exit={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                >
+                    <motion.div
+                        className="w-full max-w-3xl bg-white/90 dark:bg-[#141414]/90 backdrop-blur-lg border-2 border-[#8B5CF6]/50 rounded-xl shadow-2xl shadow-black/50 flex flex-col max-h-[90vh]"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        transition={{ duration: 0.2 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <header className="flex-shrink-0 flex justify-between items-center mb-4 p-6 pb-0">
+                            <div className="flex items-center gap-3">
+                                <div className="text-[#8B5CF6]"><BrainIcon className="w-6 h-6" /></div>
+                                <h3 className="text-xl font-bold text-zinc-800 dark:text-white">Edit Playbook</h3>
+                                {currentVersion && <span className="text-xs font-mono px-2 py-0.5 rounded-full bg-[#8B5CF6]/10 text-[#8B5CF6]">v{currentVersion}</span>}
+                            </div>
+                            <button onClick={onClose} className="text-gray-500 hover:text-black dark:hover:text-white transition-colors">
+                                <CloseIcon className="w-6 h-6" />
+                            </button>
+                        </header>
+
+                        <div className="flex-shrink-0 flex gap-4 px-6 mb-4 border-b border-black/10 dark:border-white/10">
+                            {(['edit', 'history'] as const).map(t => (
+                                <button
+                                    key={t}
+                                    onClick={() => setTab(t)}
+                                    className={`pb-2 text-sm font-semibold border-b-2 transition-colors ${tab === t ? 'border-[#8B5CF6] text-[#8B5CF6]' : 'border-transparent text-gray-500 hover:text-black dark:hover:text-white'}`}
+                                >
+                                    {t === 'edit' ? 'Tasks' : `History (${versions.length})`}
+                                </button>
+                            ))}
+                        </div>
+
+                        {tab === 'edit' ? (
+                            <div className="flex-grow overflow-y-auto p-6 pt-0 space-y-4">
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Name</label>
+                                        <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClassName} />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Trigger Prompt</label>
+                                        <input type="text" value={draft.triggerPrompt} onChange={(e) => setDraft({ ...draft, triggerPrompt: e.target.value })} className={inputClassName} />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Description</label>
+                                    <textarea value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} rows={2} className={`${inputClassName} resize-none`} />
+                                </div>
+                                {draft.parameters && draft.parameters.length > 0 && (
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        Placeholders you can use in titles and details:{' '}
+                                        {draft.parameters.map(p => (
+                                            <span key={p.name} title={p.description} className="font-mono px-1.5 py-0.5 mr-1 rounded bg-[#8B5CF6]/10 text-[#8B5CF6]">{`{${p.name}}`}</span>
+                                        ))}
+                                    </p>
+                                )}
+
+                                {draft.tasks.map((task, index) => (
+                                    <div key={index} className="p-3 bg-black/5 dark:bg-white/5 rounded-lg border border-black/10 dark:border-white/10 space-y-2">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-xs font-mono text-gray-500 w-6 flex-shrink-0">#{index + 1}</span>
+                                            <input
+                                                type="text"
+                                                value={task.title}
+                                                onChange={(e) => updateTask(index, { title: e.target.value })}
+                                                placeholder="Task title"
+                                                className={inputClassName}
+                                            />
+                                            <select
+                                                value={task.agent.role}
+                                                onChange={(e) => updateTask(index, { agent: { ...task.agent, role: e.target.value as AgentRole } })}
+                                                className="bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-2 py-2 text-sm text-zinc-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-[#8B5CF6]/50"
+                                            >
+                                                {AGENT_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                                            </select>
+                                            <button
+                                                onClick={() => setDraft({ ...draft, tasks: moveTask(draft.tasks, index, index - 1) })}
+                                                disabled={index === 0}
+                                                title="Move up"
+                                                className="text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white disabled:opacity-30"
+                                            >
+                                                <ChevronDownIcon className="w-4 h-4 rotate-180" />
+                                            </button>
+                                            <button
+                                                onClick={() => setDraft({ ...draft, tasks: moveTask(draft.tasks, index, index + 1) })}
+                                                disabled={index === draft.tasks.length - 1}
+                                                title="Move down"
+                                                className="text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white disabled:opacity-30"
+                                            >
+                                                <ChevronDownIcon className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => setDraft({ ...draft, tasks: removeTask(draft.tasks, index) })}
+                                                title="Remove"
+                                                className="text-gray-500 dark:text-gray-400 hover:text-red-500"
+                                            >
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                        <textarea
+                                            value={task.details}
+                                            onChange={(e) => updateTask(index, { details: e.target.value })}
+                                            placeholder="What this task should do"
+                                            rows={2}
+                                            className={`${inputClassName} text-sm resize-y`}
+                                        />
+                                        {draft.tasks.length > 1 && (
+                                            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600 dark:text-gray-300">
+                                                <span className="font-semibold text-gray-500 dark:text-gray-400">Depends on:</span>
+                                                {draft.tasks.map((other, dep) => dep !== index && (
+                                                    <label key={dep} className="flex items-center gap-1" title={other.title}>
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={(task.dependsOn || []).includes(dep)}
+                                                            onChange={() => toggleDependency(index, dep)}
+                                                            className="rounded text-[#8B5CF6] focus:ring-[#8B5CF6]/50"
+                                                        />
+                                                        #{dep + 1}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+
+                                <button
+                                    onClick={() => setDraft({ ...draft, tasks: [...draft.tasks, newTask()] })}
+                                    className="w-full flex items-center justify-center gap-2 text-sm font-semibold text-[#8B5CF6] border border-dashed border-[#8B5CF6]/50 hover:bg-[#8B5CF6]/10 rounded-lg py-2 transition-colors"
+                                >
+                                    <PlusIcon className="w-4 h-4" /> Add Task
+                                </button>
+
+                                {showErrors && problems.length > 0 && (
+                                    <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-600 dark:text-red-300 space-y-1">
+                                        {problems.map(problem => <p key={problem}>{problem}</p>)}
+                                    </div>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="flex-grow overflow-y-auto p-6 pt-0 space-y-3">
+                                {versions.length === 0 && (
+                                    <p className="text-sm text-center text-gray-500 py-2">No versions yet. One is recorded every time this playbook is saved.</p>
+                                )}
+                                {versions.map(version => (
+                                    <div key={version.version} className={`p-3 rounded-lg border ${version.version === selectedVersion ? 'border-[#8B5CF6]/50 bg-[#8B5CF6]/5' : 'border-black/10 dark:border-white/10 bg-black/5 dark:bg-white/5'}`}>
+                                        <div className="flex items-center justify-between gap-3">
+                                            <button onClick={() => setSelectedVersion(version.version === selectedVersion ? null : version.version)} className="text-left min-w-0 flex-grow">
+                                                <p className="text-sm font-semibold text-zinc-800 dark:text-white">
+                                                    Version {version.version}
+                                                    {version.version === currentVersion && <span className="ml-2 text-xs font-normal text-[#8B5CF6]">current</span>}
+                                                </p>
+                                                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{version.summary} · {new Date(version.savedAt).toLocaleString()}</p>
+                                            </button>
+                                            {version.version !== currentVersion && (
+                                                <button
+                                                    onClick={() => handleRestore(version.version)}
+                                                    className="flex-shrink-0 text-sm font-semibold text-[#8B5CF6] hover:text-[#7c4ee3]"
+                                                >
+                                                    Restore
+                                                </button>
+                                            )}
+                                        </div>
+                                        {selected && version.version === selectedVersion && (
+                                            <div className="mt-3">
+                                                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                                                    {version.version === currentVersion ? 'No differences from the current version.' : `Changes from version ${version.version} to the current version:`}
+                                                </p>
+                                                <TextDiff before={playbookToDiffText(selected.playbook)} after={playbookToDiffText(playbook)} />
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <footer className="flex-shrink-0 mt-2 p-6 pt-4 flex justify-end items-center gap-4">
+                            <button
+                                onClick={onClose}
+                                className="text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
+                            >
+                                Cancel
+                            </button>
+                            {tab === 'edit' && (
+                                <button
+                                    onClick={handleSave}
+                                    className="bg-[#8B5CF6] hover:bg-[#7c4ee3] text-white font-bold py-2 px-6 rounded-lg transition-colors"
+                                >
+                                    Save as Version {(currentVersion || (versions[0]?.version ?? 1)) + 1}
+                                </button>
+                            )}
+                        </footer>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
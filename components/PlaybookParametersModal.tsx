@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CloseIcon } from './icons/CloseIcon';
+import { BrainIcon } from './icons/BrainIcon';
+import { Playbook, PlaybookParameter } from '../types';
+import { ParameterValues, validateParameterValue } from '../services/playbookParameters';
+
+export interface PlaybookParameterRequest {
+    playbook: Playbook;
+    // The parameters the prompt did not give; the others are already in `values`.
+    missing: PlaybookParameter[];
+    values: ParameterValues;
+}
+
+interface PlaybookParametersModalProps {
+    request: PlaybookParameterRequest | null;
+    onSubmit: (values: ParameterValues) => void;
+    onCancel: () => void;
+}
+
+export const PlaybookParametersModal: React.FC<PlaybookParametersModalProps> = ({ request, onSubmit, onCancel }) => {
+    const [values, setValues] = useState<ParameterValues>({});
+    const [showErrors, setShowErrors] = useState(false);
+
+    useEffect(() => {
+        setValues({});
+        setShowErrors(false);
+    }, [request]);
+
+    const errors = request ? request.missing.map(p => validateParameterValue(p, values[p.name] || '')) : [];
+
+    const handleSubmit = () => {
+        if (!request) return;
+        if (errors.some(Boolean)) {
+            setShowErrors(true);
+            return;
+        }
+        const answered: ParameterValues = {};
+        request.missing.forEach(p => { answered[p.name] = values[p.name].trim(); });
+        onSubmit(answered);
+    };
+
+    return (
+        <AnimatePresence>
+            {request && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+                    initial={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                    animate={{ backdropFilter: 'blur(16px)', backgroundColor: 'rgba(0,0,0,0.6)' }}
+                    exit={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                >
+                    <motion.div
+                        className="w-full max-w-lg bg-white/90 dark:bg-[#141414]/90 backdrop-blur-lg border-2 border-[#8B5CF6]/50 rounded-xl shadow-2xl shadow-black/50 flex flex-col max-h-[90vh]"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        transition={{ duration: 0.2 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <header className="flex-shrink-0 flex justify-between items-center mb-6 p-6 pb-0">
+                            <div className="flex items-center gap-3">
+                                <div className="text-[#8B5CF6]"><BrainIcon className="w-6 h-6" /></div>
+                                <h3 className="text-xl font-bold text-zinc-800 dark:text-white">Fill In Playbook</h3>
+                            </div>
+                            <button onClick={onCancel} className="text-gray-500 hover:text-black dark:hover:text-white transition-colors">
+                                <CloseIcon className="w-6 h-6" />
+                            </button>
+                        </header>
+
+                        <div className="flex-grow overflow-y-auto p-6 pt-0 space-y-4">
+                            <p className="text-sm text-gray-600 dark:text-gray-300">
+                                The playbook <span className="font-semibold">"{request.playbook.name}"</span> matches your request, but it needs a few values your prompt did not give.
+                            </p>
+                            {Object.keys(request.values).length > 0 && (
+                                <div className="p-3 bg-black/5 dark:bg-white/5 rounded-lg border border-black/10 dark:border-white/10 text-sm">
+                                    <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">FROM YOUR PROMPT:</p>
+                                    {Object.entries(request.values).map(([name, value]) => (
+                                        <p key={name} className="text-zinc-800 dark:text-white truncate"><span className="font-mono text-gray-500">{name}</span>: {value}</p>
+                                    ))}
+                                </div>
+                            )}
+                            {request.missing.map((parameter, index) => (
+                                <div key={parameter.name}>
+                                    <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">
+                                        {parameter.description} <span className="font-mono text-xs">({parameter.name}, {parameter.type})</span>
+                                    </label>
+                                    <input
+                                        type={parameter.type === 'number' ? 'number' : parameter.type === 'url' ? 'url' : 'text'}
+                                        value={values[parameter.name] || ''}
+                                        onChange={(e) => setValues(prev => ({ ...prev, [parameter.name]: e.target.value }))}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                                        placeholder={parameter.example ? `e.g. ${parameter.example}` : undefined}
+                                        autoFocus={index === 0}
+                                        className="w-full bg-black/5 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg px-3 py-2 text-zinc-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#8B5CF6]/50"
+                                    />
+                                    {showErrors && errors[index] && <p className="text-xs text-red-500 mt-1">{errors[index]}</p>}
+                                </div>
+                            ))}
+                        </div>
+
+                        <footer className="flex-shrink-0 mt-2 p-6 pt-0 flex justify-end items-center gap-4">
+                            <button
+                                onClick={onCancel}
+                                className="text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
+                            >
+                                Plan From Scratch
+                            </button>
+                            <button
+                                onClick={handleSubmit}
+                                className="bg-[#8B5CF6] hover:bg-[#7c4ee3] text-white font-bold py-2 px-6 rounded-lg transition-colors"
+                            >
+                                Run Playbook
+                            </button>
+                        </footer>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CloseIcon } from './icons/CloseIcon';
+import { BrainIcon } from './icons/BrainIcon';
+import { Playbook } from '../types';
+import { PLAYBOOK_MATCH_FIELD_LABELS, PlaybookMatch } from '../services/playbookRetrieval';
+
+interface PlaybookSuggestionModalProps {
+    matches: PlaybookMatch[] | null;
+    onChoose: (playbook: Playbook) => void;
+    onDecline: () => void;
+}
+
+export const PlaybookSuggestionModal: React.FC<PlaybookSuggestionModalProps> = ({ matches, onChoose, onDecline }) => {
+    return (
+        <AnimatePresence>
+            {matches && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+                    initial={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                    animate={{ backdropFilter: 'blur(16px)', backgroundColor: 'rgba(0,0,0,0.6)' }}
+                    exit={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                >
+                    <motion.div
+                        className="w-full max-w-lg bg-white/90 dark:bg-[#141414]/90 backdrop-blur-lg border-2 border-[#8B5CF6]/50 rounded-xl shadow-2xl shadow-black/50 flex flex-col max-h-[90vh]"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        transition={{ duration: 0.2 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <header className="flex-shrink-0 flex justify-between items-center mb-6 p-6 pb-0">
+                            <div className="flex items-center gap-3">
+                                <div className="text-[#8B5CF6]"><BrainIcon className="w-6 h-6" /></div>
+                                <h3 className="text-xl font-bold text-zinc-800 dark:text-white">Use a Learned Playbook?</h3>
+                            </div>
+                            <button onClick={onDecline} className="text-gray-500 hover:text-black dark:hover:text-white transition-colors">
+                                <CloseIcon className="w-6 h-6" />
+                            </button>
+                        </header>
+
+                        <div className="flex-grow overflow-y-auto p-6 pt-0 space-y-3">
+                            <p className="text-sm text-gray-600 dark:text-gray-300">
+                                These playbooks look similar to your request, but not similar enough to replay without asking.
+                            </p>
+                            {matches.map(match => (
+                                <div key={match.playbook.id} className="p-3 bg-black/5 dark:bg-white/5 rounded-lg border border-black/10 dark:border-white/10">
+                                    <div className="flex items-start justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-zinc-800 dark:text-white">{match.playbook.name}</p>
+                                            {match.playbook.description && <p className="text-sm text-gray-600 dark:text-gray-300 mt-0.5">{match.playbook.description}</p>}
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 italic mt-1 truncate">Learned from: "{match.playbook.triggerPrompt}"</p>
+                                        </div>
+                                        <button
+                                            onClick={() => onChoose(match.playbook)}
+                                            className="flex-shrink-0 bg-[#8B5CF6] hover:bg-[#7c4ee3] text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors"
+                                        >
+                                            Use
+                                        </button>
+                                    </div>
+                                    <div className="flex items-center gap-2 mt-3">
+                                        <div className="flex-grow h-1.5 bg-black/10 dark:bg-white/10 rounded-full overflow-hidden">
+                                            <div className="h-full bg-[#8B5CF6]" style={{ width: `${Math.round(match.confidence * 100)}%` }} />
+                                        </div>
+                                        <span className="text-xs font-mono text-gray-500 dark:text-gray-400">{Math.round(match.confidence * 100)}%</span>
+                                    </div>
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                        {match.matchedTerms.map(({ term, fields }) => (
+                                            <span key={term} className="text-xs px-1.5 py-0.5 rounded bg-[#8B5CF6]/10 text-[#8B5CF6]" title={`Found in the ${fields.map(f => PLAYBOOK_MATCH_FIELD_LABELS[f]).join(' and ')}`}>
+                                                {term} <span className="opacity-60">· {fields.map(f => PLAYBOOK_MATCH_FIELD_LABELS[f]).join(', ')}</span>
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <footer className="flex-shrink-0 mt-2 p-6 pt-0 flex justify-end items-center gap-4">
+                            <button
+                                onClick={onDecline}
+                                className="text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
+                            >
+                                Plan From Scratch
+                            </button>
+                        </footer>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
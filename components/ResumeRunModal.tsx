@@ -0,0 +1,78 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CloseIcon } from './icons/CloseIcon';
+import { PlayIcon } from './icons/PlayIcon';
+import { RunCheckpoint } from '../types';
+
+interface ResumeRunModalProps {
+    checkpoint: RunCheckpoint | null;
+    onResume: (checkpoint: RunCheckpoint) => void;
+    onDiscard: (checkpoint: RunCheckpoint) => void;
+}
+
+export const ResumeRunModal: React.FC<ResumeRunModalProps> = ({ checkpoint, onResume, onDiscard }) => {
+    const doneCount = checkpoint ? checkpoint.tasks.filter(t => t.status === 'Done').length : 0;
+    const inFlight = checkpoint ? checkpoint.tasks.filter(t => t.status === 'Executing' || t.status === 'Awaiting Approval' || t.status === 'Awaiting Input') : [];
+    const completedSteps = inFlight.reduce((sum, t) => sum + (t.subSteps?.length || 0), 0);
+
+    return (
+        <AnimatePresence>
+            {checkpoint && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+                    initial={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                    animate={{ backdropFilter: 'blur(16px)', backgroundColor: 'rgba(0,0,0,0.6)' }}
+                    exit={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                >
+                    <motion.div
+                        className="w-full max-w-lg bg-white/90 dark:bg-[#141414]/90 backdrop-blur-lg border-2 border-cyan-600/50 dark:border-[#00D4FF]/50 rounded-xl shadow-2xl shadow-black/50 flex flex-col max-h-[90vh]"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        transition={{ duration: 0.2 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <header className="flex-shrink-0 flex justify-between items-center mb-6 p-6 pb-0">
+                            <div className="flex items-center gap-3">
+                                <div className="text-cyan-600 dark:text-[#00D4FF]"><PlayIcon className="w-6 h-6" /></div>
+                                <h3 className="text-xl font-bold text-zinc-800 dark:text-white">Resume Interrupted Run?</h3>
+                            </div>
+                            <button onClick={() => onDiscard(checkpoint)} className="text-gray-500 hover:text-black dark:hover:text-white transition-colors">
+                                <CloseIcon className="w-6 h-6" />
+                            </button>
+                        </header>
+
+                        <div className="flex-grow overflow-y-auto p-6 pt-0 space-y-4">
+                            <div className="p-3 bg-black/5 dark:bg-white/5 rounded-lg border border-black/10 dark:border-white/10">
+                                <p className="text-xs font-semibold text-gray-500 dark:text-gray-400">ORIGINAL PROMPT:</p>
+                                <p className="text-sm font-medium text-zinc-800 dark:text-white mt-1">"{checkpoint.prompt}"</p>
+                            </div>
+                            <div className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                                <p><span className="font-semibold">{doneCount}</span> of <span className="font-semibold">{checkpoint.tasks.length}</span> tasks completed.</p>
+                                {inFlight.length > 0 && (
+                                    <p>In progress: {inFlight.map(t => t.title).join(', ')} ({completedSteps} sub-step{completedSteps !== 1 ? 's' : ''} completed).</p>
+                                )}
+                                <p className="text-xs text-gray-500">Last checkpoint: {new Date(checkpoint.updatedAt).toLocaleString()}{checkpoint.isPaused ? ' (paused)' : ''}</p>
+                            </div>
+                        </div>
+
+                        <footer className="flex-shrink-0 mt-2 p-6 pt-0 flex justify-end items-center gap-4">
+                            <button
+                                onClick={() => onDiscard(checkpoint)}
+                                className="text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
+                            >
+                                Discard
+                            </button>
+                            <button
+                                onClick={() => onResume(checkpoint)}
+                                className="bg-cyan-600 hover:bg-cyan-700 text-white dark:bg-[#00D4FF] dark:hover:bg-[#00b8e6] dark:text-black font-bold py-2 px-6 rounded-lg transition-colors"
+                            >
+                                Resume Run
+                            </button>
+                        </footer>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
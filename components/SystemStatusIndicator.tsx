@@ -18,6 +18,13 @@ export const SystemStatusIndicator: React.FC<SystemStatusIndicatorProps> = ({ ta
                     pulse: true,
                     activeTaskCount: activeTasks,
                 };
+            case AgentStatus.PAUSED:
+                return {
+                    statusText: `Paused (${activeTasks} Pending)`,
+                    statusColor: 'text-yellow-500',
+                    pulse: false,
+                    activeTaskCount: activeTasks,
+                };
             case AgentStatus.SYNTHESIZING:
                 return {
                     statusText: 'Synthesizing Playbook',
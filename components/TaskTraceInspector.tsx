@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Task, SubStep } from '../types';
+import { CloseIcon } from './icons/CloseIcon';
+import { BrainIcon } from './icons/BrainIcon';
+import { PlugIcon } from './icons/PlugIcon';
+import { WebHawkIcon } from './icons/WebHawkIcon';
+import { PencilSquareIcon } from './icons/PencilSquareIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { TextDiff } from './TextDiff';
+
+interface TaskTraceInspectorProps {
+    task: Task | null;
+    // Every task in the run, to find what a written file contained before.
+    tasks: Task[];
+    onClose: () => void;
+}
+
+const numberFormat = new Intl.NumberFormat();
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const normalizePath = (path: unknown) => String(path ?? '').replace(/^\.\//, '').replace(/\/+$/, '');
+
+const parseJson = (text: string): unknown => {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Finds the last content the run saw for a file before the given step: an earlier writeFile to the
+ * same path, or an earlier successful readFile of it. Steps of the task itself come first; steps of
+ * other tasks count when they started earlier.
+ */
+const findPreviousContent = (path: string, task: Task, stepIndex: number, tasks: Task[]): { content: string; source: string } | null => {
+    const contentOf = (step: SubStep): string | null => {
+        if (normalizePath(step.toolCall.args.path) !== path) return null;
+        if (step.toolCall.name === 'writeFile') return String(step.toolCall.args.content ?? '');
+        if (step.toolCall.name === 'readFile' && !step.observation.startsWith('Error')) return step.observation;
+        return null;
+    };
+
+    const ownSteps = task.subSteps || [];
+    for (let i = stepIndex - 1; i >= 0; i--) {
+        const content = contentOf(ownSteps[i]);
+        if (content !== null) return { content, source: `step ${i + 1}` };
+    }
+
+    const startedAt = ownSteps[stepIndex]?.startedAt;
+    if (!startedAt) return null;
+    let latest: { content: string; source: string; startedAt: string } | null = null;
+    tasks.filter(t => t.id !== task.id).forEach(other => {
+        (other.subSteps || []).forEach((step, i) => {
+            if (!step.startedAt || step.startedAt >= startedAt || (latest && step.startedAt <= latest.startedAt)) return;
+            const content = contentOf(step);
+            if (content !== null) latest = { content, source: `"${other.title}", step ${i + 1}`, startedAt: step.startedAt };
+        });
+    });
+    return latest;
+};
+
+const JsonNode: React.FC<{ label?: string; value: unknown; depth: number }> = ({ label, value, depth }) => {
+    const [isOpen, setIsOpen] = useState(depth < 2);
+    const labelText = label !== undefined ? <span className="text-cyan-600 dark:text-cyan-400">{label}: </span> : null;
+
+    if (value === null || typeof value !== 'object') {
+        const color = typeof value === 'string' ? 'text-green-600 dark:text-green-400'
+            : typeof value === 'number' ? 'text-amber-600 dark:text-amber-400'
+            : 'text-violet-600 dark:text-violet-400';
+        return (
+            <div className="whitespace-pre-wrap break-all">
+                {labelText}<span className={color}>{JSON.stringify(value)}</span>
+            </div>
+        );
+    }
+
+    const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as [string, unknown]) : Object.entries(value);
+    const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+    return (
+        <div>
+            <button onClick={() => setIsOpen(o => !o)} className="inline-flex items-center gap-1 hover:opacity-80">
+                <ChevronDownIcon className={`w-3 h-3 transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+                {labelText}
+                <span className="text-gray-500">{isOpen ? open : `${open} ${entries.length} ${Array.isArray(value) ? 'items' : 'keys'} ${close}`}</span>
+            </button>
+            {isOpen && (
+                <>
+                    <div className="pl-4 border-l border-black/10 dark:border-white/10 ml-1.5">
+                        {entries.map(([key, child]) => <JsonNode key={key} label={key} value={child} depth={depth + 1} />)}
+                    </div>
+                    <span className="text-gray-500">{close}</span>
+                </>
+            )}
+        </div>
+    );
+};
+
+const TraceStep: React.FC<{ task: Task; step: SubStep; index: number; tasks: Task[] }> = ({ task, step, index, tasks }) => {
+    const { toolCall } = step;
+    const isWrite = toolCall.name === 'writeFile';
+    const path = normalizePath(toolCall.args.path);
+    const previous = useMemo(() => (isWrite ? findPreviousContent(path, task, index, tasks) : null), [isWrite, path, task, index, tasks]);
+    const observationJson = useMemo(() => parseJson(step.observation), [step.observation]);
+    // The written content is shown as a diff rather than inside the arguments.
+    const shownArgs = isWrite ? { ...toolCall.args, content: `(${String(toolCall.args.content ?? '').length} characters, see diff)` } : toolCall.args;
+
+    return (
+        <div className="p-4 bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-lg space-y-3">
+            <div className="flex items-center justify-between gap-4 text-xs">
+                <p className="font-bold text-zinc-800 dark:text-white">Step {index + 1} · <span className="font-mono text-cyan-600 dark:text-cyan-400">{toolCall.name}</span></p>
+                <p className="font-mono text-gray-500 dark:text-gray-400 flex gap-3">
+                    {step.startedAt && <span>{new Date(step.startedAt).toLocaleTimeString()}</span>}
+                    {step.durationMs !== undefined && <span>{formatDuration(step.durationMs)}</span>}
+                    {step.tokens !== undefined && <span>{numberFormat.format(step.tokens)} tokens</span>}
+                </p>
+            </div>
+
+            <div>
+                <div className="flex items-center gap-2 text-[#8B5CF6] text-sm font-bold mb-1"><BrainIcon className="w-4 h-4" /> Thought</div>
+                <p className="text-sm italic text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{step.thought}</p>
+            </div>
+
+            <div>
+                <div className="flex items-center gap-2 text-cyan-600 dark:text-[#00D4FF] text-sm font-bold mb-1"><PlugIcon className="w-4 h-4" /> Arguments</div>
+                <pre className="font-mono text-xs p-3 bg-zinc-200/50 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg text-zinc-700 dark:text-gray-300 whitespace-pre-wrap break-all">{JSON.stringify(shownArgs, null, 2)}</pre>
+            </div>
+
+            {isWrite && (
+                <div>
+                    <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400 text-sm font-bold mb-1"><PencilSquareIcon className="w-4 h-4" /> Changes to {path}</div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        {previous ? `Compared with the content from ${previous.source}.` : 'No earlier content of this file was seen in the run; shown as a new file.'}
+                    </p>
+                    <TextDiff before={previous?.content ?? ''} after={String(toolCall.args.content ?? '')} />
+                </div>
+            )}
+
+            <div>
+                <div className="flex items-center gap-2 text-green-500 text-sm font-bold mb-1"><WebHawkIcon className="w-4 h-4" /> Observation</div>
+                <div className="font-mono text-xs p-3 bg-zinc-200/50 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg text-zinc-700 dark:text-gray-300 max-h-96 overflow-auto">
+                    {observationJson !== undefined
+                        ? <JsonNode value={observationJson} depth={0} />
+                        : <p className="whitespace-pre-wrap break-words">{step.observation}</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const TaskTraceInspector: React.FC<TaskTraceInspectorProps> = ({ task, tasks, onClose }) => {
+    const steps = task?.subSteps || [];
+    const totalDuration = steps.reduce((sum, s) => sum + (s.durationMs || 0), 0);
+    const totalTokens = steps.reduce((sum, s) => sum + (s.tokens || 0), 0);
+
+    return (
+        <AnimatePresence>
+            {task && (
+                <motion.div
+                    className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+                    initial={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                    animate={{ backdropFilter: 'blur(16px)', backgroundColor: 'rgba(0,0,0,0.6)' }}
+                    exit={{ backdropFilter: 'blur(0px)', backgroundColor: 'rgba(0,0,0,0)' }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="w-full max-w-4xl bg-white dark:bg-[#0F0F0F] border-2 border-cyan-600/50 dark:border-[#00D4FF]/50 rounded-xl shadow-2xl shadow-black/50 flex flex-col max-h-[90vh]"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        transition={{ duration: 0.2 }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <header className="flex-shrink-0 flex justify-between items-start gap-4 p-6 pb-4 border-b border-black/10 dark:border-white/10">
+                            <div>
+                                <h3 className="text-xl font-bold text-zinc-900 dark:text-white">Trace: {task.title}</h3>
+                                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1">
+                                    {steps.length} step{steps.length !== 1 ? 's' : ''} · {formatDuration(totalDuration)} · {numberFormat.format(totalTokens)} tokens · {task.agent.name}
+                                </p>
+                            </div>
+                            <button onClick={onClose} className="text-gray-500 hover:text-black dark:hover:text-white transition-colors">
+                                <CloseIcon className="w-6 h-6" />
+                            </button>
+                        </header>
+                        <div className="flex-grow overflow-y-auto p-6 space-y-4">
+                            {steps.length === 0
+                                ? <p className="text-sm text-gray-500 dark:text-gray-400">This task has not taken any steps yet.</p>
+                                : steps.map((step, index) => <TraceStep key={index} task={task} step={step} index={index} tasks={tasks} />)}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
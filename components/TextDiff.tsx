@@ -0,0 +1,36 @@
+import React, { useMemo } from 'react';
+import { diffLines, countChanges } from '../services/textDiff';
+
+interface TextDiffProps {
+    before: string;
+    after: string;
+}
+
+/** A line diff with old and new line numbers, e.g. of a file an agent rewrote. */
+export const TextDiff: React.FC<TextDiffProps> = ({ before, after }) => {
+    const lines = useMemo(() => diffLines(before, after), [before, after]);
+    const { added, removed } = countChanges(lines);
+    return (
+        <div>
+            <p className="text-[10px] font-mono mb-1">
+                <span className="text-green-600 dark:text-green-400">+{added}</span>{' '}
+                <span className="text-red-500 dark:text-red-400">-{removed}</span>
+            </p>
+            <div className="font-mono text-xs bg-zinc-200/50 dark:bg-black/40 border border-black/10 dark:border-white/10 rounded-lg max-h-80 overflow-auto">
+                {lines.map((line, index) => (
+                    <div
+                        key={index}
+                        className={`flex ${line.kind === 'added' ? 'bg-green-500/15' : line.kind === 'removed' ? 'bg-red-500/15' : ''}`}
+                    >
+                        <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 dark:text-gray-600 select-none">{line.oldLine ?? ''}</span>
+                        <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 dark:text-gray-600 select-none">{line.newLine ?? ''}</span>
+                        <span className={`w-4 flex-shrink-0 select-none ${line.kind === 'added' ? 'text-green-600 dark:text-green-400' : line.kind === 'removed' ? 'text-red-500 dark:text-red-400' : 'text-gray-400'}`}>
+                            {line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '}
+                        </span>
+                        <span className="whitespace-pre text-zinc-700 dark:text-gray-300 pr-2">{line.text}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
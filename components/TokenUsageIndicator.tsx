@@ -1,19 +1,90 @@
-import React from 'react';
-import { SessionStats } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { SessionStats, UsageTotals } from '../types';
 import { CpuChipIcon } from './icons/CpuChipIcon';
+import { formatCost } from '../services/usageStats';
 
 interface TokenUsageIndicatorProps {
     stats: SessionStats;
 }
 
+const numberFormat = new Intl.NumberFormat();
+
+const BreakdownList: React.FC<{ title: string; entries: [string, UsageTotals][] }> = ({ title, entries }) => {
+    if (entries.length === 0) return null;
+    const sorted = [...entries].sort((a, b) => b[1].tokens - a[1].tokens);
+    return (
+        <div>
+            <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">{title}</h4>
+            <ul className="space-y-1">
+                {sorted.map(([label, totals], index) => (
+                    <li key={`${index}-${label}`} className="flex justify-between gap-4 text-xs">
+                        <span className="text-zinc-700 dark:text-gray-300 truncate" title={label}>{label}</span>
+                        <span className="font-mono text-gray-500 dark:text-gray-400 flex-shrink-0">
+                            {numberFormat.format(totals.tokens)} · {formatCost(totals.cost)}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
 export const TokenUsageIndicator: React.FC<TokenUsageIndicatorProps> = ({ stats }) => {
-    
-    const formattedTokens = new Intl.NumberFormat().format(stats.totalTokensUsed);
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const formattedTokens = numberFormat.format(stats.totalTokensUsed);
+    // Tasks are keyed by id; show their titles instead.
+    const taskEntries = Object.values(stats.byTask).map(({ label, tokens, cost }) => [label, { tokens, cost }] as [string, UsageTotals]);
 
     return (
-        <div className="hidden sm:flex items-center gap-2 text-sm font-semibold text-gray-500 dark:text-gray-400">
-            <CpuChipIcon className="w-5 h-5" />
-            <span>{formattedTokens} Tokens</span>
+        <div ref={containerRef} className="relative hidden sm:block">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                title="Show usage breakdown"
+                className="flex items-center gap-2 text-sm font-semibold text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white transition-colors"
+            >
+                <CpuChipIcon className="w-5 h-5" />
+                <span>{formattedTokens} Tokens</span>
+                {stats.totalCost > 0 && <span className="font-mono text-xs">({formatCost(stats.totalCost)})</span>}
+            </button>
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -4 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -4 }}
+                        transition={{ duration: 0.15 }}
+                        className="absolute right-0 mt-2 w-80 max-h-[70vh] overflow-y-auto z-50 p-4 space-y-4 bg-white/95 dark:bg-[#141414]/95 backdrop-blur-lg border border-black/10 dark:border-white/10 rounded-lg shadow-xl"
+                    >
+                        <div className="flex justify-between items-baseline">
+                            <p className="text-sm font-bold text-zinc-800 dark:text-white">Session Usage</p>
+                            <p className="font-mono text-xs text-gray-500 dark:text-gray-400">{formattedTokens} · {formatCost(stats.totalCost)}</p>
+                        </div>
+                        {stats.totalTokensUsed === 0 ? (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">No model calls yet.</p>
+                        ) : (
+                            <>
+                                <BreakdownList title="By Task" entries={taskEntries} />
+                                <BreakdownList title="By Agent" entries={Object.entries(stats.byAgent)} />
+                                <BreakdownList title="By Model" entries={Object.entries(stats.byModel)} />
+                            </>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
         </div>
     );
 };
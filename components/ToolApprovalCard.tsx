@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
+import { Task, ApprovalDecision } from '../types';
+import { toolDeclarations } from '../services/tools';
+import { validateToolArgs } from '../services/toolSchema';
+
+interface ToolApprovalCardProps {
+    task: Task;
+    onResolve: (taskId: string, decision: ApprovalDecision) => void;
+}
+
+type Mode = 'review' | 'edit' | 'reject';
+
+export const ToolApprovalCard: React.FC<ToolApprovalCardProps> = ({ task, onResolve }) => {
+    const pending = task.pendingApproval!;
+    const [mode, setMode] = useState<Mode>('review');
+    const [argsText, setArgsText] = useState(() => JSON.stringify(pending.toolCall.args, null, 2));
+    const [feedback, setFeedback] = useState('');
+    const [problems, setProblems] = useState<string[]>([]);
+
+    const handleApproveEdited = () => {
+        let args: unknown;
+        try {
+            args = JSON.parse(argsText);
+        } catch (e) {
+            setProblems([`Arguments are not valid JSON: ${e instanceof Error ? e.message : String(e)}`]);
+            return;
+        }
+        const declaration = toolDeclarations.find(d => d.name === pending.toolCall.name);
+        const found = declaration ? validateToolArgs(declaration, args) : [];
+        if (found.length > 0) {
+            setProblems(found);
+            return;
+        }
+        onResolve(task.id, { action: 'approve', args: args as { [key: string]: any } });
+    };
+
+    return (
+        <motion.div
+            layout
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-4 bg-amber-500/10 border border-amber-500/40 rounded-lg space-y-3"
+        >
+            <div className="flex items-start justify-between gap-4">
+                <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
+                    <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+                    <p className="font-bold text-sm">
+                        {task.agent.name} wants to run <span className="font-mono">{pending.toolCall.name}</span>
+                    </p>
+                </div>
+                <span className="text-xs font-mono uppercase px-2 py-0.5 rounded bg-red-500/20 text-red-500 dark:text-red-400">{pending.risk} risk</span>
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-400">Task: <span className="font-semibold">{task.title}</span> · {pending.reason}</p>
+            <p className="text-sm italic text-gray-600 dark:text-gray-300">"{pending.thought}"</p>
+
+            {mode === 'edit' ? (
+                <textarea
+                    value={argsText}
+                    onChange={(e) => { setArgsText(e.target.value); setProblems([]); }}
+                    rows={Math.min(12, argsText.split('\n').length + 1)}
+                    spellCheck={false}
+                    className="w-full font-mono text-xs p-3 bg-black/40 border border-white/10 rounded-lg text-gray-200 focus:outline-none focus:ring-1 focus:ring-amber-500"
+                />
+            ) : (
+                <pre className="font-mono text-xs p-3 bg-black/40 border border-white/10 rounded-lg text-gray-300 whitespace-pre-wrap break-all">{JSON.stringify(pending.toolCall.args, null, 2)}</pre>
+            )}
+            {problems.length > 0 && (
+                <ul className="text-xs text-red-500 dark:text-red-400 list-disc pl-5">
+                    {problems.map((problem, index) => <li key={index}>{problem}</li>)}
+                </ul>
+            )}
+
+            {mode === 'reject' && (
+                <textarea
+                    value={feedback}
+                    onChange={(e) => setFeedback(e.target.value)}
+                    rows={2}
+                    autoFocus
+                    placeholder="Tell the agent why, or what to do instead..."
+                    className="w-full text-sm p-2 bg-white/50 dark:bg-black/30 border border-black/10 dark:border-white/10 rounded-lg text-zinc-800 dark:text-gray-200 focus:outline-none focus:ring-1 focus:ring-amber-500"
+                />
+            )}
+
+            <div className="flex justify-end items-center gap-3 text-xs font-bold">
+                {mode === 'review' && (
+                    <>
+                        <button onClick={() => setMode('reject')} className="py-1.5 px-3 rounded-md text-red-500 dark:text-red-400 bg-red-500/10 hover:bg-red-500/20 transition-colors">Reject</button>
+                        <button onClick={() => setMode('edit')} className="py-1.5 px-3 rounded-md text-gray-600 dark:text-gray-300 bg-black/5 dark:bg-white/10 hover:bg-black/10 dark:hover:bg-white/20 transition-colors">Edit Arguments</button>
+                        <button onClick={() => onResolve(task.id, { action: 'approve' })} className="py-1.5 px-3 rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors">Approve</button>
+                    </>
+                )}
+                {mode === 'edit' && (
+                    <>
+                        <button onClick={() => { setMode('review'); setProblems([]); setArgsText(JSON.stringify(pending.toolCall.args, null, 2)); }} className="py-1.5 px-3 rounded-md text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white">Cancel</button>
+                        <button onClick={handleApproveEdited} className="py-1.5 px-3 rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors">Approve Edited Call</button>
+                    </>
+                )}
+                {mode === 'reject' && (
+                    <>
+                        <button onClick={() => setMode('review')} className="py-1.5 px-3 rounded-md text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white">Cancel</button>
+                        <button onClick={() => onResolve(task.id, { action: 'reject', feedback })} className="py-1.5 px-3 rounded-md text-white bg-red-600 hover:bg-red-700 transition-colors">Reject with Feedback</button>
+                    </>
+                )}
+            </div>
+        </motion.div>
+    );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MessageBubbleIcon } from './icons/MessageBubbleIcon';
+import { SendIcon } from './icons/SendIcon';
+import { Task } from '../types';
+
+interface UserQuestionCardProps {
+    task: Task;
+    onAnswer: (taskId: string, answer: string) => void;
+}
+
+export const UserQuestionCard: React.FC<UserQuestionCardProps> = ({ task, onAnswer }) => {
+    const pending = task.pendingQuestion!;
+    const [answer, setAnswer] = useState('');
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey && answer.trim()) {
+            e.preventDefault();
+            onAnswer(task.id, answer);
+        }
+    };
+
+    return (
+        <motion.div
+            layout
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-4 bg-sky-500/10 border border-sky-500/40 rounded-lg space-y-3"
+        >
+            <div className="flex items-center gap-2 text-sky-600 dark:text-sky-400">
+                <MessageBubbleIcon className="w-5 h-5 flex-shrink-0" />
+                <p className="font-bold text-sm">{task.agent.name} has a question</p>
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-400">Task: <span className="font-semibold">{task.title}</span></p>
+            <p className="text-sm font-medium text-zinc-800 dark:text-white whitespace-pre-wrap">{pending.question}</p>
+
+            <div className="flex items-end gap-2">
+                <textarea
+                    value={answer}
+                    onChange={(e) => setAnswer(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    rows={2}
+                    autoFocus
+                    placeholder="Type your answer..."
+                    className="flex-grow text-sm p-2 bg-white/50 dark:bg-black/30 border border-black/10 dark:border-white/10 rounded-lg text-zinc-800 dark:text-gray-200 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                />
+                <button
+                    onClick={() => onAnswer(task.id, answer)}
+                    disabled={!answer.trim()}
+                    className="p-2.5 rounded-lg text-white bg-sky-600 hover:bg-sky-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    aria-label="Send answer"
+                >
+                    <SendIcon className="w-5 h-5" />
+                </button>
+            </div>
+            <div className="flex justify-end">
+                <button
+                    onClick={() => onAnswer(task.id, '')}
+                    className="text-xs font-semibold text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white"
+                >
+                    Skip (continue without an answer)
+                </button>
+            </div>
+        </motion.div>
+    );
+};
@@ -0,0 +1,7 @@
+import React from 'react';
+
+export const BranchIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M6 3v12m12-6c0 4-12 2-12 6M3 18a3 3 0 106 0 3 3 0 10-6 0zM15 6a3 3 0 106 0 3 3 0 10-6 0z" />
+    </svg>
+);
@@ -1,33 +1,162 @@
-import { useState, useCallback } from 'react';
-import { Message } from '../types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AgentMode, Message, SessionRecord } from '../types';
+import { deleteSession, loadSessions, saveSession } from '../services/persistence';
+import { addUsage } from '../services/usageStats';
 
-export const useMemory = (initialMessages: Message[] = []) => {
-    const [messages, setMessages] = useState<Message[]>(initialMessages);
+// A chat thread is stored as a chat-mode session, so that it also shows up in the session history.
+export type ChatThread = SessionRecord;
 
-    const addMessage = useCallback((message: Omit<Message, 'id' | 'timestamp'>) => {
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createThread = (id: string, fields: Partial<ChatThread> = {}): ChatThread => {
+    const now = new Date().toISOString();
+    return {
+        id,
+        mode: AgentMode.CHAT,
+        prompt: '',
+        tasks: [],
+        logs: [],
+        artifacts: [],
+        messages: [],
+        usage: { tokens: 0, cost: 0 },
+        startedAt: now,
+        updatedAt: now,
+        ...fields,
+    };
+};
+
+const withMessages = (thread: ChatThread, messages: Message[]): ChatThread => ({
+    ...thread,
+    messages,
+    prompt: messages.find(m => m.sender === 'user')?.text || '',
+    updatedAt: new Date().toISOString(),
+});
+
+export const getThreadName = (thread: ChatThread): string =>
+    thread.name || (thread.prompt.length > 40 ? `${thread.prompt.slice(0, 40)}…` : thread.prompt) || 'New chat';
+
+/**
+ * Keeps the chat threads and which one is shown. Each thread carries its own messages, which are
+ * the model's whole context for it, and is saved to IndexedDB whenever it changes.
+ * A new thread only exists in the list once it has a message.
+ */
+export const useMemory = () => {
+    const [threads, setThreads] = useState<ChatThread[]>([]);
+    const [activeThreadId, setActiveThreadId] = useState<string>(() => createId('chat'));
+    // The last saved version of each thread, so that only changed threads are written.
+    const savedThreadsRef = useRef(new Map<string, ChatThread>());
+
+    useEffect(() => {
+        loadSessions().then(sessions => {
+            const savedThreads = sessions.filter(session => session.mode === AgentMode.CHAT);
+            savedThreads.forEach(thread => savedThreadsRef.current.set(thread.id, thread));
+            setThreads(prev => [...prev, ...savedThreads.filter(thread => !prev.some(t => t.id === thread.id))]);
+        });
+    }, []);
+
+    useEffect(() => {
+        threads.forEach(thread => {
+            // A reply that is still streaming is saved once it is complete.
+            if (thread.messages.length === 0 || thread.messages.some(m => m.isStreaming) || savedThreadsRef.current.get(thread.id) === thread) return;
+            savedThreadsRef.current.set(thread.id, thread);
+            saveSession(thread).catch(error => console.error("Failed to save chat thread", error));
+        });
+    }, [threads]);
+
+    const activeThread = threads.find(t => t.id === activeThreadId);
+    const messages = activeThread?.messages || [];
+
+    const updateThread = useCallback((threadId: string, update: (thread: ChatThread) => ChatThread) => {
+        setThreads(prev => prev.some(t => t.id === threadId)
+            ? prev.map(t => t.id === threadId ? update(t) : t)
+            : [update(createThread(threadId)), ...prev]);
+    }, []);
+
+    /** Adds a message to the given thread, which need not be the one shown: replies can arrive after a switch. */
+    const addMessage = useCallback((threadId: string, message: Omit<Message, 'id' | 'timestamp'>): Message => {
         const newMessage: Message = {
             ...message,
-            id: `msg-${Date.now()}-${Math.random()}`,
+            id: createId('msg'),
             timestamp: new Date().toISOString(),
         };
-        setMessages(prevMessages => [...prevMessages, newMessage]);
-    }, []);
-    
-    const editMessage = useCallback((messageId: string, newText: string) => {
-        setMessages(prevMessages =>
-            prevMessages.map(msg =>
-                msg.id === messageId ? { ...msg, text: newText } : msg
-            )
-        );
+        updateThread(threadId, thread => withMessages(thread, [...thread.messages, newMessage]));
+        return newMessage;
+    }, [updateThread]);
+
+    /** Replaces fields of a message in place, e.g. the text of a reply as it streams in. */
+    const updateMessage = useCallback((threadId: string, messageId: string, fields: Partial<Omit<Message, 'id'>>) => {
+        setThreads(prev => prev.map(t => t.id === threadId
+            ? { ...t, messages: t.messages.map(m => m.id === messageId ? { ...m, ...fields } : m), updatedAt: new Date().toISOString() }
+            : t));
     }, []);
 
+    /**
+     * Changes a message's text and drops everything after it, since later replies answered the old text.
+     * Returns the thread's remaining messages, so that the reply to the edited message can be regenerated.
+     */
+    const editMessage = useCallback((messageId: string, newText: string): { threadId: string; history: Message[] } | null => {
+        const thread = threads.find(t => t.messages.some(m => m.id === messageId));
+        if (!thread) return null;
+        const index = thread.messages.findIndex(m => m.id === messageId);
+        const history = [...thread.messages.slice(0, index), { ...thread.messages[index], text: newText }];
+        updateThread(thread.id, t => withMessages(t, history));
+        return { threadId: thread.id, history };
+    }, [threads, updateThread]);
+
     const removeMessage = useCallback((messageId: string) => {
-        setMessages(prevMessages => prevMessages.filter(msg => msg.id !== messageId));
+        setThreads(prev => prev.map(thread => thread.messages.some(m => m.id === messageId)
+            ? withMessages(thread, thread.messages.filter(m => m.id !== messageId))
+            : thread));
+    }, []);
+
+    /** Starts a new thread with a copy of the conversation up to and including the given message, and shows it. */
+    const branchThread = useCallback((messageId: string) => {
+        const thread = threads.find(t => t.messages.some(m => m.id === messageId));
+        if (!thread) return;
+        const index = thread.messages.findIndex(m => m.id === messageId);
+        const branch = withMessages(
+            createThread(createId('chat'), {
+                name: `${getThreadName(thread)} (branch)`,
+                branchedFrom: { threadId: thread.id, messageId },
+            }),
+            thread.messages.slice(0, index + 1).map(m => ({ ...m, id: createId('msg') }))
+        );
+        setThreads(prev => [branch, ...prev]);
+        setActiveThreadId(branch.id);
+    }, [threads]);
+
+    const newThread = useCallback(() => {
+        setActiveThreadId(createId('chat'));
+    }, []);
+
+    const renameThread = useCallback((threadId: string, name: string) => {
+        setThreads(prev => prev.map(t => t.id === threadId ? { ...t, name: name.trim() || undefined } : t));
+    }, []);
+
+    const deleteThread = useCallback((threadId: string) => {
+        setThreads(prev => prev.filter(t => t.id !== threadId));
+        savedThreadsRef.current.delete(threadId);
+        deleteSession(threadId).catch(error => console.error("Failed to delete chat thread", error));
+        setActiveThreadId(prev => prev === threadId ? createId('chat') : prev);
     }, []);
 
-    const clearMemory = useCallback(() => {
-        setMessages([]);
+    const recordThreadUsage = useCallback((threadId: string, tokens: number, cost: number) => {
+        setThreads(prev => prev.map(t => t.id === threadId ? { ...t, usage: addUsage(t.usage, tokens, cost) } : t));
     }, []);
 
-    return { messages, addMessage, editMessage, removeMessage, clearMemory };
-};
\ No newline at end of file
+    return {
+        threads: [...threads].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+        activeThreadId,
+        messages,
+        addMessage,
+        updateMessage,
+        editMessage,
+        removeMessage,
+        branchThread,
+        newThread,
+        switchThread: setActiveThreadId,
+        renameThread,
+        deleteThread,
+        recordThreadUsage,
+    };
+};
@@ -0,0 +1,143 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, mkdirSync, realpathSync } from 'node:fs';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { loadEnvFile } from 'node:process';
+import path from 'node:path';
+import type { ToolHandlers } from './tools/types';
+import { ToolInputError } from './tools/types';
+import { createWorkspaceTools } from './tools/workspace';
+import { createLocalMemoryTools, createSupabaseMemoryTools } from './tools/memory';
+import { createWebTools } from './tools/web';
+import { createGithubTools } from './tools/github';
+import { createAgentOpsTools } from './tools/agentops';
+
+// The app reads ECHO_ENGINE_TOKEN from the same .env file, so both sides share the token without extra setup.
+if (existsSync('.env')) loadEnvFile('.env');
+
+const PORT = Number(process.env.ECHO_ENGINE_PORT) || 3001;
+// Tools run shell commands with the user's permissions, so the engine is only reachable from this machine.
+const HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+// The Vite dev server's origins; set ECHO_APP_ORIGINS (comma-separated) when the app is served elsewhere.
+const ALLOWED_ORIGINS = (process.env.ECHO_APP_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+    .split(',').map(origin => origin.trim()).filter(Boolean);
+
+const configuredToken = process.env.ECHO_ENGINE_TOKEN?.trim();
+const ENGINE_TOKEN = configuredToken || randomBytes(32).toString('hex');
+
+const resolveWorkspaceRoot = (): string => {
+    const root = path.resolve(process.env.ECHO_WORKSPACE || 'workspace');
+    mkdirSync(root, { recursive: true });
+    return realpathSync(root);
+};
+
+const workspaceRoot = resolveWorkspaceRoot();
+
+const tools: ToolHandlers = {
+    ...createWorkspaceTools(workspaceRoot),
+    ...createLocalMemoryTools(workspaceRoot),
+    ...createSupabaseMemoryTools(),
+    ...createWebTools(),
+    ...createGithubTools(),
+    ...createAgentOpsTools(),
+};
+
+const isAuthorized = (req: IncomingMessage): boolean => {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+    if (!match) return false;
+    const given = Buffer.from(match[1]);
+    const expected = Buffer.from(ENGINE_TOKEN);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: object) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new ToolInputError('Request body is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch {
+            reject(new ToolInputError('Request body must be valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const handleExecuteTool = async (req: IncomingMessage, res: ServerResponse) => {
+    const { tool, args } = await readJsonBody(req);
+    const handler = typeof tool === 'string' ? tools[tool] : undefined;
+    if (!handler) {
+        sendJson(res, 404, { error: `Unknown tool '${tool}'. This engine supports: ${Object.keys(tools).join(', ')}.` });
+        return;
+    }
+    console.log(`[engine] ${tool}`);
+    const result = await handler(args || {});
+    sendJson(res, 200, { result });
+};
+
+/**
+ * The ECHO Execution Engine: runs tool calls for the web app over `POST /execute-tool`
+ * with a `{ tool, args }` body, answering `{ result }` or `{ error }`.
+ */
+const server = createServer(async (req, res) => {
+    // The app is served from a different origin (the Vite dev server), so only that origin is allowed CORS.
+    // Browsers send an Origin header with every cross-origin request, so any other web page is refused outright.
+    const origin = req.headers.origin;
+    if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+        sendJson(res, 403, { error: `Origin ${origin} is not allowed. Add it to ECHO_APP_ORIGINS to use this engine from it.` });
+        return;
+    }
+    if (origin) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    try {
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+        } else if (!isAuthorized(req)) {
+            sendJson(res, 401, { error: 'Missing or wrong engine token. Set ECHO_ENGINE_TOKEN in .env to the token the engine printed at startup, and restart the app.' });
+        } else if (req.method === 'GET' && req.url === '/health') {
+            sendJson(res, 200, { status: 'ok', workspace: workspaceRoot, tools: Object.keys(tools) });
+        } else if (req.method === 'POST' && req.url === '/execute-tool') {
+            await handleExecuteTool(req, res);
+        } else {
+            sendJson(res, 404, { error: `No route for ${req.method} ${req.url}.` });
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!(error instanceof ToolInputError)) {
+            console.error('[engine] Tool execution failed:', error);
+        }
+        if (!res.headersSent) {
+            sendJson(res, error instanceof ToolInputError ? 400 : 500, { error: message });
+        }
+    }
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`ECHO Execution Engine listening on http://${HOST}:${PORT}`);
+    console.log(`Workspace: ${workspaceRoot}`);
+    console.log(`Allowed app origins: ${ALLOWED_ORIGINS.join(', ')}`);
+    if (!configuredToken) {
+        console.log(`No ECHO_ENGINE_TOKEN set; generated one for this session. Add this line to .env and restart the app:`);
+        console.log(`ECHO_ENGINE_TOKEN=${ENGINE_TOKEN}`);
+    }
+});
@@ -0,0 +1,49 @@
+import type { ToolHandlers } from './types';
+import { ToolInputError } from './types';
+
+const AGENTOPS_API_URL = process.env.AGENTOPS_API_URL || 'https://api.agentops.ai';
+const AGENTOPS_OTLP_URL = process.env.AGENTOPS_OTLP_URL || 'https://otlp.agentops.ai';
+
+// AgentOps exchanges the API key for a short-lived bearer token; it is fetched again when rejected.
+let cachedToken: string | null = null;
+
+const fetchToken = async (): Promise<string> => {
+    const apiKey = process.env.AGENTOPS_API_KEY;
+    if (!apiKey) throw new ToolInputError('AGENTOPS_API_KEY must be set for the execution engine to export traces to AgentOps.');
+    const response = await fetch(`${AGENTOPS_API_URL}/v3/auth/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ api_key: apiKey }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || typeof body.token !== 'string') {
+        throw new Error(`AgentOps authentication failed (${response.status}): ${body.error || body.message || response.statusText}`);
+    }
+    cachedToken = body.token;
+    return body.token;
+};
+
+const postTrace = (trace: object, token: string) => fetch(`${AGENTOPS_OTLP_URL}/v1/traces`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(trace),
+});
+
+/** Forwards run traces (OTLP/JSON, built by the app) to AgentOps, authenticated with AGENTOPS_API_KEY. */
+export const createAgentOpsTools = (): ToolHandlers => ({
+    agentops_export_trace: async ({ trace }) => {
+        if (!trace || !Array.isArray(trace.resourceSpans)) {
+            throw new ToolInputError("'trace' must be an OTLP/JSON object with 'resourceSpans'.");
+        }
+        let response = await postTrace(trace, cachedToken || await fetchToken());
+        if (response.status === 401) {
+            response = await postTrace(trace, await fetchToken());
+        }
+        if (!response.ok) {
+            throw new Error(`AgentOps trace export failed (${response.status}): ${await response.text().catch(() => response.statusText)}`);
+        }
+        const spanCount = trace.resourceSpans.reduce((count: number, rs: any) =>
+            count + (rs.scopeSpans || []).reduce((n: number, ss: any) => n + (ss.spans || []).length, 0), 0);
+        return `Exported ${spanCount} spans to AgentOps.`;
+    },
+});
@@ -0,0 +1,82 @@
+import type { ToolHandlers } from './types';
+import { ToolInputError } from './types';
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+const parsePullRequestUrl = (prUrl: unknown) => {
+    const match = typeof prUrl === 'string' && prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+    if (!match) throw new ToolInputError(`'${prUrl}' is not a GitHub pull request URL.`);
+    return { owner: match[1], repo: match[2], number: match[3] };
+};
+
+const githubRequest = async (path: string, init: RequestInit = {}) => {
+    const token = process.env.GITHUB_TOKEN;
+    if (!token) throw new ToolInputError('GITHUB_TOKEN must be set for the execution engine to use GitHub tools.');
+    const response = await fetch(`${GITHUB_API_URL}${path}`, {
+        ...init,
+        headers: {
+            Accept: 'application/vnd.github+json',
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+            'X-GitHub-Api-Version': '2022-11-28',
+            ...init.headers,
+        },
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(`GitHub request failed (${response.status}): ${body.message || response.statusText}`);
+    }
+    return body;
+};
+
+/** GitHub tools backed by the REST API, authenticated with GITHUB_TOKEN. */
+export const createGithubTools = (): ToolHandlers => ({
+    github_create_repo: async ({ name, description, is_private }) => {
+        const repo = await githubRequest('/user/repos', {
+            method: 'POST',
+            body: JSON.stringify({ name, description, private: Boolean(is_private) }),
+        });
+        return { full_name: repo.full_name, url: repo.html_url };
+    },
+    github_get_pr_details: async ({ pr_url }) => {
+        const { owner, repo, number } = parsePullRequestUrl(pr_url);
+        const pr = await githubRequest(`/repos/${owner}/${repo}/pulls/${number}`);
+        const files = await githubRequest(`/repos/${owner}/${repo}/pulls/${number}/files?per_page=100`);
+        return {
+            title: pr.title,
+            body: pr.body,
+            state: pr.state,
+            author: pr.user?.login,
+            base: pr.base?.ref,
+            head: pr.head?.ref,
+            mergeable: pr.mergeable,
+            files: files.map((file: any) => ({ filename: file.filename, status: file.status, patch: file.patch })),
+        };
+    },
+    github_post_pr_comment: async ({ pr_url, comment }) => {
+        const { owner, repo, number } = parsePullRequestUrl(pr_url);
+        const posted = await githubRequest(`/repos/${owner}/${repo}/issues/${number}/comments`, {
+            method: 'POST',
+            body: JSON.stringify({ body: comment }),
+        });
+        return `Comment posted: ${posted.html_url}`;
+    },
+    github_merge_pr: async ({ pr_url, method }) => {
+        const { owner, repo, number } = parsePullRequestUrl(pr_url);
+        const merged = await githubRequest(`/repos/${owner}/${repo}/pulls/${number}/merge`, {
+            method: 'PUT',
+            body: JSON.stringify({ merge_method: method || 'merge' }),
+        });
+        return merged.message || `Pull request #${number} merged.`;
+    },
+    github_create_file_in_repo: async ({ repo_name, path, content, commit_message }) => {
+        if (typeof repo_name !== 'string' || !repo_name.includes('/')) {
+            throw new ToolInputError("'repo_name' must be in 'owner/repo' form.");
+        }
+        const created = await githubRequest(`/repos/${repo_name}/contents/${String(path).replace(/^\/+/, '')}`, {
+            method: 'PUT',
+            body: JSON.stringify({ message: commit_message, content: Buffer.from(String(content ?? ''), 'utf8').toString('base64') }),
+        });
+        return `File created: ${created.content?.html_url || path}`;
+    },
+});
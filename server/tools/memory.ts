@@ -0,0 +1,130 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { ToolHandlers } from './types';
+import { ToolInputError } from './types';
+
+interface MemoryItem {
+    key: string;
+    value: string;
+    tags: string[];
+}
+
+const requireKey = (key: unknown): string => {
+    if (typeof key !== 'string' || !key.trim()) throw new ToolInputError("A non-empty 'key' is required.");
+    return key;
+};
+
+const requireKeyOrTags = (key?: string, tags?: string[]) => {
+    if (!key && (!tags || tags.length === 0)) {
+        throw new ToolInputError("Must provide either a 'key' or 'tags' to retrieve memory.");
+    }
+};
+
+// Matches the memory_retrieve contract: a single value, a JSON array for several matches, or '' for none.
+const formatMatches = (matches: MemoryItem[]): string => {
+    if (matches.length === 0) return '';
+    if (matches.length === 1) return matches[0].value;
+    return JSON.stringify(matches);
+};
+
+/**
+ * Long-term memory kept in a JSON file inside the workspace, used when Supabase is not connected.
+ */
+export const createLocalMemoryTools = (workspaceRoot: string): ToolHandlers => {
+    const storePath = path.join(workspaceRoot, '.echo', 'memory.json');
+
+    const load = async (): Promise<MemoryItem[]> => {
+        try {
+            return JSON.parse(await fs.readFile(storePath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+    };
+
+    const save = async (items: MemoryItem[]) => {
+        await fs.mkdir(path.dirname(storePath), { recursive: true });
+        await fs.writeFile(storePath, JSON.stringify(items, null, 2), 'utf8');
+    };
+
+    return {
+        local_memory_save: async ({ key, value, tags }) => {
+            requireKey(key);
+            const items = (await load()).filter(item => item.key !== key);
+            items.push({ key, value: String(value ?? ''), tags: Array.isArray(tags) ? tags : [] });
+            await save(items);
+            return `Memory '${key}' saved.`;
+        },
+        local_memory_retrieve: async ({ key, tags }) => {
+            requireKeyOrTags(key, tags);
+            const items = await load();
+            const matches = key
+                ? items.filter(item => item.key === key)
+                : items.filter(item => (tags as string[]).some(tag => item.tags.includes(tag)));
+            return formatMatches(matches);
+        },
+        local_memory_delete: async ({ key }) => {
+            requireKey(key);
+            const items = await load();
+            const remaining = items.filter(item => item.key !== key);
+            if (remaining.length === items.length) return `No memory found for key '${key}'.`;
+            await save(remaining);
+            return `Memory '${key}' deleted.`;
+        },
+    };
+};
+
+/**
+ * Long-term memory in a Supabase `memories` table (key text primary key, value text, tags text[]),
+ * accessed through the PostgREST API with SUPABASE_URL and SUPABASE_KEY.
+ */
+export const createSupabaseMemoryTools = (): ToolHandlers => {
+    const request = async (query: string, init: RequestInit = {}) => {
+        const baseUrl = process.env.SUPABASE_URL;
+        const apiKey = process.env.SUPABASE_KEY;
+        if (!baseUrl || !apiKey) {
+            throw new ToolInputError('SUPABASE_URL and SUPABASE_KEY must be set for the execution engine to use Supabase memory.');
+        }
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/rest/v1/memories${query}`, {
+            ...init,
+            headers: {
+                apikey: apiKey,
+                Authorization: `Bearer ${apiKey}`,
+                'Content-Type': 'application/json',
+                ...init.headers,
+            },
+        });
+        if (!response.ok) {
+            throw new Error(`Supabase request failed (${response.status}): ${await response.text()}`);
+        }
+        const body = await response.text();
+        return body ? JSON.parse(body) : null;
+    };
+
+    return {
+        memory_save: async ({ key, value, tags }) => {
+            requireKey(key);
+            await request('?on_conflict=key', {
+                method: 'POST',
+                headers: { Prefer: 'resolution=merge-duplicates' },
+                body: JSON.stringify({ key, value: String(value ?? ''), tags: Array.isArray(tags) ? tags : [] }),
+            });
+            return `Memory '${key}' saved.`;
+        },
+        memory_retrieve: async ({ key, tags }) => {
+            requireKeyOrTags(key, tags);
+            const filter = key
+                ? `key=eq.${encodeURIComponent(key)}`
+                : `tags=ov.${encodeURIComponent(`{${(tags as string[]).map(tag => JSON.stringify(tag)).join(',')}}`)}`;
+            return formatMatches(await request(`?select=key,value,tags&${filter}`));
+        },
+        memory_delete: async ({ key }) => {
+            requireKey(key);
+            const deleted: MemoryItem[] = await request(`?key=eq.${encodeURIComponent(key)}`, {
+                method: 'DELETE',
+                headers: { Prefer: 'return=representation' },
+            });
+            return deleted.length > 0 ? `Memory '${key}' deleted.` : `No memory found for key '${key}'.`;
+        },
+    };
+};
@@ -0,0 +1,11 @@
+export type ToolHandler = (args: { [key: string]: any }) => Promise<unknown>;
+
+export type ToolHandlers = { [toolName: string]: ToolHandler };
+
+/** An error caused by the request itself (bad input, missing configuration) rather than the engine. */
+export class ToolInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ToolInputError';
+    }
+}
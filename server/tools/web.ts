@@ -0,0 +1,45 @@
+import type { ToolHandlers } from './types';
+import { ToolInputError } from './types';
+
+const MAX_PAGE_TEXT_LENGTH = 20_000;
+const FETCH_TIMEOUT_MS = 30_000;
+
+const htmlToText = (html: string): string => html
+    .replace(/<(script|style|noscript|svg)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<\/(p|div|li|h[1-6]|tr|br|section|article)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+
+/**
+ * Fetches a page and returns its readable text. There is no headless browser here, so the
+ * task description is echoed back for context rather than acted on.
+ */
+export const createWebTools = (): ToolHandlers => ({
+    browse_web: async ({ url, task_description }) => {
+        if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+            throw new ToolInputError("'url' must be an http(s) URL.");
+        }
+        const response = await fetch(url, {
+            headers: { 'User-Agent': 'ECHO-Execution-Engine' },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            throw new Error(`Fetching ${url} failed (${response.status} ${response.statusText}).`);
+        }
+        const body = await response.text();
+        const contentType = response.headers.get('content-type') || '';
+        let text = contentType.includes('html') ? htmlToText(body) : body;
+        if (text.length > MAX_PAGE_TEXT_LENGTH) {
+            text = `${text.slice(0, MAX_PAGE_TEXT_LENGTH)}\n[Truncated ${text.length - MAX_PAGE_TEXT_LENGTH} characters]`;
+        }
+        return `Content of ${url} (for task: ${task_description || 'n/a'}):\n\n${text}`;
+    },
+});
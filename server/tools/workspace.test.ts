@@ -0,0 +1,47 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createWorkspaceTools } from './workspace';
+import type { ToolHandlers } from './types';
+
+describe('workspace tools', () => {
+    let root: string;
+    let tools: ToolHandlers;
+
+    beforeEach(async () => {
+        root = await mkdtemp(path.join(os.tmpdir(), 'echo-workspace-'));
+        tools = createWorkspaceTools(root);
+    });
+
+    afterEach(async () => {
+        await rm(root, { recursive: true, force: true });
+    });
+
+    describe('paths', () => {
+        it('accepts names inside the workspace that start with two dots', async () => {
+            await tools.local_writeFile({ path: '..cache/x', content: 'cached' });
+
+            await expect(tools.local_readFile({ path: '..cache/x' })).resolves.toBe('cached');
+            await expect(tools.local_listFiles({ path: '.' })).resolves.toEqual(['..cache/']);
+        });
+
+        it('rejects paths outside the workspace', async () => {
+            await expect(tools.local_readFile({ path: '../secrets' })).rejects.toThrow('outside the workspace');
+            await expect(tools.local_listFiles({ path: '..' })).rejects.toThrow('outside the workspace');
+            await expect(tools.local_readFile({ path: '/etc/passwd' })).rejects.toThrow('outside the workspace');
+        });
+    });
+
+    describe('local_executeShellCommand', () => {
+        it('returns the output of a command that succeeds', async () => {
+            await expect(tools.local_executeShellCommand({ command: 'echo built' })).resolves.toBe('built');
+        });
+
+        it('returns the exit code and output of a failing command instead of rejecting', async () => {
+            const result = await tools.local_executeShellCommand({ command: 'echo "1 test failed" >&2; exit 1' });
+
+            expect(result).toBe('Command exited with code 1.\n1 test failed');
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { exec } from 'node:child_process';
+import type { ToolHandlers } from './types';
+import { ToolInputError } from './types';
+
+const SHELL_TIMEOUT_MS = 120_000;
+const MAX_SHELL_OUTPUT_BYTES = 1024 * 1024;
+
+/**
+ * File and shell tools confined to a single local directory. File paths are resolved against the
+ * workspace root and rejected if they escape it (including through symlinks). Shell commands run
+ * with the workspace as their working directory; this is a convenience boundary, not a security sandbox.
+ */
+export const createWorkspaceTools = (root: string): ToolHandlers => {
+    const resolveInWorkspace = async (requestedPath: string): Promise<string> => {
+        if (typeof requestedPath !== 'string' || !requestedPath.trim()) {
+            throw new ToolInputError('A non-empty path is required.');
+        }
+        const resolved = path.resolve(root, requestedPath);
+        const assertInside = (candidate: string) => {
+            const relative = path.relative(root, candidate);
+            if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+                throw new ToolInputError(`Path '${requestedPath}' is outside the workspace.`);
+            }
+        };
+        assertInside(resolved);
+
+        // Follow symlinks for the deepest existing ancestor so a link cannot point outside the root.
+        let existing = resolved;
+        while (existing !== root) {
+            try {
+                assertInside(await fs.realpath(existing));
+                break;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+                existing = path.dirname(existing);
+            }
+        }
+        return resolved;
+    };
+
+    return {
+        local_readFile: async ({ path: filePath }) => {
+            return fs.readFile(await resolveInWorkspace(filePath), 'utf8');
+        },
+        local_writeFile: async ({ path: filePath, content }) => {
+            const target = await resolveInWorkspace(filePath);
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await fs.writeFile(target, String(content ?? ''), 'utf8');
+            return `File '${filePath}' written successfully.`;
+        },
+        local_listFiles: async ({ path: dirPath }) => {
+            const entries = await fs.readdir(await resolveInWorkspace(dirPath || '.'), { withFileTypes: true });
+            return entries.map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name).sort();
+        },
+        local_executeShellCommand: ({ command }) => {
+            if (typeof command !== 'string' || !command.trim()) {
+                return Promise.reject(new ToolInputError('A non-empty command is required.'));
+            }
+            return new Promise((resolve, reject) => {
+                exec(command, { cwd: root, timeout: SHELL_TIMEOUT_MS, maxBuffer: MAX_SHELL_OUTPUT_BYTES }, (error, stdout, stderr) => {
+                    if (error && error.killed) {
+                        reject(new Error(`Command timed out after ${SHELL_TIMEOUT_MS / 1000} seconds.`));
+                        return;
+                    }
+                    const output = [stdout, stderr].filter(Boolean).join('\n').trim();
+                    // A failing command (e.g. a test run) is a result the agent should read, not an engine error.
+                    if (error) {
+                        resolve(`Command exited with code ${error.code}.${output ? `\n${output}` : ''}`);
+                        return;
+                    }
+                    resolve(output);
+                });
+            });
+        },
+    };
+};
@@ -0,0 +1,318 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../types';
+import type { AgentExecutor } from './agentExecutor';
+import { runScriptedExecution } from './executionHarness';
+import type { LLMRequest } from './llmProviders';
+import { DEFAULT_EXECUTION_SETTINGS } from './executionSettings';
+import { PermanentError } from './retryPolicy';
+
+const makeTask = (id: string, dependencies: string[] = [], fields: Partial<Task> = {}): Task => ({
+    id,
+    title: id,
+    status: 'Queued',
+    agent: { role: 'Executor', name: 'God Mode' },
+    estimatedTime: '~45s',
+    details: `Do ${id}.`,
+    dependencies,
+    logs: [],
+    reviewHistory: [],
+    retryCount: 0,
+    maxRetries: 2,
+    subSteps: [],
+    ...fields,
+});
+
+const toolCall = (name: string, args: { [key: string]: any }) => ({ text: `Calling ${name}.`, functionCalls: [{ name, args }] });
+const finish = (summary = 'Done.') => toolCall('finishTask', { final_thought: 'The objective is met.', summary });
+const statusOf = (tasks: Task[], id: string) => tasks.find(t => t.id === id)?.status;
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('AgentExecutor', () => {
+    describe('retries', () => {
+        it('retries a task after a transient tool failure', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('read')],
+                script: { 'next-step': [toolCall('readFile', { path: 'notes.md' }), toolCall('readFile', { path: 'notes.md' }), finish()] },
+                toolBackend: { files: { 'notes.md': 'hello' }, failures: { readFile: 1 } },
+            });
+
+            expect(result.outcome).toBe('finished');
+            const task = result.tasks.find(t => t.id === 'read')!;
+            expect(task.status).toBe('Done');
+            expect(task.retryCount).toBe(1);
+            expect(result.backend.calls.map(c => c.error ? 'failed' : 'ok')).toEqual(['failed', 'ok']);
+        });
+
+        it('fails without retrying on a permanent error', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('deploy', [], { maxRetries: 3 })],
+                script: { 'next-step': [toolCall('executeShellCommand', { command: 'vercel deploy' })] },
+                toolBackend: { handlers: { executeShellCommand: async () => { throw new PermanentError('Vercel service not connected.'); } } },
+                settings: { ...DEFAULT_EXECUTION_SETTINGS, maxReplans: 0 },
+            });
+
+            expect(result.outcome).toBe('failed');
+            const task = result.tasks.find(t => t.id === 'deploy')!;
+            expect(task.status).toBe('Error');
+            expect(task.retryCount).toBe(0);
+            expect(result.backend.calls).toHaveLength(1);
+        });
+
+        it('fails the run once the retries are used up', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('read', [], { maxRetries: 1 })],
+                script: { 'next-step': [toolCall('readFile', { path: 'notes.md' }), toolCall('readFile', { path: 'notes.md' })] },
+                toolBackend: { failures: { readFile: 2 } },
+                settings: { ...DEFAULT_EXECUTION_SETTINGS, maxReplans: 0 },
+            });
+
+            expect(result.outcome).toBe('failed');
+            expect(statusOf(result.tasks, 'read')).toBe('Error');
+            expect(result.tasks.find(t => t.id === 'read')!.retryCount).toBe(1);
+            expect(result.backend.calls).toHaveLength(2);
+        });
+
+        it('does not start a task again while it waits out its retry backoff', async () => {
+            const steps: { [id: string]: ReturnType<typeof toolCall>[] } = {
+                flaky: [toolCall('readFile', { path: 'notes.md' }), toolCall('readFile', { path: 'notes.md' }), finish()],
+                build: [toolCall('executeShellCommand', { command: 'npm run build' }), finish()],
+                test: [toolCall('executeShellCommand', { command: 'npm test' }), finish()],
+            };
+            // The tasks share one queue of replies, so each reply picks the next step of the task that asked.
+            const nextStep = (request: LLMRequest) => {
+                const id = Object.keys(steps).find(key => request.messages[0].content.includes(`Do ${key}.`))!;
+                return steps[id].shift()!;
+            };
+            const result = await runScriptedExecution({
+                tasks: [makeTask('flaky'), makeTask('build'), makeTask('test')],
+                script: { 'next-step': Array(7).fill(nextStep) },
+                toolBackend: {
+                    failures: { readFile: 1 },
+                    handlers: {
+                        // "build" settles while "flaky" waits out its 200-400ms backoff, "test" once the backoff is over.
+                        executeShellCommand: async (args) => { await wait(args.command === 'npm test' ? 450 : 50); return 'ok'; },
+                        readFile: async () => { await wait(500); return 'hello'; },
+                    },
+                },
+                retryDelayMs: 400,
+            });
+
+            expect(result.outcome).toBe('finished');
+            expect(result.tasks.map(t => t.status)).toEqual(['Done', 'Done', 'Done']);
+            expect(result.logs.filter(l => l.message.includes('Starting task: flaky'))).toHaveLength(2);
+            expect(result.backend.calls.filter(c => c.name === 'readFile')).toHaveLength(2);
+        });
+    });
+
+    describe('delegation', () => {
+        it('runs the delegated sub-task and resumes the delegator with its result', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('research')],
+                script: {
+                    'next-step': [
+                        toolCall('create_and_delegate_task_to_new_agent', {
+                            agent_name: 'Fact Checker',
+                            agent_instructions: 'Check facts.',
+                            task_description: 'Check the launch date.',
+                            agent_icon: 'Brain',
+                        }),
+                        finish('The launch date is correct.'),
+                        finish('Research complete.'),
+                    ],
+                },
+            });
+
+            expect(result.outcome).toBe('finished');
+            expect(result.createdAgents.map(a => a.name)).toEqual(['Fact Checker']);
+            const subTask = result.tasks.find(t => t.delegatorTaskId === 'research')!;
+            expect(subTask.agent.name).toBe('Fact Checker');
+            expect(subTask.status).toBe('Done');
+            expect(statusOf(result.tasks, 'research')).toBe('Done');
+            expect(result.provider.calls[2].request.messages[0].content).toContain('The launch date is correct.');
+            expect(result.events.some(e => e.type === 'task-delegated')).toBe(true);
+        });
+    });
+
+    describe('approval', () => {
+        it('does not run a risky call the user rejects and lets safe calls through', async () => {
+            const asked: string[] = [];
+            const result = await runScriptedExecution({
+                tasks: [makeTask('clean')],
+                script: {
+                    'next-step': [
+                        toolCall('executeShellCommand', { command: 'rm -rf build' }),
+                        toolCall('executeShellCommand', { command: 'npm test' }),
+                        finish(),
+                    ],
+                },
+                decideApproval: (task) => {
+                    asked.push(task.pendingApproval!.toolCall.args.command);
+                    return { action: 'reject', feedback: 'Keep the build.' };
+                },
+            });
+
+            expect(result.outcome).toBe('finished');
+            expect(asked).toEqual(['rm -rf build']);
+            expect(result.backend.calls.map(c => c.args.command)).toEqual(['npm test']);
+            expect(result.tasks[0].subSteps![0].observation).toContain('Keep the build.');
+        });
+    });
+
+    describe('budgets', () => {
+        // Every scripted model call uses 10 tokens.
+        const readNotes = toolCall('readFile', { path: 'notes.md' });
+
+        it('soft-stops the run once its token budget runs out partway through', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('gather'), makeTask('draft', ['gather']), makeTask('publish', ['draft'])],
+                script: { 'next-step': [readNotes, readNotes, readNotes, readNotes, finish()] },
+                toolBackend: { files: { 'notes.md': 'hello' } },
+                settings: { ...DEFAULT_EXECUTION_SETTINGS, runBudget: { maxTokens: 25 } },
+            });
+
+            expect(result.outcome).toBe('failed');
+            expect(result.failureMessage).toBe('Execution soft-stopped because the run budget was exceeded (run used 30 of 25 tokens). 2 tasks were not started.');
+            expect(result.tasks.map(t => t.status)).toEqual(['Done', 'Cancelled', 'Cancelled']);
+            expect(result.tasks[0].output!.summary).toMatch(/^Stopped early because the budget was exceeded/);
+            expect(result.tokensUsed).toBe(30);
+            expect(result.provider.calls).toHaveLength(3);
+        });
+
+        it('soft-stops only the task that runs over its own budget', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('gather'), makeTask('draft', ['gather'])],
+                script: { 'next-step': [readNotes, readNotes, readNotes, finish()] },
+                toolBackend: { files: { 'notes.md': 'hello' } },
+                settings: { ...DEFAULT_EXECUTION_SETTINGS, taskBudget: { maxTokens: 20 } },
+            });
+
+            expect(result.outcome).toBe('finished');
+            expect(result.tasks.map(t => t.status)).toEqual(['Done', 'Done']);
+            expect(result.tasks[0].usage!.tokens).toBe(20);
+            expect(result.tasks[0].output!.summary).toContain('task used 20 of 20 tokens');
+            expect(result.tasks[1].output!.summary).toBe('Done.');
+        });
+    });
+
+    describe('cancellation', () => {
+        it('cancels the dependents of a cancelled task and finishes the independent ones', async () => {
+            let executor: AgentExecutor | undefined;
+            const result = await runScriptedExecution({
+                tasks: [makeTask('fetch'), makeTask('parse', ['fetch']), makeTask('report', ['parse']), makeTask('unrelated')],
+                script: { 'next-step': [toolCall('readFile', { path: 'data.csv' }), finish()] },
+                toolBackend: {
+                    handlers: {
+                        // The user cancels "fetch" while its first tool call is in flight.
+                        readFile: async () => {
+                            executor!.cancelTask('fetch');
+                            return 'a,b,c';
+                        },
+                    },
+                },
+                onStarted: (started) => { executor = started; },
+            });
+
+            expect(statusOf(result.tasks, 'fetch')).toBe('Cancelled');
+            expect(statusOf(result.tasks, 'parse')).toBe('Cancelled');
+            expect(statusOf(result.tasks, 'report')).toBe('Cancelled');
+            expect(statusOf(result.tasks, 'unrelated')).toBe('Done');
+            expect(result.outcome).toBe('finished');
+        });
+    });
+
+    describe('replanning', () => {
+        it('replaces the review waiting on a failed revision along with it', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('draft'), makeTask('review', ['draft'], { agent: { role: 'Reviewer', name: 'Claude Sonnet' } })],
+                script: {
+                    'next-step': [finish(), toolCall('executeShellCommand', { command: 'vercel deploy' }), finish()],
+                    review: [{ status: 'Changes Requested', comments: 'Deploy it first.' }],
+                    replanning: [{ rationale: 'Write it up without deploying.', tasks: [{ key: 'summary', title: 'Summarize', agentRole: 'Executor', details: 'Summarize the draft.', dependsOn: [] }] }],
+                },
+                toolBackend: { handlers: { executeShellCommand: async () => { throw new PermanentError('Vercel service not connected.'); } } },
+            });
+
+            expect(result.outcome).toBe('finished');
+            expect(result.planRevisions).toHaveLength(1);
+            expect(result.planRevisions[0].removedTasks.map(t => t.id)).toEqual(['draft', 'review']);
+            expect(statusOf(result.tasks, 'review')).toBe('Cancelled');
+            const replanPrompt = result.provider.calls.find(c => c.purpose === 'replanning')!.request.messages[0].content;
+            expect(replanPrompt).toContain('failed after 1 attempt with an error that retrying cannot fix');
+        });
+    });
+
+    describe('task deadlines', () => {
+        it('do not run out while the task waits for an answer', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('ask', [], { timeoutSeconds: 0.1 })],
+                script: { 'next-step': [toolCall('askUser', { question: 'Which region?' }), finish()] },
+                answerQuestion: async () => {
+                    await wait(300);
+                    return 'eu-west-1';
+                },
+            });
+
+            expect(result.outcome).toBe('finished');
+            expect(result.tasks[0].retryCount).toBe(0);
+        });
+
+        it('do not run out while the run is paused', async () => {
+            let executor: AgentExecutor | undefined;
+            const result = await runScriptedExecution({
+                tasks: [makeTask('read', [], { timeoutSeconds: 0.1 })],
+                script: { 'next-step': [toolCall('readFile', { path: 'notes.md' }), finish()] },
+                toolBackend: {
+                    handlers: {
+                        readFile: async () => {
+                            executor!.pause();
+                            setTimeout(() => executor!.resume(), 300);
+                            return 'hello';
+                        },
+                    },
+                },
+                onStarted: (started) => { executor = started; },
+            });
+
+            expect(result.outcome).toBe('finished');
+            expect(result.tasks[0].retryCount).toBe(0);
+        });
+
+        it('still time out a task that is working', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('slow', [], { timeoutSeconds: 0.1, maxRetries: 1 })],
+                script: { 'next-step': [toolCall('readFile', { path: 'big.log' }), toolCall('readFile', { path: 'big.log' })] },
+                toolBackend: { handlers: { readFile: async () => { await wait(300); return 'late'; } } },
+                settings: { ...DEFAULT_EXECUTION_SETTINGS, maxReplans: 0 },
+            });
+
+            expect(result.outcome).toBe('failed');
+            expect(result.tasks[0].retryCount).toBe(1);
+            expect(result.logs.some(l => l.message.includes('Timed out after 0.1s'))).toBe(true);
+        });
+    });
+
+    describe('deadlock detection', () => {
+        it('fails the run when the remaining tasks wait on each other', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('first', ['second']), makeTask('second', ['first'])],
+                script: {},
+            });
+
+            expect(result.outcome).toBe('failed');
+            expect(result.failureMessage).toMatch(/stalled/);
+            expect(result.tasks.map(t => t.status)).toEqual(['Error', 'Error']);
+            expect(result.provider.calls).toHaveLength(0);
+        });
+
+        it('fails the run when a task depends on one that does not exist', async () => {
+            const result = await runScriptedExecution({
+                tasks: [makeTask('ready'), makeTask('orphan', ['missing'])],
+                script: { 'next-step': [finish()] },
+            });
+
+            expect(result.outcome).toBe('failed');
+            expect(statusOf(result.tasks, 'ready')).toBe('Done');
+            expect(statusOf(result.tasks, 'orphan')).toBe('Error');
+        });
+    });
+});
@@ -1,41 +1,172 @@
-import { Task, LogEntry, SubStep, ToolCall, Artifact, CustomAgent } from '../types';
-import { determineNextStep } from './planner';
-import { availableTools } from './tools';
+import { Task, LogEntry, LiveOutput, SubStep, ToolCall, Artifact, CustomAgent, ReviewEntry, TaskStatus, RunCheckpoint, TaskOutput, ApprovalDecision, UsageTotals, PlanRevision } from '../types';
+import { determineNextStep, reviewTaskOutputs, replanRemainingTasks, resolveNextStepProfile } from './planner';
+import { compactExecutionHistory, resolveContextBudget, sliceObservation } from './contextManager';
+import { availableTools, ToolRegistry } from './tools';
+import { saveRunCheckpoint, clearRunCheckpoint } from './persistence';
+import { assessToolCall, ToolRiskAssessment } from './toolPolicy';
+import type { ToolArgs } from './toolSchema';
+import type { LLMCallOptions, TokenUpdateHandler } from './llmProviders';
+import { ExecutionSettings, loadExecutionSettings, describeBudgetOverrun } from './executionSettings';
+import { addUsage } from './usageStats';
+import { loadAgents, ORCHESTRATOR_AGENT_ID } from './agentRegistry';
+import { resolveAllowedToolNames } from './agentToolset';
+import { classifyError, Deadline, ErrorKind, getRetryDelay, PermanentError, runWithTimeout, TimeoutError } from './retryPolicy';
+import type { ExecutionEvent, ExecutionEventPayload, RunOutcome } from './executionEvents';
 
+const GOD_MODE_AGENT_NAME = 'God Mode';
 const MAX_SUB_STEPS = 10;
+const MAX_REVISIONS = 2;
+// Statuses from which the scheduler may (re)start a task once its dependencies are done.
+const RUNNABLE_STATUSES: TaskStatus[] = ['Queued', 'Revising', 'Pending Review'];
+const CHECKPOINT_LOG_LIMIT = 100;
+const DEFAULT_RETRY_DELAY_MS = 1000;
 
 interface AgentExecutorCallbacks {
     onTaskUpdate: (task: Task) => void;
     onTasksUpdate: (tasks: Task[]) => void;
     onLog: (log: Omit<LogEntry, 'timestamp'>) => void;
-    onTokenUpdate: (count: number) => void;
-    onArtifactCreated: (artifact: Omit<Artifact, 'id' | 'createdAt'>) => void;
+    // A task's next-step reasoning as it streams in; ended once the step is decided and logged.
+    onLiveOutput: (output: LiveOutput) => void;
+    onLiveOutputEnd: (id: string) => void;
+    onTokenUpdate: TokenUpdateHandler;
+    onArtifactCreated: (artifact: Artifact) => void;
     onAgentCreated: (agent: CustomAgent) => void;
+    onAgentsRemoved: (agentIds: string[]) => void;
+    onPlanRevised: (revision: PlanRevision) => void;
+    onEvent: (event: ExecutionEvent) => void;
     onFinish: () => void;
     onFail: (errorMessage: string) => void;
 }
 
+export interface AgentExecutorOptions {
+    // Tool implementations to run instead of the real ones, e.g. a fake backend for offline runs.
+    tools?: ToolRegistry;
+    retryDelayMs?: number;
+    // Budgets to enforce. By default the saved execution settings are read at the start of each run.
+    settings?: ExecutionSettings;
+}
+
 export class AgentExecutor {
     private callbacks: AgentExecutorCallbacks;
     private tasks: Task[] = [];
     private currentArtifacts: Artifact[] = [];
     private isStopped = false;
+    private isPaused = false;
+    private resumeWaiters: (() => void)[] = [];
+    private approvalWaiters = new Map<string, (decision: ApprovalDecision) => void>();
+    private inputWaiters = new Map<string, (answer: string | null) => void>();
+    private runId: string | null = null;
+    private prompt = '';
+    private startedAt = '';
+    private runLogs: LogEntry[] = [];
+    private checkpointInFlight: Promise<void> | null = null;
+    private checkpointDirty = false;
+    private tools: ToolRegistry;
+    private retryDelayMs: number;
+    private settingsOverride?: ExecutionSettings;
+    private settings: ExecutionSettings = loadExecutionSettings();
+    private runUsage: UsageTotals = { tokens: 0, cost: 0 };
+    private agentUsage = new Map<string, UsageTotals>();
+    private budgetStopReason: string | null = null;
+    private budgetCancelledCount = 0;
+    // Ephemeral agents spawned during this run, keyed by name. They are never saved to the agent list.
+    private spawnedAgents = new Map<string, CustomAgent>();
+    private planRevisions: PlanRevision[] = [];
+    private replanQueue: Promise<unknown> = Promise.resolve();
+    private isReplanning = false;
+    // One controller per running task attempt; aborting it cancels the attempt's in-flight model and tool calls.
+    private taskAbortControllers = new Map<string, AbortController>();
+    private taskDeadlines = new Map<string, Deadline>();
+    private eventSeq = 0;
+    private runOutcome: RunOutcome = 'incomplete';
+    private runFailureMessage?: string;
 
-    constructor(callbacks: AgentExecutorCallbacks) {
-        this.callbacks = callbacks;
+    constructor(callbacks: AgentExecutorCallbacks, options: AgentExecutorOptions = {}) {
+        this.tools = options.tools || availableTools;
+        this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+        this.settingsOverride = options.settings;
+        this.callbacks = {
+            ...callbacks,
+            onLog: (log) => {
+                this.runLogs = [...this.runLogs.slice(-(CHECKPOINT_LOG_LIMIT - 1)), { ...log, timestamp: new Date().toISOString() }];
+                callbacks.onLog(log);
+            },
+            onFinish: () => {
+                this.runOutcome = 'finished';
+                callbacks.onFinish();
+            },
+            onFail: (errorMessage) => {
+                this.runOutcome = 'failed';
+                this.runFailureMessage = errorMessage;
+                callbacks.onFail(errorMessage);
+            },
+        };
     }
 
-    public async run(initialTasks: Task[], prompt: string, initialArtifacts: Artifact[]) {
+    /**
+     * Prepares tasks from an interrupted run's checkpoint for re-execution.
+     * Tasks that were mid-flight are re-queued with their sub-steps intact, so the
+     * ReAct loop continues from the last completed sub-step instead of restarting.
+     * A call that was awaiting approval or an answer is dropped; the agent proposes its next step again.
+     */
+    public static restoreTasksFromCheckpoint(checkpoint: RunCheckpoint): Task[] {
+        return checkpoint.tasks.map(task =>
+            task.status === 'Executing' || task.status === 'Awaiting Approval' || task.status === 'Awaiting Input'
+                ? { ...task, status: task.revisionCount ? 'Revising' : 'Queued', pendingApproval: undefined, pendingQuestion: undefined }
+                : task
+        );
+    }
+
+    public async run(initialTasks: Task[], prompt: string, initialArtifacts: Artifact[], resumeFrom?: RunCheckpoint) {
         this.isStopped = false;
+        this.isPaused = false;
         this.tasks = [...initialTasks];
         this.currentArtifacts = [...initialArtifacts];
+        this.runId = resumeFrom?.runId || `run-${Date.now()}`;
+        this.prompt = prompt;
+        this.startedAt = resumeFrom?.startedAt || new Date().toISOString();
+        this.runLogs = resumeFrom ? [...resumeFrom.logs] : [];
+        this.settings = this.settingsOverride || loadExecutionSettings();
+        this.budgetStopReason = null;
+        this.budgetCancelledCount = 0;
+        this.spawnedAgents.clear();
+        resumeFrom?.spawnedAgents?.forEach(a => this.spawnedAgents.set(a.name, a));
+        this.planRevisions = resumeFrom?.planRevisions ? [...resumeFrom.planRevisions] : [];
+        // Usage is kept on the tasks, so a resumed run continues counting against the same budgets.
+        this.runUsage = { tokens: 0, cost: 0 };
+        this.agentUsage.clear();
+        this.tasks.forEach(t => {
+            if (!t.usage) return;
+            this.runUsage = addUsage(this.runUsage, t.usage.tokens, t.usage.cost);
+            this.agentUsage.set(t.agent.name, addUsage(this.agentUsage.get(t.agent.name), t.usage.tokens, t.usage.cost));
+        });
+        this.eventSeq = 0;
+        this.runOutcome = 'incomplete';
+        this.runFailureMessage = undefined;
+        this.emit({ type: 'run-started', prompt, taskCount: this.tasks.length, resumed: !!resumeFrom });
+        this.scheduleCheckpoint();
+
+        try {
+            await this.schedule();
+        } finally {
+            this.emit({ type: 'run-finished', outcome: this.isStopped ? 'stopped' : this.runOutcome, message: this.runFailureMessage });
+            await this.discardCheckpoint();
+            this.removeSpawnedAgents();
+        }
+    }
+
+    private async schedule() {
 
         const MAX_PARALLEL_TASKS = 4;
         const activePromises = new Map<string, Promise<boolean>>();
 
-        while (this.tasks.some(t => ['Queued', 'Executing', 'Delegating'].includes(t.status)) && !this.isStopped) {
-            // Find ready tasks that are not already being executed
-            const readyTasks = this.findReadyTasks();
+        while (this.tasks.some(t => ['Queued', 'Executing', 'Delegating', 'Awaiting Approval', 'Awaiting Input', 'Pending Review', 'Revising'].includes(t.status)) && !this.isStopped) {
+            // Find ready tasks that are not already being executed. A task waiting out its retry backoff is
+            // 'Queued' but still running. Nothing new is scheduled while paused, while the plan is being
+            // revised or after the run budget is spent.
+            const readyTasks = this.isPaused || this.isReplanning || this.budgetStopReason
+                ? []
+                : this.findReadyTasks().filter(task => !activePromises.has(task.id));
 
             // Start executing tasks up to the concurrency limit
             while (activePromises.size < MAX_PARALLEL_TASKS && readyTasks.length > 0) {
@@ -60,13 +191,18 @@ export class AgentExecutor {
             // If not, check for deadlocks or completion.
             if (activePromises.size > 0) {
                 await Promise.race(Array.from(activePromises.values()));
-            } else if (this.tasks.some(t => t.status === 'Queued')) {
+            } else if (this.budgetStopReason) {
+                this.cancelForBudget();
+                break;
+            } else if (this.isPaused) {
+                await this.waitIfPaused();
+            } else if (this.tasks.some(t => RUNNABLE_STATUSES.includes(t.status))) {
                 // Deadlock check: No tasks running, but some are still queued
                 this.callbacks.onFail("Execution stalled due to a dependency issue or a cycle in the task graph.");
                 this.tasks.forEach(t => {
-                    if (t.status === 'Queued') this.updateTask(t, {status: 'Error'});
+                    if (RUNNABLE_STATUSES.includes(t.status)) this.updateTask(t, {status: 'Error'});
                 });
-                break; // Exit the loop on deadlock
+                return; // The run has already failed; the final status check below would report it again.
             } else {
                 // All tasks are done, have failed, or were cancelled.
                 break;
@@ -79,31 +215,54 @@ export class AgentExecutor {
             return;
         }
         
+        if (this.budgetCancelledCount > 0) {
+            this.callbacks.onFail(`Execution soft-stopped because the run budget was exceeded (${this.budgetStopReason}). ${this.budgetCancelledCount} tasks were not started.`);
+            return;
+        }
+
         // Final status check
         if (this.tasks.every(t => t.status === 'Done' || t.status === 'Cancelled')) {
-            const isFromPlaybook = initialTasks[0]?.id.startsWith('playbook-');
-            if(!isFromPlaybook) {
-                this.callbacks.onFinish();
-            } else {
-                 this.callbacks.onLog({ status: 'SUCCESS', message: 'ECHO: Playbook executed successfully.' });
-            }
+            this.callbacks.onFinish();
         } else {
-             const remainingTasks = this.tasks.filter(t => t.status === 'Queued' || t.status === 'Pending Review').length;
+             const remainingTasks = this.tasks.filter(t => RUNNABLE_STATUSES.includes(t.status)).length;
+             const failedTasks = this.tasks.filter(t => t.status === 'Error');
              if (remainingTasks > 0) {
                 this.callbacks.onFail(`Could not complete all tasks. ${remainingTasks} tasks remain unresolved.`);
-             } else if (!this.tasks.some(t => t.status === 'Error')) {
+             } else if (failedTasks.length > 0) {
+                this.callbacks.onFail(`Could not complete all tasks. Failed: ${failedTasks.map(t => `"${t.title}"`).join(', ')}.`);
+             } else {
                 this.callbacks.onFinish();
              }
         }
     }
 
+    public pause() {
+        if (this.isPaused || this.isStopped) return;
+        this.isPaused = true;
+        this.scheduleCheckpoint();
+        this.callbacks.onLog({ status: 'WARN', message: '[System] Execution paused. In-flight tool calls will finish, but no new steps or tasks will start.' });
+    }
+
+    public resume() {
+        if (!this.isPaused) return;
+        this.isPaused = false;
+        this.releaseResumeWaiters();
+        this.scheduleCheckpoint();
+        this.callbacks.onLog({ status: 'INFO', message: '[System] Execution resumed.' });
+    }
+
     public stop() {
         this.isStopped = true;
+        this.isPaused = false;
+        this.releaseResumeWaiters();
+        this.taskAbortControllers.forEach(controller => controller.abort(new Error('Execution was stopped.')));
         this.tasks.forEach(t => {
-            if (t.status === 'Executing' || t.status === 'Queued' || t.status === 'Pending Review' || t.status === 'Delegating') {
-                this.updateTask(t, { status: 'Cancelled' });
+            if (t.status === 'Executing' || t.status === 'Queued' || t.status === 'Pending Review' || t.status === 'Revising' || t.status === 'Delegating' || t.status === 'Awaiting Approval' || t.status === 'Awaiting Input') {
+                this.updateTask(t, { status: 'Cancelled', pendingApproval: undefined, pendingQuestion: undefined });
             }
         });
+        Array.from(this.approvalWaiters.keys()).forEach(taskId => this.releaseApprovalWaiter(taskId));
+        Array.from(this.inputWaiters.keys()).forEach(taskId => this.releaseInputWaiter(taskId));
         this.callbacks.onTasksUpdate([...this.tasks]);
     }
     
@@ -116,7 +275,10 @@ export class AgentExecutor {
         const recursivelyCancel = (id: string) => {
             const task = this.tasks.find(t => t.id === id);
             if (task && task.status !== 'Cancelled') {
-                this.updateTask(task, { status: 'Cancelled' });
+                this.updateTask(task, { status: 'Cancelled', pendingApproval: undefined, pendingQuestion: undefined });
+                this.releaseApprovalWaiter(id);
+                this.releaseInputWaiter(id);
+                this.taskAbortControllers.get(id)?.abort(new Error('Task was cancelled.'));
                 this.callbacks.onLog({ status: 'WARN', message: `[System] Task "${task.title}" cancelled by user.` });
                 cancelledIds.push(id);
 
@@ -128,11 +290,158 @@ export class AgentExecutor {
 
         recursivelyCancel(taskId);
         this.callbacks.onTasksUpdate([...this.tasks]);
+        this.scheduleCheckpoint();
     }
     
+    /**
+     * Answers a tool call that is awaiting approval. Approving runs the call, with the given
+     * arguments if the user edited them; rejecting skips it and reports the feedback to the agent.
+     */
+    public resolveApproval(taskId: string, decision: ApprovalDecision) {
+        const resolve = this.approvalWaiters.get(taskId);
+        const task = this.tasks.find(t => t.id === taskId);
+        if (!resolve || !task || task.status !== 'Awaiting Approval') return;
+        this.approvalWaiters.delete(taskId);
+
+        const toolName = task.pendingApproval?.toolCall.name;
+        this.updateTask(task, { status: 'Executing', pendingApproval: undefined });
+        if (decision.action === 'approve') {
+            this.callbacks.onLog({ status: 'INFO', message: `[System] User approved ${toolName}${decision.args ? ' with edited arguments' : ''} for "${task.title}".` });
+        } else {
+            this.callbacks.onLog({ status: 'WARN', message: `[System] User rejected ${toolName} for "${task.title}": ${decision.feedback || 'no feedback given'}` });
+        }
+        resolve(decision);
+    }
+
+    /**
+     * Answers a question the agent asked with askUser. The ReAct loop resumes with the answer as
+     * its observation; an empty answer tells the agent the user gave no input.
+     */
+    public answerQuestion(taskId: string, answer: string) {
+        const resolve = this.inputWaiters.get(taskId);
+        const task = this.tasks.find(t => t.id === taskId);
+        if (!resolve || !task || task.status !== 'Awaiting Input') return;
+        this.inputWaiters.delete(taskId);
+
+        this.updateTask(task, { status: 'Executing', pendingQuestion: undefined });
+        this.callbacks.onLog({ status: 'INFO', message: `[System] User answered "${task.title}": ${answer.trim() || '(no input)'}` });
+        resolve(answer);
+    }
+
+    private buildCheckpoint(): RunCheckpoint {
+        return {
+            runId: this.runId!,
+            prompt: this.prompt,
+            tasks: this.tasks,
+            artifacts: this.currentArtifacts,
+            logs: this.runLogs,
+            isPaused: this.isPaused,
+            startedAt: this.startedAt,
+            updatedAt: new Date().toISOString(),
+            spawnedAgents: [...this.spawnedAgents.values()],
+            planRevisions: this.planRevisions,
+        };
+    }
+
+    // Writes are serialized and coalesced: a transition that happens while a write is
+    // in flight marks the checkpoint dirty and triggers exactly one follow-up write.
+    private scheduleCheckpoint() {
+        if (!this.runId) return;
+        if (this.checkpointInFlight) {
+            this.checkpointDirty = true;
+            return;
+        }
+        this.checkpointInFlight = saveRunCheckpoint(this.buildCheckpoint())
+            .catch(error => console.error("Failed to save run checkpoint", error))
+            .finally(() => {
+                this.checkpointInFlight = null;
+                if (this.checkpointDirty) {
+                    this.checkpointDirty = false;
+                    this.scheduleCheckpoint();
+                }
+            });
+    }
+
+    private async discardCheckpoint() {
+        const runId = this.runId;
+        if (!runId) return;
+        this.runId = null;
+        while (this.checkpointInFlight) {
+            await this.checkpointInFlight;
+        }
+        try {
+            await clearRunCheckpoint(runId);
+        } catch (error) {
+            console.error("Failed to clear run checkpoint", error);
+        }
+    }
+
+    // Pass the task waiting, so that its deadline stops while the run is paused.
+    private waitIfPaused(taskId?: string): Promise<void> {
+        if (!this.isPaused) return Promise.resolve();
+        const resumed = new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+        return taskId ? this.waitOnUser(taskId, resumed) : resumed;
+    }
+
+    // The user may take longer than the task's time limit, so its deadline is suspended until they act.
+    private async waitOnUser<T>(taskId: string, wait: Promise<T>): Promise<T> {
+        const deadline = this.taskDeadlines.get(taskId);
+        deadline?.suspend();
+        try {
+            return await wait;
+        } finally {
+            deadline?.resume();
+        }
+    }
+
+    private requestApproval(task: Task, thought: string, toolCall: ToolCall, assessment: ToolRiskAssessment): Promise<ApprovalDecision> {
+        return this.waitOnUser(task.id, new Promise(resolve => {
+            // Registered before the status change so that a decision made synchronously in onTaskUpdate is not lost.
+            this.approvalWaiters.set(task.id, resolve);
+            this.updateTask(this.tasks.find(t => t.id === task.id) || task, {
+                status: 'Awaiting Approval',
+                pendingApproval: { toolCall, thought, risk: assessment.risk, reason: assessment.reason, requestedAt: new Date().toISOString() },
+            });
+            this.callbacks.onLog({ status: 'WARN', message: `[${task.agent.name}] Waiting for approval to run ${toolCall.name}: ${assessment.reason}` });
+        }));
+    }
+
+    // Unblocks a ReAct loop waiting on a task that was cancelled or stopped; the loop sees the status and exits.
+    private releaseApprovalWaiter(taskId: string) {
+        const resolve = this.approvalWaiters.get(taskId);
+        if (!resolve) return;
+        this.approvalWaiters.delete(taskId);
+        resolve({ action: 'reject', feedback: 'Execution was cancelled.' });
+    }
+
+    // Only this task's loop waits for the answer; the scheduler keeps running other ready tasks meanwhile.
+    private requestUserInput(task: Task, thought: string, question: string): Promise<string | null> {
+        return this.waitOnUser(task.id, new Promise(resolve => {
+            this.inputWaiters.set(task.id, resolve);
+            this.updateTask(this.tasks.find(t => t.id === task.id) || task, {
+                status: 'Awaiting Input',
+                pendingQuestion: { question, thought, askedAt: new Date().toISOString() },
+            });
+            this.callbacks.onLog({ status: 'WARN', message: `[${task.agent.name}] Waiting for user input: ${question}` });
+        }));
+    }
+
+    private releaseInputWaiter(taskId: string) {
+        const resolve = this.inputWaiters.get(taskId);
+        if (!resolve) return;
+        this.inputWaiters.delete(taskId);
+        resolve(null);
+    }
+
+    private releaseResumeWaiters() {
+        const waiters = this.resumeWaiters;
+        this.resumeWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
     private findReadyTasks(): Task[] {
         return this.tasks.filter(task => 
-            task.status === 'Queued' && 
+            RUNNABLE_STATUSES.includes(task.status) && 
             task.dependencies.every(depId => {
                 const dep = this.tasks.find(t => t.id === depId);
                 return dep?.status === 'Done';
@@ -142,9 +451,11 @@ export class AgentExecutor {
 
     private updateTask(task: Task, updates: Partial<Task>): Task {
         let wasUpdated = false;
+        let previousStatus: TaskStatus | undefined;
         const updatedTasks = this.tasks.map(t => {
             if (t.id === task.id) {
                 wasUpdated = true;
+                previousStatus = t.status;
                 return { ...t, ...updates };
             }
             return t;
@@ -154,7 +465,11 @@ export class AgentExecutor {
             this.tasks = updatedTasks;
             const updatedTask = this.tasks.find(t => t.id === task.id);
             if(updatedTask) {
+                if (previousStatus && previousStatus !== updatedTask.status) {
+                    this.emit({ type: 'task-status-changed', taskTitle: updatedTask.title, from: previousStatus, to: updatedTask.status }, updatedTask);
+                }
                 this.callbacks.onTaskUpdate(updatedTask);
+                this.scheduleCheckpoint();
                 return updatedTask;
             }
         }
@@ -172,184 +487,558 @@ export class AgentExecutor {
         if (parentTask && parentTask.status === 'Delegating') {
             this.callbacks.onLog({
                 status: 'INFO',
-                message: `[System] Child task complete. Resuming God Mode to review and continue.`
+                message: `[System] Child task complete. Resuming ${parentTask.agent.name} to review and continue.`
             });
             
-            const observation = `Delegated task '${completedTask.title}' has been completed by the child agent. Review its work (e.g., read created files) and decide the next action.`;
+            const childOutput = completedTask.output ? ` Its reported output: ${completedTask.output.summary}` : '';
+            const observation = `Delegated task '${completedTask.title}' (ID: ${completedTask.id}) has been completed by the child agent.${childOutput} Review its work (e.g., read created files or use readTaskOutput) and decide the next action.`;
             
             const lastSubStep = parentTask.subSteps ? parentTask.subSteps[parentTask.subSteps.length - 1] : undefined;
 
+            // Re-queued so the scheduler picks it up again; the ReAct loop continues from its sub-steps.
             if (lastSubStep) {
                 lastSubStep.observation = observation;
                  this.updateTask(parentTask, {
-                    status: 'Executing', // Go straight back to executing
+                    status: 'Queued',
                     subSteps: [...parentTask.subSteps]
                 });
             } else {
-                 this.updateTask(parentTask, { status: 'Executing' });
+                 this.updateTask(parentTask, { status: 'Queued' });
             }
         }
     }
     
     private async executeTask(task: Task): Promise<boolean> {
         // Double-check status before executing
-        if (this.tasks.find(t => t.id === task.id)?.status !== 'Queued') {
+        const latestStatus = this.tasks.find(t => t.id === task.id)?.status;
+        if (!latestStatus || !RUNNABLE_STATUSES.includes(latestStatus)) {
             return true; // Already processed by another async path (e.g., cancellation)
         }
         
         let currentTask = this.updateTask(task, { status: 'Executing' });
-        this.callbacks.onLog({ status: 'INFO', message: `[${currentTask.agent.name}] Starting task: ${currentTask.title}` });
+        const startVerb = latestStatus === 'Revising' ? 'Revising' : latestStatus === 'Pending Review' ? 'Re-reviewing' : task.subSteps?.length ? 'Resuming' : 'Starting';
+        this.callbacks.onLog({ status: 'INFO', message: `[${currentTask.agent.name}] ${startVerb} task: ${currentTask.title}` });
 
+        // Each attempt runs against the clock: a timeout aborts its in-flight calls and counts as a transient failure.
+        // The clock stops while the run is paused or the task waits on the user (see waitOnUser).
+        const timeoutSeconds = currentTask.timeoutSeconds ?? this.settings.taskTimeoutSeconds;
+        const controller = new AbortController();
+        const deadline = timeoutSeconds ? new Deadline(timeoutSeconds * 1000, `Timed out after ${timeoutSeconds}s.`) : undefined;
+        this.taskAbortControllers.set(task.id, controller);
+        if (deadline) this.taskDeadlines.set(task.id, deadline);
         try {
-            if (currentTask.agent.role === 'Executor' && currentTask.agent.name === 'God Mode') {
-                await this.runReActLoop(currentTask);
-            } else {
-                await this.simulateSimpleExecution(currentTask);
-            }
+            const replanReason = await runWithTimeout(
+                signal => this.runTaskAttempt(currentTask, signal),
+                deadline,
+                `Timed out after ${timeoutSeconds}s.`,
+                controller.signal
+            );
 
             const finalTaskState = this.tasks.find(t => t.id === task.id);
              if (finalTaskState && finalTaskState.status === 'Executing') {
                  const doneTask = this.updateTask(finalTaskState, { status: 'Done' });
                  this.callbacks.onLog({ status: 'SUCCESS', message: `[${task.agent.name}] Finished task: ${task.title}` });
                  this.reactivateDelegatorIfAny(doneTask);
+                 if (replanReason) {
+                     await this.replan('agent-request', doneTask.id, replanReason);
+                 }
             }
             return true;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
 
-            if (task.retryCount < task.maxRetries) {
+            // Stopping the run or cancelling the task aborts the attempt; there is nothing to retry.
+            if (this.isStopped || this.tasks.find(t => t.id === task.id)?.status === 'Cancelled') {
+                return true;
+            }
+            // A timed-out attempt may be parked on the user; release it so the abandoned loop exits.
+            this.releaseApprovalWaiter(task.id);
+            this.releaseInputWaiter(task.id);
+
+            // A retry would only ask the user the same thing again.
+            const errorKind = error instanceof TimeoutError && deadline?.isSuspended ? 'permanent' : classifyError(error);
+            if (errorKind === 'transient' && task.retryCount < task.maxRetries) {
                 const newRetryCount = task.retryCount + 1;
-                this.updateTask(task, { status: 'Queued', retryCount: newRetryCount });
+                const delayMs = getRetryDelay(newRetryCount, this.retryDelayMs);
+                this.updateTask(task, { status: 'Queued', retryCount: newRetryCount, pendingApproval: undefined, pendingQuestion: undefined });
                 this.callbacks.onLog({ 
                     status: 'WARN', 
-                    message: `[${task.agent.name}] Task '${task.title}' failed. Retrying (${newRetryCount}/${task.maxRetries}). Error: ${errorMessage}` 
+                    message: `[${task.agent.name}] Task '${task.title}' failed. Retrying (${newRetryCount}/${task.maxRetries}) in ${(delayMs / 1000).toFixed(1)}s. Error: ${errorMessage}` 
                 });
-                await new Promise(resolve => setTimeout(resolve, 1000)); // Wait a second before retry
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+                await this.waitIfPaused();
                 return this.executeTask(this.tasks.find(t => t.id === task.id)!);
             } else {
-                this.updateTask(task, { status: 'Error' });
+                this.updateTask(task, { status: 'Error', pendingApproval: undefined, pendingQuestion: undefined });
                 this.callbacks.onLog({ 
                     status: 'ERROR', 
-                    message: `[${task.agent.name}] Task '${task.title}' failed after ${task.maxRetries} retries: ${errorMessage}` 
+                    message: errorKind === 'permanent'
+                        ? `[${task.agent.name}] Task '${task.title}' failed with an error that retrying cannot fix: ${errorMessage}`
+                        : `[${task.agent.name}] Task '${task.title}' failed after ${task.maxRetries} retries: ${errorMessage}` 
                 });
+                // Delegated tasks belong to their delegator's work, so only top-level failures are replanned.
+                if (!task.delegatorTaskId && await this.replan('task-failed', task.id, errorMessage, errorKind)) {
+                    return true;
+                }
                 return false; 
             }
+        } finally {
+            if (this.taskAbortControllers.get(task.id) === controller) {
+                this.taskAbortControllers.delete(task.id);
+            }
+            if (deadline) {
+                deadline.clear();
+                if (this.taskDeadlines.get(task.id) === deadline) this.taskDeadlines.delete(task.id);
+            }
+        }
+    }
+
+    /**
+     * Runs one attempt at a task with the stage that fits its agent.
+     * @returns The reason given when the agent ended the task by requesting a new plan.
+     */
+    private async runTaskAttempt(task: Task, signal: AbortSignal): Promise<string | void> {
+        if (this.softStopIfOverBudget(task)) {
+            // Marked Done by the caller, with the budget note as its output.
+            return;
+        }
+        if (task.agent.role === 'Reviewer') {
+            return this.runReviewStage(task, signal);
+        }
+        if (task.agent.role === 'Executor' && this.runsReActLoop(task.agent.name)) {
+            return this.runReActLoop(task, signal);
+        }
+        return this.simulateSimpleExecution(task, signal);
+    }
+
+    // An attempt that timed out or was cancelled may still be winding down; it must not touch the task any more.
+    private isAttemptActive(task: Task, signal: AbortSignal): boolean {
+        return !this.isStopped && !signal.aborted && this.tasks.find(t => t.id === task.id)?.status === 'Executing';
+    }
+
+    private async runReviewStage(reviewTask: Task, signal: AbortSignal) {
+        const reviewedTasks = reviewTask.dependencies
+            .map(depId => this.tasks.find(t => t.id === depId))
+            .filter((t): t is Task => !!t && t.status === 'Done');
+
+        if (reviewedTasks.length === 0) {
+            this.callbacks.onLog({ status: 'WARN', message: `[${reviewTask.agent.name}] Nothing to review for "${reviewTask.title}".` });
+            return;
+        }
+
+        this.callbacks.onLog({ status: 'INFO', message: `[${reviewTask.agent.name}] Reviewing: ${reviewedTasks.map(t => t.title).join(', ')}` });
+        const verdict = await reviewTaskOutputs(reviewTask, reviewedTasks, this.currentArtifacts, this.trackUsage(reviewTask), this.llmCallOptions(signal, reviewTask));
+
+        if (!this.isAttemptActive(reviewTask, signal)) return;
+
+        const entry: ReviewEntry = {
+            reviewer: reviewTask.agent.name,
+            timestamp: new Date().toISOString(),
+            status: verdict.status,
+            comments: verdict.comments,
+        };
+        reviewedTasks.forEach(t => {
+            const latest = this.tasks.find(lt => lt.id === t.id) || t;
+            this.updateTask(latest, { reviewHistory: [...latest.reviewHistory, entry] });
+        });
+        this.updateTask(reviewTask, { reviewHistory: [...reviewTask.reviewHistory, entry] });
+
+        if (verdict.status === 'Approved') {
+            this.updateTask(this.tasks.find(t => t.id === reviewTask.id)!, {
+                output: { summary: `Approved: ${verdict.comments}`, values: {}, artifactIds: [], producedAt: entry.timestamp },
+            });
+            this.callbacks.onLog({ status: 'SUCCESS', message: `[${reviewTask.agent.name}] Approved: ${verdict.comments}` });
+            return;
+        }
+
+        this.callbacks.onLog({ status: 'WARN', message: `[${reviewTask.agent.name}] Changes requested: ${verdict.comments}` });
+
+        const revisable = reviewedTasks
+            .map(t => this.tasks.find(lt => lt.id === t.id)!)
+            .filter(t => t.agent.role === 'Executor');
+
+        if (revisable.length === 0) {
+            this.callbacks.onLog({ status: 'WARN', message: `[${reviewTask.agent.name}] No upstream Executor task can be revised. Proceeding with unresolved review comments.` });
+            return;
         }
+
+        const exhausted = revisable.filter(t => (t.revisionCount || 0) >= MAX_REVISIONS);
+        // Failing through executeTask's error path lets the run replan around the review, or end with onFail.
+        if (exhausted.length > 0) {
+            throw new PermanentError(`Review of "${exhausted.map(t => t.title).join(', ')}" still failing after ${MAX_REVISIONS} revisions.`);
+        }
+
+        revisable.forEach(t => {
+            const revisionCount = (t.revisionCount || 0) + 1;
+            this.updateTask(t, { status: 'Revising', revisionCount });
+            this.callbacks.onLog({ status: 'INFO', message: `[System] Sending "${t.title}" back to ${t.agent.name} for revision (${revisionCount}/${MAX_REVISIONS}).` });
+        });
+        this.updateTask(reviewTask, { status: 'Pending Review' });
+    }
+
+    private resolveAgent(agentName: string): CustomAgent | undefined {
+        return this.spawnedAgents.get(agentName) || loadAgents().find(a => a.name === agentName);
     }
 
-    private async runReActLoop(task: Task) {
+    // God Mode and any enabled custom agent act through the ReAct loop; other executors are simulated.
+    private runsReActLoop(agentName: string): boolean {
+        return agentName === GOD_MODE_AGENT_NAME || !!this.resolveAgent(agentName)?.enabled;
+    }
+
+    private getDelegationDepth(task: Task): number {
+        let depth = 0;
+        let current: Task | undefined = task;
+        while (current?.delegatorTaskId && depth <= this.tasks.length) {
+            const delegatorId: string = current.delegatorTaskId;
+            current = this.tasks.find(t => t.id === delegatorId);
+            depth++;
+        }
+        return depth;
+    }
+
+    private findDelegate(task: Task, agentName?: string, capability?: string): CustomAgent | string {
+        const candidates = [...loadAgents(), ...this.spawnedAgents.values()].filter(a => a.enabled && a.name !== task.agent.name);
+        const available = `Available agents: ${candidates.map(a => a.capabilities?.length ? `${a.name} (${a.capabilities.join(', ')})` : a.name).join('; ') || 'none'}.`;
+        if (agentName) {
+            const named = candidates.find(a => a.name.toLowerCase() === agentName.trim().toLowerCase());
+            return named || `Delegation refused: no enabled agent is named "${agentName}". ${available}`;
+        }
+        if (capability) {
+            const wanted = capability.trim().toUpperCase();
+            const capable = candidates.find(a => (a.capabilities || []).some(c => c.toUpperCase() === wanted));
+            return capable || `Delegation refused: no enabled agent has the capability "${capability}". ${available}`;
+        }
+        return `Delegation refused: give either agent_name or capability. ${available}`;
+    }
+
+    /**
+     * Builds the sub-task for a delegation call, spawning an ephemeral agent for
+     * create_and_delegate_task_to_new_agent.
+     * @returns The sub-task, or the reason the delegation was refused.
+     */
+    private prepareDelegation(task: Task, delegatingAgent: CustomAgent | undefined, toolCall: ToolCall): Task | string {
+        if (this.getDelegationDepth(task) >= this.settings.maxDelegationDepth) {
+            return `Delegation refused: the maximum delegation depth (${this.settings.maxDelegationDepth}) has been reached. Complete this work yourself.`;
+        }
+        const delegatedCount = this.tasks.filter(t => t.delegatorTaskId === task.id).length;
+        if (delegatedCount >= this.settings.maxDelegationFanOut) {
+            return `Delegation refused: this task has already delegated ${delegatedCount} sub-tasks, the maximum. Complete the rest yourself.`;
+        }
+
+        let delegate: CustomAgent;
+        let maxRetries = 3;
+        let timeoutSeconds: number | undefined;
+        if (toolCall.name === 'delegate_to_agent') {
+            const found = this.findDelegate(task, toolCall.args.agent_name, toolCall.args.capability);
+            if (typeof found === 'string') return found;
+            delegate = found;
+        } else {
+            const { agent_name, agent_instructions, agent_icon } = toolCall.args;
+            if (this.resolveAgent(agent_name)) {
+                return `Delegation refused: an agent named "${agent_name}" already exists. Use delegate_to_agent to hand it the task, or choose another name.`;
+            }
+            // Spawned agents follow the delegating agent's template; God Mode has no agent record and uses the orchestrator's.
+            const template = (delegatingAgent || loadAgents().find(a => a.id === ORCHESTRATOR_AGENT_ID))?.child_agent_template;
+            delegate = {
+                id: `${template?.id_prefix || 'agent-spawn-'}${Date.now()}`,
+                name: agent_name,
+                instructions: agent_instructions,
+                icon: agent_icon || 'Brain',
+                isCore: false,
+                enabled: true,
+                ephemeral: true,
+                description: `Spawned by ${task.agent.name} for: ${task.title}`,
+                llm_profile_id: template?.llm_profile_id,
+                enabled_tools: template?.default_tools,
+            };
+            maxRetries = template?.max_retries ?? maxRetries;
+            timeoutSeconds = template?.timeout_seconds;
+            this.spawnedAgents.set(delegate.name, delegate);
+            this.callbacks.onAgentCreated(delegate);
+        }
+
+        return {
+            id: `task-sub-${Date.now()}`,
+            title: `Delegated: ${delegate.name}`,
+            details: toolCall.args.task_description,
+            status: 'Queued',
+            agent: { role: 'Executor', name: delegate.name },
+            estimatedTime: '~5m',
+            dependencies: [],
+            delegatorTaskId: task.id,
+            logs: [],
+            reviewHistory: [],
+            retryCount: 0,
+            maxRetries,
+            timeoutSeconds,
+        };
+    }
+
+    // Ephemeral agents only live for the run that spawned them.
+    private removeSpawnedAgents() {
+        if (this.spawnedAgents.size === 0) return;
+        const ids = [...this.spawnedAgents.values()].map(a => a.id);
+        this.spawnedAgents.clear();
+        this.callbacks.onAgentsRemoved(ids);
+        this.callbacks.onLog({ status: 'INFO', message: `[System] Removed ${ids.length} ephemeral agent(s) spawned during this run.` });
+    }
+
+    private canReplan(): boolean {
+        return this.planRevisions.length < this.settings.maxReplans && !this.isStopped && !this.budgetStopReason;
+    }
+
+    /**
+     * Asks the planner to revise the unfinished part of the plan. Tasks that have not started, the
+     * failed task and the waiting tasks that depend on it are superseded by the revised tasks;
+     * finished and running work is kept. Replans are serialized so that each one sees the plan left
+     * by the previous one.
+     * @returns Whether the plan was revised.
+     */
+    private replan(trigger: PlanRevision['trigger'], triggerTaskId: string, reason: string, errorKind?: ErrorKind): Promise<boolean> {
+        const result = this.replanQueue.then(() => this.performReplan(trigger, triggerTaskId, reason, errorKind));
+        this.replanQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    private findWaitingDependents(replaceable: Task[]): Task[] {
+        const replaceableIds = new Set(replaceable.map(t => t.id));
+        return this.tasks.filter(t =>
+            !replaceableIds.has(t.id) && RUNNABLE_STATUSES.includes(t.status) && t.dependencies.some(depId => replaceableIds.has(depId))
+        );
+    }
+
+    private async performReplan(trigger: PlanRevision['trigger'], triggerTaskId: string, reason: string, errorKind?: ErrorKind): Promise<boolean> {
+        const triggerTask = this.tasks.find(t => t.id === triggerTaskId);
+        if (!triggerTask || !this.canReplan()) {
+            if (triggerTask && this.settings.maxReplans > 0 && !this.isStopped && !this.budgetStopReason) {
+                this.callbacks.onLog({ status: 'WARN', message: `[Planner] The plan was already revised ${this.planRevisions.length} times, the maximum. Not revising it again.` });
+            }
+            return false;
+        }
+
+        const replaceable = this.tasks.filter(t =>
+            (trigger === 'task-failed' && t.id === triggerTask.id) || (t.status === 'Queued' && !t.delegatorTaskId)
+        );
+        // Tasks waiting to review or revise work would otherwise keep depending on a task that no longer exists.
+        let dependents = this.findWaitingDependents(replaceable);
+        while (dependents.length > 0) {
+            replaceable.push(...dependents);
+            dependents = this.findWaitingDependents(replaceable);
+        }
+        this.isReplanning = true;
+        this.callbacks.onLog({ status: 'INFO', message: `[Planner] Revising the remaining plan after "${triggerTask.title}" ${trigger === 'task-failed' ? 'failed' : 'requested it'}...` });
+        try {
+            const revised = await replanRemainingTasks(this.prompt, this.tasks, { trigger, triggerTask, reason, errorKind, replaceableTasks: replaceable }, this.trackRunUsage(), this.llmCallOptions());
+            if (this.isStopped) return false;
+
+            const revision = this.planRevisions.length + 1;
+            replaceable.forEach(t => {
+                const latest = this.tasks.find(lt => lt.id === t.id);
+                if (latest) this.updateTask(latest, { status: 'Cancelled', supersededByRevision: revision });
+            });
+            const added = revised.tasks.map(t => ({ ...t, planRevision: revision }));
+            this.tasks = [...this.tasks, ...added];
+            this.callbacks.onTasksUpdate([...this.tasks]);
+
+            const record: PlanRevision = {
+                revision,
+                trigger,
+                triggerTaskId: triggerTask.id,
+                triggerTaskTitle: triggerTask.title,
+                reason,
+                rationale: revised.rationale,
+                removedTasks: replaceable.map(t => ({ id: t.id, title: t.title })),
+                addedTasks: added.map(t => ({ id: t.id, title: t.title })),
+                revisedAt: new Date().toISOString(),
+            };
+            this.planRevisions = [...this.planRevisions, record];
+            this.callbacks.onPlanRevised(record);
+            this.emit({ type: 'plan-revised', revision, removedTaskIds: replaceable.map(t => t.id), addedTaskIds: added.map(t => t.id) }, triggerTask);
+            this.scheduleCheckpoint();
+            this.callbacks.onLog({ status: 'SUCCESS', message: `[Planner] Plan revision ${revision}: replaced ${replaceable.length} task(s) with ${added.length}. ${revised.rationale}` });
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.callbacks.onLog({ status: 'ERROR', message: `[Planner] ${errorMessage}` });
+            return false;
+        } finally {
+            this.isReplanning = false;
+        }
+    }
+
+    /**
+     * Runs the ReAct loop for a task.
+     * @returns The reason given when the agent ended the task by requesting a new plan.
+     */
+    private async runReActLoop(task: Task, signal: AbortSignal): Promise<string | void> {
+        const agent = this.resolveAgent(task.agent.name);
+        const allowedTools = resolveAllowedToolNames(agent);
+        const profile = resolveNextStepProfile(task, agent);
         let subSteps: SubStep[] = task.subSteps || [];
+        // Each pass (initial run, delegation resume or revision) gets its own step allowance.
+        const stepLimit = subSteps.length + MAX_SUB_STEPS;
         
         // This loop now continues from where it left off if it was delegating.
-        while (subSteps.length < MAX_SUB_STEPS) {
-             if (this.isStopped || this.tasks.find(t => t.id === task.id)?.status !== 'Executing') {
+        while (subSteps.length < stepLimit) {
+             await this.waitIfPaused(task.id);
+             if (!this.isAttemptActive(task, signal)) {
                 return;
             }
 
-            const nextStep = await determineNextStep(task, subSteps, this.currentArtifacts, this.callbacks.onTokenUpdate);
+            const latestTask = this.tasks.find(t => t.id === task.id) || task;
+            if (this.softStopIfOverBudget(latestTask)) {
+                return;
+            }
+            const stepStartedAt = Date.now();
+            const tokensBefore = latestTask.usage?.tokens || 0;
+            const timed = (step: SubStep): SubStep => ({
+                ...step,
+                startedAt: new Date(stepStartedAt).toISOString(),
+                durationMs: Date.now() - stepStartedAt,
+                tokens: (this.tasks.find(t => t.id === task.id)?.usage?.tokens || 0) - tokensBefore,
+            });
+            const contextSummary = await compactExecutionHistory(latestTask, subSteps, profile, this.trackUsage(latestTask), this.llmCallOptions(signal, latestTask));
+            if (!this.isAttemptActive(task, signal)) {
+                return;
+            }
+            if (contextSummary) {
+                this.updateTask(task, { contextSummary });
+                this.callbacks.onLog({ status: 'INFO', message: `[${task.agent.name}] Summarized steps 1-${contextSummary.stepCount} to keep the execution history within the context budget.` });
+            }
+            const stepTask = contextSummary ? { ...latestTask, contextSummary } : latestTask;
+            let streamedThought = '';
+            const nextStep = await determineNextStep(stepTask, subSteps, this.currentArtifacts, this.getUpstreamTasks(latestTask), this.trackUsage(latestTask), agent, {
+                ...this.llmCallOptions(signal, latestTask),
+                onTextDelta: delta => {
+                    streamedThought += delta;
+                    this.callbacks.onLiveOutput({ id: task.id, source: task.agent.name, text: streamedThought });
+                },
+            }).finally(() => this.callbacks.onLiveOutputEnd(task.id));
+            if (!this.isAttemptActive(task, signal)) {
+                return;
+            }
 
             if ('isFinished' in nextStep) {
                 this.callbacks.onLog({ status: 'INFO', message: `[${task.agent.name}] Concluding task with reason: ${nextStep.finalThought}` });
+                this.recordTaskOutput(task, nextStep.output.summary, nextStep.output.values);
                 return;
             }
 
-            const { thought, toolCall } = nextStep;
+            const { thought } = nextStep;
+            let { toolCall } = nextStep;
             this.callbacks.onLog({ status: 'INFO', message: `[${task.agent.name}] Thought: ${thought}` });
-            
+
+            if (allowedTools && !allowedTools.includes(toolCall.name)) {
+                subSteps.push(timed({ thought, toolCall, observation: `Tool '${toolCall.name}' is not enabled for ${task.agent.name}, so it was not run. Use one of: ${allowedTools.join(', ')}.` }));
+                this.updateTask(task, { subSteps: [...subSteps] });
+                this.callbacks.onLog({ status: 'WARN', message: `[${task.agent.name}] Refused ${toolCall.name}: not in the agent's enabled tools.` });
+                continue;
+            }
+
+            const assessment = assessToolCall(toolCall);
+            let approvalNote = '';
+            if (assessment.requiresApproval) {
+                const decision = await this.requestApproval(task, thought, toolCall, assessment);
+                if (!this.isAttemptActive(task, signal)) {
+                    return;
+                }
+                if (decision.action === 'reject') {
+                    const feedback = decision.feedback.trim() || 'No feedback given.';
+                    subSteps.push(timed({ thought, toolCall, observation: `The user rejected this ${toolCall.name} call, so it was not run. Feedback: ${feedback}` }));
+                    this.updateTask(task, { subSteps: [...subSteps] });
+                    continue;
+                }
+                if (decision.args) {
+                    toolCall = { ...toolCall, args: decision.args };
+                    approvalNote = 'The user edited the arguments before approving. ';
+                }
+            }
+
             let observation = '';
 
-            if (toolCall.name === 'create_and_delegate_task_to_new_agent') {
-                const { agent_name, agent_instructions, task_description, agent_icon } = toolCall.args;
-                
-                const newAgent: CustomAgent = {
-                    id: `agent-spawn-${Date.now()}`,
-                    name: agent_name,
-                    instructions: agent_instructions,
-                    icon: agent_icon || 'Brain',
-                    isCore: false,
-                    enabled: true,
-                    description: `Spawned by God Mode for: ${task.title}`
-                };
-                this.callbacks.onAgentCreated(newAgent);
-
-                const newTask: Task = {
-                    id: `task-sub-${Date.now()}`,
-                    title: `Delegated: ${agent_name}`,
-                    details: task_description,
-                    status: 'Queued',
-                    agent: { role: 'Executor', name: newAgent.name },
-                    estimatedTime: '~5m',
-                    dependencies: [],
-                    delegatorTaskId: task.id,
-                    logs: [],
-                    reviewHistory: [],
-                    retryCount: 0,
-                    maxRetries: 3,
-                };
-
-                const currentSubStep: SubStep = { thought, toolCall, observation: `Paused to delegate task.` };
-                subSteps.push(currentSubStep);
+            if (toolCall.name === 'delegate_to_agent' || toolCall.name === 'create_and_delegate_task_to_new_agent') {
+                const delegation = this.prepareDelegation(task, agent, toolCall);
+                if (typeof delegation === 'string') {
+                    subSteps.push(timed({ thought, toolCall, observation: `${approvalNote}${delegation}` }));
+                    this.updateTask(task, { subSteps: [...subSteps] });
+                    this.callbacks.onLog({ status: 'WARN', message: `[${task.agent.name}] ${delegation}` });
+                    continue;
+                }
 
+                subSteps.push(timed({ thought, toolCall, observation: `Paused to delegate task.` }));
                 this.updateTask(task, { status: 'Delegating', subSteps: [...subSteps] });
-                
-                this.tasks.push(newTask);
+
+                this.tasks.push(delegation);
                 this.callbacks.onTasksUpdate([...this.tasks]);
-                this.callbacks.onLog({ status: 'INFO', message: `[God Mode] Pausing and delegating task to new agent '${newAgent.name}'.` });
-                
-                return; 
+                this.scheduleCheckpoint();
+                this.emit({ type: 'task-delegated', subTaskId: delegation.id, delegateAgent: delegation.agent.name, spawnedAgent: toolCall.name === 'create_and_delegate_task_to_new_agent' }, task);
+                this.callbacks.onLog({ status: 'INFO', message: `[${task.agent.name}] Pausing and delegating task to agent '${delegation.agent.name}'.` });
+
+                return;
             }
 
             if (toolCall.name === 'createArtifact') {
-                const newArtifactData = {
+                this.addArtifact({
                     taskId: task.id,
                     title: toolCall.args.title,
                     type: toolCall.args.type,
                     content: toolCall.args.content
-                };
-                this.callbacks.onArtifactCreated(newArtifactData);
-                 this.currentArtifacts.push({
-                    ...newArtifactData,
-                    id: `artifact-${Date.now()}`,
-                    createdAt: new Date().toISOString()
                 });
                 observation = `Artifact "${toolCall.args.title}" created successfully.`;
+            } else if (toolCall.name === 'request_replan') {
+                if (this.canReplan()) {
+                    this.callbacks.onLog({ status: 'INFO', message: `[${task.agent.name}] Requesting a new plan: ${toolCall.args.reason}` });
+                    this.recordTaskOutput(task, `Ended early to request a new plan: ${toolCall.args.reason}`, {});
+                    return toolCall.args.reason;
+                }
+                observation = 'The plan cannot be revised any more in this run. Continue with the current objective and call finishTask when done.';
+            } else if (toolCall.name === 'askUser') {
+                const answer = await this.requestUserInput(task, thought, toolCall.args.question);
+                if (answer === null || !this.isAttemptActive(task, signal)) {
+                    return;
+                }
+                observation = answer.trim() ? `The user answered: ${answer.trim()}` : 'User provided no input.';
+            } else if (toolCall.name === 'readTaskOutput') {
+                observation = this.readTaskOutput(toolCall.args.task_id, toolCall.args.key);
+            } else if (toolCall.name === 'viewObservation') {
+                const source = subSteps[toolCall.args.step - 1];
+                observation = source
+                    ? sliceObservation(source.observation, toolCall.args.step, toolCall.args.offset, resolveContextBudget(profile).observationTokens)
+                    : `Step ${toolCall.args.step} does not exist. Steps are numbered 1 to ${subSteps.length}.`;
             } else if (toolCall.name === 'executeCode') {
                 const { language, code } = toolCall.args;
                 try {
-                    const result = await availableTools.executeCode({ language, code });
-                     const newArtifactData = {
+                    const result = await this.callTool(task, 'executeCode', { language, code }, signal);
+                    this.addArtifact({
                         taskId: task.id,
                         title: `Execution Result: ${language}`,
-                        type: 'live-preview' as const,
+                        type: 'live-preview',
                         content: JSON.stringify({ code, result })
-                    };
-                    this.callbacks.onArtifactCreated(newArtifactData);
-                    this.currentArtifacts.push({
-                        ...newArtifactData,
-                        id: `artifact-${Date.now()}`,
-                        createdAt: new Date().toISOString()
                     });
-                    observation = `Code executed successfully. Result: ${result.substring(0, 200)}...`;
+                    observation = `Code executed successfully. Result: ${String(result).substring(0, 200)}...`;
                 } catch (e) {
+                     if (signal.aborted) throw signal.reason;
                      const toolError = e instanceof Error ? e.message : String(e);
                      observation = `Error executing code: ${toolError}`;
                      this.callbacks.onLog({ status: 'ERROR', message: `[Tool] ${observation}` });
-                     throw new Error(observation);
+                     throw new Error(observation, { cause: e });
                 }
             } else {
-                 const toolImplementation = availableTools[toolCall.name];
+                 const toolImplementation = this.tools[toolCall.name];
 
                 if (toolImplementation) {
                     try {
                         this.callbacks.onLog({ status: 'INFO', message: `[${task.agent.name}] Using tool: ${toolCall.name} with args: ${JSON.stringify(toolCall.args)}` });
-                        const result = await toolImplementation(toolCall.args);
+                        const result = await this.callTool(task, toolCall.name, toolCall.args, signal);
                         observation = typeof result === 'object' ? JSON.stringify(result, null, 2) : String(result);
                         this.callbacks.onLog({ status: 'SUCCESS', message: `[Tool] ${toolCall.name} returned: ${observation.substring(0, 100)}...` });
                     } catch (e) {
+                        if (signal.aborted) throw signal.reason;
                         const toolError = e instanceof Error ? e.message : String(e);
                         observation = `Error executing tool ${toolCall.name}: ${toolError}`;
                         this.callbacks.onLog({ status: 'ERROR', message: `[Tool] ${observation}` });
-                        throw new Error(observation);
+                        // Keeps the original error as the cause so that the retry policy can classify it.
+                        throw new Error(observation, { cause: e });
                     }
                 } else {
                     observation = `Tool '${toolCall.name}' not found.`;
@@ -357,20 +1046,202 @@ export class AgentExecutor {
                 }
             }
 
-            const newSubStep: SubStep = { thought, toolCall, observation };
+            const newSubStep = timed({ thought, toolCall, observation: `${approvalNote}${observation}` });
             subSteps.push(newSubStep);
             
             this.updateTask(task, { subSteps: [...subSteps] });
         }
         
         this.callbacks.onLog({ status: 'WARN', message: `[${task.agent.name}] Task "${task.title}" reached max steps (${MAX_SUB_STEPS}) and will now be finalized.` });
+        const lastStep = subSteps[subSteps.length - 1];
+        this.recordTaskOutput(task, `Stopped after reaching the step limit.${lastStep ? ` Last thought: ${lastStep.thought}` : ''}`, {});
+    }
+
+    // Tool calls get their own time limit and are aborted along with the task attempt that made them.
+    private async callTool(task: Task, name: string, args: ToolArgs, signal: AbortSignal): Promise<unknown> {
+        const timeoutSeconds = this.settings.toolTimeoutSeconds;
+        const callId = `tool-${Date.now()}-${this.eventSeq}`;
+        const startedAt = Date.now();
+        this.emit({ type: 'tool-call-started', callId, toolName: name, args }, task);
+        try {
+            const result = await runWithTimeout(
+                toolSignal => this.tools[name](args, { signal: toolSignal }),
+                timeoutSeconds ? timeoutSeconds * 1000 : undefined,
+                `Tool ${name} timed out after ${timeoutSeconds}s.`,
+                signal
+            );
+            this.emit({ type: 'tool-call-finished', callId, toolName: name, latencyMs: Date.now() - startedAt }, task);
+            return result;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.emit({ type: 'tool-call-finished', callId, toolName: name, latencyMs: Date.now() - startedAt, error: errorMessage }, task);
+            throw error;
+        }
+    }
+
+    // Model calls made for a task are aborted with its attempt and traced under it.
+    private llmCallOptions(signal?: AbortSignal, task?: Task): LLMCallOptions {
+        return { signal, onCallEvent: event => this.emit(event, task) };
+    }
+
+    private emit(payload: ExecutionEventPayload, task?: Task) {
+        if (!this.runId) return;
+        this.callbacks.onEvent({
+            ...payload,
+            runId: this.runId,
+            seq: ++this.eventSeq,
+            timestamp: new Date().toISOString(),
+            ...(task ? { taskId: task.id, agentName: task.agent.name } : {}),
+        });
+    }
+
+    /**
+     * Wraps the token callback for model calls made on behalf of a task, so their usage is
+     * attributed to the task and its agent and counted against the budgets.
+     */
+    private trackUsage(task: Task): TokenUpdateHandler {
+        return (count, usage) => {
+            const cost = usage?.cost || 0;
+            this.runUsage = addUsage(this.runUsage, count, cost);
+            this.agentUsage.set(task.agent.name, addUsage(this.agentUsage.get(task.agent.name), count, cost));
+            const latest = this.tasks.find(t => t.id === task.id);
+            if (latest) {
+                this.updateTask(latest, { usage: addUsage(latest.usage, count, cost) });
+            }
+            this.callbacks.onTokenUpdate(count, {
+                profileId: usage?.profileId || 'unknown',
+                model: usage?.model || 'unknown',
+                totalTokens: count,
+                promptTokens: usage?.promptTokens,
+                completionTokens: usage?.completionTokens,
+                cost,
+                taskId: task.id,
+                taskTitle: task.title,
+                agentName: task.agent.name,
+            });
+
+            this.checkRunBudget();
+        };
+    }
+
+    // Model calls made for the run as a whole, such as replanning, count against the run budget only.
+    private trackRunUsage(): TokenUpdateHandler {
+        return (count, usage) => {
+            this.runUsage = addUsage(this.runUsage, count, usage?.cost || 0);
+            this.callbacks.onTokenUpdate(count, usage);
+            this.checkRunBudget();
+        };
+    }
+
+    private checkRunBudget() {
+        const runOverrun = describeBudgetOverrun(this.runUsage, this.settings.runBudget);
+        if (runOverrun && !this.budgetStopReason) {
+            this.budgetStopReason = `run ${runOverrun}`;
+            this.callbacks.onLog({ status: 'WARN', message: `[System] Run budget exceeded (${runOverrun}). Running tasks will wrap up and no new tasks will start.` });
+        }
+    }
+
+    private getBudgetOverrun(task: Task): string | null {
+        if (this.budgetStopReason) return this.budgetStopReason;
+        const taskOverrun = describeBudgetOverrun(task.usage || { tokens: 0, cost: 0 }, this.settings.taskBudget);
+        if (taskOverrun) return `task ${taskOverrun}`;
+        const agentOverrun = describeBudgetOverrun(this.agentUsage.get(task.agent.name) || { tokens: 0, cost: 0 }, this.settings.agentBudget);
+        if (agentOverrun) return `agent ${task.agent.name} ${agentOverrun}`;
+        return null;
+    }
+
+    // A soft stop ends the task gracefully, keeping its work so far, instead of failing it.
+    private softStopIfOverBudget(task: Task): boolean {
+        const overrun = this.getBudgetOverrun(task);
+        if (!overrun) return false;
+        this.callbacks.onLog({ status: 'WARN', message: `[System] Soft-stopping "${task.title}": budget exceeded (${overrun}).` });
+        const lastStep = task.subSteps?.[task.subSteps.length - 1];
+        this.recordTaskOutput(task, `Stopped early because the budget was exceeded (${overrun}).${lastStep ? ` Last thought: ${lastStep.thought}` : ''}`, {});
+        return true;
+    }
+
+    private cancelForBudget() {
+        this.tasks.forEach(t => {
+            if (RUNNABLE_STATUSES.includes(t.status) || t.status === 'Delegating') {
+                this.updateTask(t, { status: 'Cancelled' });
+                this.budgetCancelledCount += 1;
+            }
+        });
+        if (this.budgetCancelledCount > 0) {
+            this.callbacks.onLog({ status: 'WARN', message: `[System] ${this.budgetCancelledCount} remaining tasks were cancelled because the run budget was exceeded.` });
+            this.callbacks.onTasksUpdate([...this.tasks]);
+        }
+    }
+
+    private addArtifact(artifactData: Omit<Artifact, 'id' | 'createdAt'>): Artifact {
+        const artifact: Artifact = {
+            ...artifactData,
+            id: `artifact-${Date.now()}-${this.currentArtifacts.length}`,
+            createdAt: new Date().toISOString(),
+        };
+        this.currentArtifacts.push(artifact);
+        this.callbacks.onArtifactCreated(artifact);
+        this.emit({ type: 'artifact-created', artifactId: artifact.id, title: artifact.title, artifactType: artifact.type }, this.tasks.find(t => t.id === artifact.taskId));
+        return artifact;
+    }
+
+    private recordTaskOutput(task: Task, summary: string, values: TaskOutput['values']) {
+        const latest = this.tasks.find(t => t.id === task.id);
+        if (!latest) return;
+        const output: TaskOutput = {
+            summary,
+            values,
+            artifactIds: this.currentArtifacts.filter(a => a.taskId === task.id).map(a => a.id),
+            producedAt: new Date().toISOString(),
+        };
+        this.updateTask(latest, { output });
+    }
+
+    /**
+     * Collects the completed tasks whose results flow into the given task: its dependencies,
+     * their dependencies, and so on, ordered so that earlier work comes first.
+     */
+    private getUpstreamTasks(task: Task): Task[] {
+        const upstream: Task[] = [];
+        const visited = new Set<string>();
+        const visit = (id: string) => {
+            if (visited.has(id)) return;
+            visited.add(id);
+            const dep = this.tasks.find(t => t.id === id);
+            if (!dep || dep.status !== 'Done') return;
+            dep.dependencies.forEach(visit);
+            upstream.push(dep);
+        };
+        task.dependencies.forEach(visit);
+        return upstream;
+    }
+
+    private readTaskOutput(taskId: string, key?: string): string {
+        const source = this.tasks.find(t => t.id === taskId);
+        if (!source) {
+            return `Task '${taskId}' not found.`;
+        }
+        if (!source.output) {
+            return `Task "${source.title}" has not produced an output yet (status: ${source.status}).`;
+        }
+        if (key) {
+            const value = source.output.values[key];
+            return value !== undefined
+                ? value
+                : `Task "${source.title}" has no output value '${key}'. Available keys: ${Object.keys(source.output.values).join(', ') || 'none'}.`;
+        }
+        const artifacts = this.currentArtifacts
+            .filter(a => source.output!.artifactIds.includes(a.id))
+            .map(a => ({ title: a.title, type: a.type, content: a.content }));
+        return JSON.stringify({ summary: source.output.summary, values: source.output.values, artifacts }, null, 2);
     }
 
-    private async simulateSimpleExecution(task: Task) {
-        if (this.isStopped || this.tasks.find(t => t.id === task.id)?.status !== 'Executing') return;
+    private async simulateSimpleExecution(task: Task, signal: AbortSignal) {
+        await this.waitIfPaused(task.id);
+        if (!this.isAttemptActive(task, signal)) return;
         this.callbacks.onLog({ status: 'INFO', message: `[${task.agent.name}] Processing...` });
         await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 2000));
-        if (this.isStopped || this.tasks.find(t => t.id === task.id)?.status !== 'Executing') return;
+        if (!this.isAttemptActive(task, signal)) return;
         this.callbacks.onLog({ status: 'SUCCESS', message: `[${task.agent.name}] Processing complete.` });
     }
 }
@@ -0,0 +1,140 @@
+import type { CustomAgent, ModelProviderConfig } from '../types';
+
+export const DEFAULT_MODEL_PROFILE_ID = 'gemini-flash-main';
+export const ORCHESTRATOR_AGENT_ID = 'ECHOMEN_PARENT_AGENT';
+
+// Used when no configured profile can be resolved, so the app keeps working with only GEMINI_API_KEY set.
+const fallbackModelProfile: ModelProviderConfig = {
+    id: DEFAULT_MODEL_PROFILE_ID,
+    provider: 'GEMINI',
+    type: 'CLOUD',
+    description: 'Built-in default model.',
+    config: {
+        model_name: 'gemini-2.5-flash',
+        api_key_env_var: 'GEMINI_API_KEY'
+    },
+    integration_layer: 'NATIVE',
+    enabled: true
+};
+
+export const initialModelProviders: ModelProviderConfig[] = [
+  {
+    id: 'gemini-flash-main',
+    provider: 'GEMINI',
+    type: 'CLOUD',
+    description: 'Primary high-speed, multi-modal model for core reasoning and tool use.',
+    config: {
+      model_name: 'gemini-2.5-flash',
+      api_key_env_var: 'GEMINI_API_KEY'
+    },
+    pricing: { input_per_million: 0.3, output_per_million: 2.5 },
+    integration_layer: 'NATIVE',
+    enabled: true
+  },
+  {
+    id: 'ollama-llama3-8b',
+    provider: 'OLLAMA',
+    type: 'LOCAL',
+    description: 'Local Llama 3 8B model hosted via Ollama for code generation and internal critique.',
+    config: {
+      model_name: 'llama3:8b',
+      base_url: 'http://localhost:11434/api/generate'
+    },
+    // Llama 3 has an 8K context window.
+    contextBudget: { history_tokens: 3000, observation_tokens: 800 },
+    integration_layer: 'LANGCHAIN',
+    enabled: true
+  },
+  {
+    id: 'hf-mixtral-8x7b',
+    provider: 'HUGGING_FACE',
+    type: 'CLOUD',
+    description: 'Mixtral 8x7B for complex reasoning tasks and detailed debugging reports.',
+    config: {
+      model_name: 'mixtral-8x7b-instruct-v0.1',
+      api_key_env_var: 'HF_API_KEY',
+      endpoint_url: 'https://api-inference.huggingface.co/models/...'
+    },
+    integration_layer: 'LANGCHAIN',
+    enabled: false
+  }
+];
+
+export const coreAgents: CustomAgent[] = [
+    {
+        id: 'ECHOMEN_PARENT_AGENT',
+        name: 'ECHOMEN | Orchestrator',
+        description: 'Primary self-improving orchestrator.',
+        instructions: "You are ECHOMEN, the master orchestrator. Your first step is always to analyze the request. If the task is complex, delegate it to a 'CHILD_TASK_AGENT'. If delegation is used, you MUST review the child's output according to the CRITIQUE_DEBUG_AND_REFINE policy before reporting back to the user.",
+        isCore: true,
+        enabled: true,
+        icon: 'Brain',
+        llm_profile_id: 'gemini-flash-main',
+        delegation_enabled: true,
+        review_policy: 'CRITIQUE_DEBUG_AND_REFINE',
+        capabilities: ['DECOMPOSITION', 'PLANNING', 'DELEGATION', 'CODE_EXECUTION', 'SELF_CORRECTION', 'LEARNING'],
+        enabled_tools: ['CODE_INTERPRETER', 'GOOGLE_SEARCH_GROUNDING', 'MONGODB_CLIENT', 'GOOGLE_DRIVE_MANAGER'],
+        child_agent_template: {
+            id_prefix: 'CHILD_TASK_',
+            llm_profile_id: 'ollama-llama3-8b',
+            default_tools: ['CODE_INTERPRETER', 'GOOGLE_SEARCH_GROUNDING'],
+            timeout_seconds: 300,
+            max_retries: 2,
+        },
+    },
+    { id: 'core-webhawk', name: 'WebHawk', instructions: 'Autonomous web research agent.', isCore: true, enabled: true, icon: 'WebHawk', description: "Autonomous web research agent." },
+    { id: 'core-codeforge', name: 'CodeForge', instructions: 'Generates and debugs code.', isCore: true, enabled: true, icon: 'CodeForge', description: "Generates and debugs code." },
+    { id: 'core-docmaster', name: 'DocMaster', instructions: 'Reads and analyzes documents.', isCore: true, enabled: false, icon: 'DocumentMaster', description: "Reads and analyzes documents." }
+];
+
+export const loadModelProviders = (): ModelProviderConfig[] => {
+    if (typeof localStorage === 'undefined') return initialModelProviders;
+    try {
+        const saved = localStorage.getItem('echo-model-providers');
+        if (saved) {
+            return JSON.parse(saved) as ModelProviderConfig[];
+        }
+    } catch (error) {
+        console.error("Failed to parse model providers from localStorage", error);
+    }
+    return initialModelProviders;
+};
+
+export const loadAgents = (): CustomAgent[] => {
+    let savedAgents: CustomAgent[] = [];
+    if (typeof localStorage === 'undefined') return [...coreAgents];
+    try {
+        const savedAgentsJSON = localStorage.getItem('echo-custom-agents');
+        if (savedAgentsJSON) {
+            savedAgents = JSON.parse(savedAgentsJSON) as CustomAgent[];
+        }
+    } catch (error) {
+        console.error("Failed to parse custom agents from localStorage", error);
+    }
+    return [...coreAgents, ...savedAgents];
+};
+
+/**
+ * Resolves a model profile by its ModelProviderConfig ID.
+ * Falls back to the default profile when the ID is unknown or the profile is disabled.
+ */
+export const resolveModelProfile = (profileId?: string): ModelProviderConfig => {
+    const providers = loadModelProviders();
+    const requested = profileId ? providers.find(p => p.id === profileId && p.enabled) : undefined;
+    if (requested) return requested;
+    if (profileId) {
+        console.warn(`Model profile '${profileId}' is unknown or disabled. Falling back to the default profile.`);
+    }
+    return providers.find(p => p.id === DEFAULT_MODEL_PROFILE_ID && p.enabled) || fallbackModelProfile;
+};
+
+/**
+ * Resolves the model profile an agent runs on through its `llm_profile_id`.
+ * Agents without a profile (or unknown agent names) use the orchestrator's profile.
+ */
+export const resolveModelProfileForAgent = (agentName?: string): ModelProviderConfig => {
+    const agents = loadAgents();
+    const agent = agentName ? agents.find(a => a.name === agentName) : undefined;
+    const orchestrator = agents.find(a => a.id === ORCHESTRATOR_AGENT_ID);
+    return resolveModelProfile(agent?.llm_profile_id || orchestrator?.llm_profile_id);
+};
@@ -0,0 +1,48 @@
+import type { CustomAgent } from '../types';
+import { toolDeclarations } from './tools';
+
+// Capability names used in `enabled_tools` and child agent templates, mapped to the tools they grant.
+// Exact tool names (e.g. 'browse_web') can be listed as well.
+export const TOOL_ALIASES: { [alias: string]: string[] } = {
+    CODE_INTERPRETER: ['readFile', 'writeFile', 'listFiles', 'executeShellCommand', 'data_analyze', 'data_visualize'],
+    FILE_SYSTEM: ['readFile', 'writeFile', 'listFiles'],
+    SHELL: ['executeShellCommand'],
+    GOOGLE_SEARCH_GROUNDING: ['browse_web'],
+    GOOGLE_SEARCH: ['browse_web'],
+    WEB_BROWSER: ['browse_web'],
+    GITHUB: ['github_create_repo', 'github_get_pr_details', 'github_post_pr_comment', 'github_merge_pr', 'github_create_file_in_repo'],
+    MEMORY: ['memory_save', 'memory_retrieve', 'memory_delete'],
+    DATA_ANALYSIS: ['data_analyze', 'data_visualize'],
+};
+
+// Every agent can save results, read upstream outputs and its own earlier observations, ask the user and request a new plan, whatever its tool set.
+const ALWAYS_AVAILABLE_TOOLS = ['createArtifact', 'readTaskOutput', 'viewObservation', 'askUser', 'request_replan'];
+const DELEGATION_TOOLS = ['delegate_to_agent', 'create_and_delegate_task_to_new_agent'];
+// Unknown entries are resolved on every step; warn about each one only once.
+const reportedUnknownTools = new Set<string>();
+
+/**
+ * Resolves the names of the tools an agent may call.
+ * Returns null when the agent is unrestricted: God Mode (no agent record) and agents
+ * without an `enabled_tools` list, such as spawned agents.
+ */
+export const resolveAllowedToolNames = (agent?: CustomAgent): string[] | null => {
+    if (!agent || !agent.enabled_tools || agent.enabled_tools.length === 0) return null;
+
+    const allowed = new Set(ALWAYS_AVAILABLE_TOOLS);
+    agent.enabled_tools.forEach(entry => {
+        const alias = TOOL_ALIASES[entry.trim().toUpperCase()];
+        if (alias) {
+            alias.forEach(name => allowed.add(name));
+        } else if (toolDeclarations.some(d => d.name === entry.trim())) {
+            allowed.add(entry.trim());
+        } else if (!reportedUnknownTools.has(`${agent.name}:${entry}`)) {
+            reportedUnknownTools.add(`${agent.name}:${entry}`);
+            console.warn(`Agent '${agent.name}' lists unknown tool '${entry}'. It will be ignored.`);
+        }
+    });
+    if (agent.delegation_enabled) {
+        DELEGATION_TOOLS.forEach(name => allowed.add(name));
+    }
+    return [...allowed];
+};
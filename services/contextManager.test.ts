@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { SubStep, Task } from '../types';
+import {
+    buildExecutionHistory,
+    compactExecutionHistory,
+    DEFAULT_CONTEXT_BUDGET,
+    estimateTokens,
+    planCompaction,
+    resolveContextBudget,
+    sliceObservation,
+    truncateObservation,
+} from './contextManager';
+import { initialModelProviders } from './agentRegistry';
+import { setLLMProviderOverride } from './llmProviders';
+import { createScriptedProvider } from './mockLLMProvider';
+
+const profile = initialModelProviders[0];
+const step = (observation: string, index = 0): SubStep => ({
+    thought: `Step ${index + 1}.`,
+    toolCall: { name: 'readFile', args: { path: `file-${index}.txt` } },
+    observation,
+});
+const task = { title: 'Read the logs', details: 'Find the error.', contextSummary: undefined } as Task;
+const noTokens = () => {};
+
+afterEach(() => {
+    setLLMProviderOverride(null);
+});
+
+describe('estimateTokens', () => {
+    it('counts about four ASCII characters per token and more for other scripts', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('a'.repeat(400))).toBe(100);
+        expect(estimateTokens('日本語'.repeat(10))).toBe(20);
+    });
+});
+
+describe('observation truncation', () => {
+    const log = Array.from({ length: 2000 }, (_, i) => `line ${i}`).join('\n');
+
+    it('keeps an observation within the limit as it is', () => {
+        expect(truncateObservation('short', 3, 100)).toBe('short');
+    });
+
+    it('keeps the start and end of a long observation and says how to read the rest', () => {
+        const truncated = truncateObservation(log, 3, 200);
+
+        expect(estimateTokens(truncated)).toBeLessThan(300);
+        expect(truncated.startsWith('line 0\n')).toBe(true);
+        expect(truncated.endsWith('line 1999')).toBe(true);
+        expect(truncated).toMatch(/Call viewObservation with step 3 and offset \d+ to read them/);
+    });
+
+    it('reads the omitted part back from the offset it names', () => {
+        const offset = Number(truncateObservation(log, 3, 200).match(/offset (\d+)/)![1]);
+        const slice = sliceObservation(log, 3, offset, 200);
+
+        expect(slice).toMatch(new RegExp(`^\\[Step 3 observation, characters ${offset}-\\d+ of ${log.length}; call viewObservation with step 3 and offset \\d+ for more\\]`));
+        expect(log.slice(offset).startsWith(slice.split('\n').slice(1).join('\n'))).toBe(true);
+        expect(sliceObservation(log, 3, log.length - 5, 200)).toContain('this is the end of the observation');
+    });
+});
+
+describe('per-profile budgets', () => {
+    it('uses the limits of the model profile and falls back to the defaults', () => {
+        expect(resolveContextBudget({ ...profile, contextBudget: { history_tokens: 3000, observation_tokens: 800 } })).toEqual({ historyTokens: 3000, observationTokens: 800 });
+        expect(resolveContextBudget({ ...profile, contextBudget: { history_tokens: 3000 } })).toEqual({ historyTokens: 3000, observationTokens: DEFAULT_CONTEXT_BUDGET.observationTokens });
+        expect(resolveContextBudget({ ...profile, contextBudget: undefined })).toEqual(DEFAULT_CONTEXT_BUDGET);
+    });
+
+    it('shortens observations in the history to the profile limit', () => {
+        const history = buildExecutionHistory([step('x'.repeat(4000))], undefined, { historyTokens: 10_000, observationTokens: 100 });
+
+        expect(history).toContain('Call viewObservation with step 1');
+        expect(estimateTokens(history)).toBeLessThan(200);
+    });
+});
+
+describe('rolling summaries', () => {
+    const budget = { historyTokens: 300, observationTokens: 100 };
+    const steps = Array.from({ length: 6 }, (_, i) => step('y'.repeat(300), i));
+
+    it('does not compact a history that fits the budget', () => {
+        expect(planCompaction(steps.slice(0, 2), undefined, budget)).toBeNull();
+    });
+
+    it('folds the oldest steps in until the rest fits half the budget, keeping the latest two', () => {
+        expect(planCompaction(steps, undefined, budget)).toBe(4);
+        expect(planCompaction(steps, undefined, { historyTokens: 10, observationTokens: 100 })).toBe(4);
+    });
+
+    it('puts the summary before the steps it does not cover', () => {
+        const history = buildExecutionHistory(steps, { text: 'Read four files.', stepCount: 4 }, budget);
+
+        expect(history.startsWith('Summary of steps 1-4:\nRead four files.\n\nStep 5:')).toBe(true);
+        expect(history).not.toContain('Step 4:');
+    });
+
+    it('summarizes the oldest steps with the model', async () => {
+        const provider = createScriptedProvider({ 'context-summary': ['Read files 0 to 3; no error yet.'] });
+        setLLMProviderOverride(provider);
+
+        const summary = await compactExecutionHistory(task, steps, { ...profile, contextBudget: { history_tokens: 300, observation_tokens: 100 } }, noTokens);
+
+        expect(summary).toEqual({ text: 'Read files 0 to 3; no error yet.', stepCount: 4 });
+        expect(provider.calls[0].request.messages[0].content).toContain('Write one updated summary of steps 1-4');
+    });
+
+    it('condenses the steps itself when the summary call fails', async () => {
+        setLLMProviderOverride(createScriptedProvider({}));
+
+        const summary = await compactExecutionHistory(task, steps, { ...profile, contextBudget: { history_tokens: 300, observation_tokens: 100 } }, noTokens);
+
+        expect(summary!.stepCount).toBe(4);
+        expect(summary!.text.split('\n')).toHaveLength(4);
+        expect(summary!.text).toMatch(/^Step 1: readFile -> y+… \[\d+ more characters omitted\]/);
+    });
+});
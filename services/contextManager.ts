@@ -0,0 +1,162 @@
+import type { ModelProviderConfig, SubStep, Task } from '../types';
+import { generateText, LLMCallOptions, TokenUpdateHandler } from './llmProviders';
+
+export interface ContextBudget {
+    // The most tokens a task's execution history may take in a next-step prompt.
+    historyTokens: number;
+    // The most tokens one observation may take before the middle of it is cut out.
+    observationTokens: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+    historyTokens: 12_000,
+    observationTokens: 2_000,
+};
+
+// The latest steps always stay in full, so the agent sees exactly what it just did.
+const RECENT_STEPS_KEPT = 2;
+// Compaction summarizes until the remaining steps fit in this share of the budget, so it does not run again on the very next step.
+const COMPACTED_HISTORY_SHARE = 0.5;
+// The share of the history budget the rolling summary may take.
+const SUMMARY_SHARE = 0.25;
+// A truncated observation keeps its start and, for errors at the end of command output, its tail.
+const TRUNCATED_HEAD_SHARE = 2 / 3;
+
+type ContextSummary = NonNullable<Task['contextSummary']>;
+
+export const resolveContextBudget = (profile: ModelProviderConfig): ContextBudget => ({
+    historyTokens: profile.contextBudget?.history_tokens || DEFAULT_CONTEXT_BUDGET.historyTokens,
+    observationTokens: profile.contextBudget?.observation_tokens || DEFAULT_CONTEXT_BUDGET.observationTokens,
+});
+
+/**
+ * Estimates the number of tokens in a text. Tokenizers differ between models, so this is a
+ * heuristic: about four characters per token for ASCII, and fewer for other scripts.
+ */
+export const estimateTokens = (text: string): number => {
+    let nonAscii = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) > 127) nonAscii++;
+    }
+    return Math.ceil((text.length - nonAscii) / 4 + nonAscii / 1.5);
+};
+
+// How many characters of this text make up about `tokens` tokens.
+const charsForTokens = (text: string, tokens: number) =>
+    Math.max(1, Math.floor(tokens * text.length / Math.max(1, estimateTokens(text))));
+
+const truncateText = (text: string, maxTokens: number): string => {
+    if (estimateTokens(text) <= maxTokens) return text;
+    const keep = charsForTokens(text, maxTokens);
+    return `${text.slice(0, keep)}… [${text.length - keep} more characters omitted]`;
+};
+
+/**
+ * Shortens an observation that is over the token limit to its start and end. The note in between
+ * tells the agent how to read the omitted part with `viewObservation`.
+ */
+export const truncateObservation = (observation: string, stepNumber: number, maxTokens: number): string => {
+    if (estimateTokens(observation) <= maxTokens) return observation;
+    const keep = charsForTokens(observation, maxTokens);
+    const headEnd = Math.floor(keep * TRUNCATED_HEAD_SHARE);
+    const tailStart = observation.length - (keep - headEnd);
+    return `${observation.slice(0, headEnd)}
+[... characters ${headEnd}-${tailStart} of ${observation.length} omitted (about ${estimateTokens(observation)} tokens in total). Call viewObservation with step ${stepNumber} and offset ${headEnd} to read them ...]
+${observation.slice(tailStart)}`;
+};
+
+/** Returns the part of an observation starting at `offset` that fits in the observation limit, for `viewObservation`. */
+export const sliceObservation = (observation: string, stepNumber: number, offset: number, maxTokens: number): string => {
+    const start = Math.min(Math.max(0, Math.floor(offset)), observation.length);
+    // Leaves room for the header, so the slice is not truncated again in the history.
+    const end = Math.min(observation.length, start + charsForTokens(observation, maxTokens * 0.9));
+    const next = end < observation.length
+        ? `call viewObservation with step ${stepNumber} and offset ${end} for more`
+        : 'this is the end of the observation';
+    return `[Step ${stepNumber} observation, characters ${start}-${end} of ${observation.length}; ${next}]\n${observation.slice(start, end)}`;
+};
+
+export const formatStep = (step: SubStep, index: number, budget: ContextBudget): string =>
+    `Step ${index + 1}:
+Thought: ${step.thought}
+Action: ${truncateText(JSON.stringify(step.toolCall), budget.observationTokens)}
+Observation: ${truncateObservation(step.observation, index + 1, budget.observationTokens)}`;
+
+/** The execution history for a next-step prompt: the rolling summary, then the steps after it. */
+export const buildExecutionHistory = (subSteps: SubStep[], summary: Task['contextSummary'], budget: ContextBudget): string => {
+    const start = summary?.stepCount || 0;
+    const parts = subSteps.slice(start).map((step, i) => formatStep(step, start + i, budget));
+    if (summary && start > 0) {
+        parts.unshift(`Summary of steps 1-${start}:\n${summary.text}`);
+    }
+    return parts.join('\n\n');
+};
+
+/**
+ * Decides how many steps the rolling summary should cover. Returns null while the history fits
+ * the budget; otherwise the oldest steps are folded in until the rest fits half of it.
+ */
+export const planCompaction = (subSteps: SubStep[], summary: Task['contextSummary'], budget: ContextBudget): number | null => {
+    const start = summary?.stepCount || 0;
+    const stepTokens = subSteps.map((step, i) => (i >= start ? estimateTokens(formatStep(step, i, budget)) : 0));
+    let remaining = stepTokens.reduce((sum, tokens) => sum + tokens, 0);
+    if ((summary ? estimateTokens(summary.text) : 0) + remaining <= budget.historyTokens) return null;
+
+    let end = start;
+    while (end < subSteps.length - RECENT_STEPS_KEPT && remaining > budget.historyTokens * COMPACTED_HISTORY_SHARE) {
+        remaining -= stepTokens[end];
+        end++;
+    }
+    return end > start ? end : null;
+};
+
+// Used when the summary call fails: one line per step keeps the history bounded without a model.
+const condenseSteps = (previous: Task['contextSummary'], subSteps: SubStep[], start: number): string => [
+    previous?.text,
+    ...subSteps.map((step, i) => `Step ${start + i + 1}: ${step.toolCall.name} -> ${truncateText(step.observation.replace(/\s+/g, ' '), 30)}`),
+].filter(Boolean).join('\n');
+
+/**
+ * Folds the oldest sub-steps into the task's rolling summary when its execution history is over
+ * the profile's context budget. Returns the new summary, or null when nothing needed compacting.
+ */
+export const compactExecutionHistory = async (
+    task: Task,
+    subSteps: SubStep[],
+    profile: ModelProviderConfig,
+    onTokenUpdate: TokenUpdateHandler,
+    callOptions: LLMCallOptions = {}
+): Promise<ContextSummary | null> => {
+    const budget = resolveContextBudget(profile);
+    const stepCount = planCompaction(subSteps, task.contextSummary, budget);
+    if (stepCount === null) return null;
+
+    const start = task.contextSummary?.stepCount || 0;
+    const steps = subSteps.slice(start, stepCount);
+    const maxWords = Math.round(budget.historyTokens * SUMMARY_SHARE * 0.75);
+    const prompt = `
+You are compressing the execution history of an autonomous agent so that it fits in its context window.
+The agent's objective: "${task.title} - ${task.details}"
+${task.contextSummary ? `\nSummary of steps 1-${start}:\n${task.contextSummary.text}\n` : ''}
+Steps to add to the summary:
+${steps.map((step, i) => formatStep(step, start + i, budget)).join('\n\n')}
+
+Write one updated summary of steps 1-${stepCount} in at most ${maxWords} words.
+Keep what the agent will need later: file paths, commands and their results, values found, errors hit, decisions made and what is left to do.
+Mention the step number of any observation the agent may want to read again in full with viewObservation.
+Do not add anything that is not in the history.
+`;
+
+    try {
+        const text = await generateText({
+            purpose: 'context-summary',
+            messages: [{ role: 'user', content: prompt }],
+            ...callOptions,
+        }, profile, onTokenUpdate);
+        return { text: text.trim(), stepCount };
+    } catch (error) {
+        if (callOptions.signal?.aborted) throw error;
+        console.error("Failed to summarize the execution history, condensing it instead", error);
+        return { text: condenseSteps(task.contextSummary, steps, start), stepCount };
+    }
+};
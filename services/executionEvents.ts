@@ -0,0 +1,261 @@
+import type { ArtifactType, TaskStatus } from '../types';
+import type { LLMCallEvent } from './llmProviders';
+
+export type RunOutcome = 'finished' | 'failed' | 'stopped' | 'incomplete';
+
+/** What an event is about. Events that belong to a task also carry its ID and agent. */
+export type ExecutionEventPayload =
+    | { type: 'run-started'; prompt: string; taskCount: number; resumed: boolean }
+    | { type: 'run-finished'; outcome: RunOutcome; message?: string }
+    | { type: 'task-status-changed'; taskTitle: string; from: TaskStatus; to: TaskStatus }
+    | LLMCallEvent
+    | { type: 'tool-call-started'; callId: string; toolName: string; args: { [key: string]: any } }
+    | { type: 'tool-call-finished'; callId: string; toolName: string; latencyMs: number; error?: string }
+    | { type: 'artifact-created'; artifactId: string; title: string; artifactType: ArtifactType }
+    | { type: 'task-delegated'; subTaskId: string; delegateAgent: string; spawnedAgent: boolean }
+    | { type: 'plan-revised'; revision: number; removedTaskIds: string[]; addedTaskIds: string[] };
+
+export type ExecutionEvent = ExecutionEventPayload & {
+    runId: string;
+    // Orders events within a run, also when their timestamps are equal.
+    seq: number;
+    timestamp: string;
+    taskId?: string;
+    agentName?: string;
+};
+
+export interface ExecutionEventSink {
+    handle: (event: ExecutionEvent) => void;
+}
+
+/** Serializes events as JSON Lines, one event per line. */
+export const toJsonl = (events: ExecutionEvent[]): string =>
+    events.map(event => JSON.stringify(event)).join('\n') + (events.length > 0 ? '\n' : '');
+
+// --- OpenTelemetry mapping (OTLP/JSON) ---
+
+type OtlpValue = { stringValue: string } | { intValue: number } | { doubleValue: number } | { boolValue: boolean };
+
+export interface OtlpAttribute {
+    key: string;
+    value: OtlpValue;
+}
+
+export interface OtlpSpan {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    // 1 is SPAN_KIND_INTERNAL, 3 is SPAN_KIND_CLIENT.
+    kind: 1 | 3;
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: OtlpAttribute[];
+    events: { timeUnixNano: string; name: string; attributes: OtlpAttribute[] }[];
+    // 1 is STATUS_CODE_OK, 2 is STATUS_CODE_ERROR.
+    status: { code: 1 | 2; message?: string };
+}
+
+export interface OtlpTrace {
+    resourceSpans: {
+        resource: { attributes: OtlpAttribute[] };
+        scopeSpans: { scope: { name: string }; spans: OtlpSpan[] }[];
+    }[];
+}
+
+const TERMINAL_TASK_STATUSES: TaskStatus[] = ['Done', 'Error', 'Cancelled'];
+
+const toAttributes = (values: { [key: string]: string | number | boolean | undefined }): OtlpAttribute[] =>
+    Object.entries(values)
+        .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+        .map(([key, value]) => ({
+            key,
+            value: typeof value === 'string' ? { stringValue: value }
+                : typeof value === 'boolean' ? { boolValue: value }
+                : Number.isInteger(value) ? { intValue: value }
+                : { doubleValue: value },
+        }));
+
+const toUnixNano = (timestamp: string) => `${Date.parse(timestamp)}000000`;
+
+// Trace and span IDs are derived from the run and event IDs, so exporting the same run twice yields the same trace.
+const hashToHex = (seed: string, length: number): string => {
+    let hex = '';
+    for (let round = 0; hex.length < length; round++) {
+        let hash = 0x811c9dc5 ^ round;
+        for (let i = 0; i < seed.length; i++) {
+            hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+        }
+        hex += (hash >>> 0).toString(16).padStart(8, '0');
+    }
+    return hex.slice(0, length);
+};
+
+/**
+ * Maps a run's events to OpenTelemetry spans: one span for the run, one per task from its first
+ * execution to its final status (under its delegator, if any), and one per model and tool call
+ * under the task that made it.
+ * Artifacts, delegations and plan revisions become span events. Model calls follow the GenAI
+ * semantic conventions (`gen_ai.*` attributes).
+ */
+export const toOtelTrace = (events: ExecutionEvent[], serviceName = 'echo'): OtlpTrace => {
+    const sorted = [...events].sort((a, b) => a.seq - b.seq);
+    const spans: OtlpSpan[] = [];
+    if (sorted.length === 0) {
+        return { resourceSpans: [{ resource: { attributes: toAttributes({ 'service.name': serviceName }) }, scopeSpans: [{ scope: { name: 'echo.agent-executor' }, spans }] }] };
+    }
+
+    const runId = sorted[0].runId;
+    const traceId = hashToHex(runId, 32);
+    const spanId = (key: string) => hashToHex(`${runId}:${key}`, 16);
+    const lastTimestamp = sorted[sorted.length - 1].timestamp;
+
+    const started = sorted.find(e => e.type === 'run-started');
+    const finished = sorted.find(e => e.type === 'run-finished');
+    const runSpanId = spanId('run');
+    const runSpan: OtlpSpan = {
+        traceId,
+        spanId: runSpanId,
+        name: 'echo.run',
+        kind: 1,
+        startTimeUnixNano: toUnixNano(sorted[0].timestamp),
+        endTimeUnixNano: toUnixNano(finished?.timestamp || lastTimestamp),
+        attributes: toAttributes({
+            'echo.run.id': runId,
+            'echo.run.prompt': started?.type === 'run-started' ? started.prompt : undefined,
+            'echo.run.resumed': started?.type === 'run-started' ? started.resumed : undefined,
+            'echo.run.outcome': finished?.type === 'run-finished' ? finished.outcome : undefined,
+        }),
+        events: [],
+        status: finished?.type === 'run-finished' && finished.outcome === 'failed'
+            ? { code: 2, message: finished.message }
+            : { code: 1 },
+    };
+    spans.push(runSpan);
+
+    const taskSpans = new Map<string, OtlpSpan>();
+    const parentOf = (event: ExecutionEvent) => (event.taskId && taskSpans.get(event.taskId)) || runSpan;
+    const openCalls = new Map<string, ExecutionEvent>();
+    // Delegated sub-tasks nest under the task that delegated them.
+    const delegators = new Map<string, string>();
+
+    sorted.forEach(event => {
+        switch (event.type) {
+            case 'task-status-changed': {
+                let span = event.taskId ? taskSpans.get(event.taskId) : undefined;
+                if (!span && event.taskId && event.to === 'Executing') {
+                    span = {
+                        traceId,
+                        spanId: spanId(`task:${event.taskId}`),
+                        parentSpanId: taskSpans.get(delegators.get(event.taskId) || '')?.spanId || runSpanId,
+                        name: `task ${event.taskTitle}`,
+                        kind: 1,
+                        startTimeUnixNano: toUnixNano(event.timestamp),
+                        endTimeUnixNano: toUnixNano(lastTimestamp),
+                        attributes: toAttributes({ 'echo.task.id': event.taskId, 'echo.task.title': event.taskTitle, 'gen_ai.agent.name': event.agentName }),
+                        events: [],
+                        status: { code: 1 },
+                    };
+                    taskSpans.set(event.taskId, span);
+                    spans.push(span);
+                }
+                if (!span) return;
+                span.events.push({ timeUnixNano: toUnixNano(event.timestamp), name: 'status', attributes: toAttributes({ 'echo.task.status': event.to }) });
+                if (TERMINAL_TASK_STATUSES.includes(event.to)) {
+                    span.endTimeUnixNano = toUnixNano(event.timestamp);
+                    span.attributes = [...span.attributes.filter(a => a.key !== 'echo.task.status'), ...toAttributes({ 'echo.task.status': event.to })];
+                    span.status = event.to === 'Error' ? { code: 2, message: 'Task failed.' } : { code: 1 };
+                }
+                return;
+            }
+            case 'llm-request':
+            case 'tool-call-started':
+                openCalls.set(event.callId, event);
+                return;
+            case 'llm-response': {
+                const request = openCalls.get(event.callId);
+                openCalls.delete(event.callId);
+                spans.push({
+                    traceId,
+                    spanId: spanId(event.callId),
+                    parentSpanId: parentOf(event).spanId,
+                    name: `chat ${event.model}`,
+                    kind: 3,
+                    startTimeUnixNano: toUnixNano(request?.timestamp || event.timestamp),
+                    endTimeUnixNano: toUnixNano(event.timestamp),
+                    attributes: toAttributes({
+                        'gen_ai.operation.name': 'chat',
+                        'gen_ai.request.model': event.model,
+                        'gen_ai.agent.name': event.agentName,
+                        'gen_ai.usage.input_tokens': event.promptTokens,
+                        'gen_ai.usage.output_tokens': event.completionTokens,
+                        'echo.llm.purpose': event.purpose,
+                        'echo.llm.profile_id': event.profileId,
+                        'echo.llm.total_tokens': event.totalTokens,
+                        'echo.llm.cost_usd': event.cost,
+                    }),
+                    events: [],
+                    status: event.error ? { code: 2, message: event.error } : { code: 1 },
+                });
+                return;
+            }
+            case 'tool-call-finished': {
+                const start = openCalls.get(event.callId);
+                openCalls.delete(event.callId);
+                spans.push({
+                    traceId,
+                    spanId: spanId(event.callId),
+                    parentSpanId: parentOf(event).spanId,
+                    name: `execute_tool ${event.toolName}`,
+                    kind: 1,
+                    startTimeUnixNano: toUnixNano(start?.timestamp || event.timestamp),
+                    endTimeUnixNano: toUnixNano(event.timestamp),
+                    attributes: toAttributes({
+                        'gen_ai.operation.name': 'execute_tool',
+                        'gen_ai.tool.name': event.toolName,
+                        'gen_ai.agent.name': event.agentName,
+                        'echo.tool.args': start?.type === 'tool-call-started' ? JSON.stringify(start.args) : undefined,
+                    }),
+                    events: [],
+                    status: event.error ? { code: 2, message: event.error } : { code: 1 },
+                });
+                return;
+            }
+            case 'artifact-created':
+                parentOf(event).events.push({ timeUnixNano: toUnixNano(event.timestamp), name: 'artifact.created', attributes: toAttributes({ 'echo.artifact.id': event.artifactId, 'echo.artifact.title': event.title, 'echo.artifact.type': event.artifactType }) });
+                return;
+            case 'task-delegated':
+                if (event.taskId) delegators.set(event.subTaskId, event.taskId);
+                parentOf(event).events.push({ timeUnixNano: toUnixNano(event.timestamp), name: 'task.delegated', attributes: toAttributes({ 'echo.task.sub_task_id': event.subTaskId, 'echo.delegate.agent': event.delegateAgent, 'echo.delegate.spawned': event.spawnedAgent }) });
+                return;
+            case 'plan-revised':
+                runSpan.events.push({ timeUnixNano: toUnixNano(event.timestamp), name: 'plan.revised', attributes: toAttributes({ 'echo.plan.revision': event.revision, 'echo.plan.removed_tasks': event.removedTaskIds.join(','), 'echo.plan.added_tasks': event.addedTaskIds.join(',') }) });
+                return;
+        }
+    });
+
+    return {
+        resourceSpans: [{
+            resource: { attributes: toAttributes({ 'service.name': serviceName }) },
+            scopeSpans: [{ scope: { name: 'echo.agent-executor' }, spans }],
+        }],
+    };
+};
+
+/**
+ * An AgentOps-style sink: buffers each run's events and, when the run ends, hands its
+ * OpenTelemetry trace to `exportTrace`. Export failures are logged and never affect the run.
+ */
+export const createAgentOpsSink = (exportTrace: (trace: OtlpTrace) => Promise<unknown>): ExecutionEventSink => {
+    const buffers = new Map<string, ExecutionEvent[]>();
+    return {
+        handle: (event) => {
+            const buffer = buffers.get(event.runId) || [];
+            buffer.push(event);
+            buffers.set(event.runId, buffer);
+            if (event.type !== 'run-finished') return;
+            buffers.delete(event.runId);
+            exportTrace(toOtelTrace(buffer)).catch(error => console.error("Failed to export the run trace to AgentOps", error));
+        },
+    };
+};
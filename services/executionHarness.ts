@@ -0,0 +1,99 @@
+import type { Artifact, CustomAgent, LiveOutput, LogEntry, Task, RunCheckpoint, ApprovalDecision, PlanRevision } from '../types';
+import { AgentExecutor } from './agentExecutor';
+import { setLLMProviderOverride } from './llmProviders';
+import { createScriptedProvider, LLMScript, ScriptedProvider } from './mockLLMProvider';
+import { createFakeToolBackend, FakeToolBackend, FakeToolBackendOptions } from './fakeToolBackend';
+import { DEFAULT_EXECUTION_SETTINGS, ExecutionSettings } from './executionSettings';
+import type { ExecutionEvent } from './executionEvents';
+
+export interface ScriptedRunOptions {
+    tasks: Task[];
+    script: LLMScript;
+    prompt?: string;
+    artifacts?: Artifact[];
+    toolBackend?: FakeToolBackendOptions;
+    resumeFrom?: RunCheckpoint;
+    // Called once the executor exists, e.g. to cancel a task or stop the run mid-flight.
+    onStarted?: (executor: AgentExecutor) => void;
+    // Answers tool calls that need approval, possibly after a while. Every call is approved as proposed by default.
+    decideApproval?: (task: Task) => ApprovalDecision | Promise<ApprovalDecision>;
+    // Answers askUser questions, possibly after a while. By default the user gives no answer.
+    answerQuestion?: (task: Task) => string | Promise<string>;
+    // Budgets and limits to enforce. By default the built-in defaults apply, regardless of saved settings.
+    settings?: ExecutionSettings;
+    // Base delay before a retry. Retries are immediate by default.
+    retryDelayMs?: number;
+}
+
+export interface ScriptedRunResult {
+    // 'incomplete' means neither onFinish nor onFail fired, e.g. the run was stopped.
+    outcome: 'finished' | 'failed' | 'incomplete';
+    failureMessage?: string;
+    tasks: Task[];
+    logs: Omit<LogEntry, 'timestamp'>[];
+    // Every update of streamed model output, in order.
+    liveOutputs: LiveOutput[];
+    artifacts: Artifact[];
+    createdAgents: CustomAgent[];
+    planRevisions: PlanRevision[];
+    events: ExecutionEvent[];
+    tokensUsed: number;
+    provider: ScriptedProvider;
+    backend: FakeToolBackend;
+}
+
+/**
+ * Runs tasks through a real AgentExecutor with scripted model replies and a fake tool backend,
+ * without network access, and collects everything the executor reported.
+ */
+export const runScriptedExecution = async (options: ScriptedRunOptions): Promise<ScriptedRunResult> => {
+    const provider = createScriptedProvider(options.script);
+    const backend = createFakeToolBackend(options.toolBackend);
+
+    let tasks = options.tasks;
+    const logs: Omit<LogEntry, 'timestamp'>[] = [];
+    const liveOutputs: LiveOutput[] = [];
+    const artifacts: Artifact[] = [...(options.artifacts || [])];
+    const createdAgents: CustomAgent[] = [];
+    const planRevisions: PlanRevision[] = [];
+    const events: ExecutionEvent[] = [];
+    let tokensUsed = 0;
+    let outcome: ScriptedRunResult['outcome'] = 'incomplete';
+    let failureMessage: string | undefined;
+
+    const executor = new AgentExecutor({
+        onTaskUpdate: (task) => {
+            tasks = tasks.map(t => t.id === task.id ? task : t);
+            if (task.status === 'Awaiting Approval') {
+                const decision = options.decideApproval ? options.decideApproval(task) : { action: 'approve' as const };
+                Promise.resolve(decision).then(resolved => executor.resolveApproval(task.id, resolved));
+            }
+            if (task.status === 'Awaiting Input') {
+                const answer = options.answerQuestion ? options.answerQuestion(task) : '';
+                Promise.resolve(answer).then(resolved => executor.answerQuestion(task.id, resolved));
+            }
+        },
+        onTasksUpdate: (updated) => { tasks = updated; },
+        onLog: (log) => { logs.push(log); },
+        onLiveOutput: (output) => { liveOutputs.push(output); },
+        onLiveOutputEnd: () => {},
+        onTokenUpdate: (count) => { tokensUsed += count; },
+        onArtifactCreated: (artifact) => { artifacts.push(artifact); },
+        onAgentCreated: (agent) => { createdAgents.push(agent); },
+        onAgentsRemoved: () => {},
+        onPlanRevised: (revision) => { planRevisions.push(revision); },
+        onEvent: (event) => { events.push(event); },
+        onFinish: () => { outcome = 'finished'; },
+        onFail: (message) => { outcome = 'failed'; failureMessage = message; },
+    }, { tools: backend.tools, retryDelayMs: options.retryDelayMs ?? 0, settings: options.settings || DEFAULT_EXECUTION_SETTINGS });
+
+    setLLMProviderOverride(provider);
+    try {
+        options.onStarted?.(executor);
+        await executor.run(options.tasks, options.prompt || 'Scripted run', options.artifacts || [], options.resumeFrom);
+    } finally {
+        setLLMProviderOverride(null);
+    }
+
+    return { outcome, failureMessage, tasks, logs, liveOutputs, artifacts, createdAgents, planRevisions, events, tokensUsed, provider, backend };
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { describeBudgetOverrun } from './executionSettings';
+
+describe('describeBudgetOverrun', () => {
+    it('allows any usage without limits', () => {
+        expect(describeBudgetOverrun({ tokens: 1_000_000, cost: 100 }, {})).toBeNull();
+    });
+
+    it('reports the token cap once it is reached', () => {
+        expect(describeBudgetOverrun({ tokens: 999, cost: 0 }, { maxTokens: 1000 })).toBeNull();
+        expect(describeBudgetOverrun({ tokens: 1000, cost: 0 }, { maxTokens: 1000 })).toBe('used 1,000 of 1,000 tokens');
+    });
+
+    it('reports the cost cap once it is reached', () => {
+        expect(describeBudgetOverrun({ tokens: 10, cost: 0.4999 }, { maxCost: 0.5 })).toBeNull();
+        expect(describeBudgetOverrun({ tokens: 10, cost: 0.5123 }, { maxCost: 0.5 })).toBe('spent $0.5123 of $0.50');
+    });
+
+    it('reports the token cap first when both are exceeded', () => {
+        expect(describeBudgetOverrun({ tokens: 2000, cost: 1 }, { maxTokens: 1000, maxCost: 0.5 })).toBe('used 2,000 of 1,000 tokens');
+    });
+});
@@ -0,0 +1,71 @@
+import type { UsageTotals } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'echo-execution-settings';
+
+// An unset limit means no limit.
+export interface UsageBudget {
+    maxTokens?: number;
+    maxCost?: number;
+}
+
+export type BudgetScope = 'runBudget' | 'taskBudget' | 'agentBudget';
+
+export interface ExecutionSettings {
+    runBudget: UsageBudget;
+    taskBudget: UsageBudget;
+    agentBudget: UsageBudget;
+    // How many levels deep delegated tasks may nest, and how many sub-tasks one task may delegate.
+    maxDelegationDepth: number;
+    maxDelegationFanOut: number;
+    // How many times the planner may revise a run's remaining tasks. 0 disables replanning.
+    maxReplans: number;
+    // Wall-clock limits for one attempt at a task and for one tool call, in seconds. A task's own
+    // `timeoutSeconds` takes precedence; 0 or an unset limit means no limit.
+    taskTimeoutSeconds?: number;
+    toolTimeoutSeconds?: number;
+}
+
+export const DEFAULT_EXECUTION_SETTINGS: ExecutionSettings = {
+    runBudget: {},
+    taskBudget: {},
+    agentBudget: {},
+    maxDelegationDepth: 3,
+    maxDelegationFanOut: 5,
+    maxReplans: 2,
+    toolTimeoutSeconds: 120,
+};
+
+export const loadExecutionSettings = (): ExecutionSettings => {
+    if (typeof localStorage === 'undefined') return DEFAULT_EXECUTION_SETTINGS;
+    try {
+        const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (saved) {
+            return { ...DEFAULT_EXECUTION_SETTINGS, ...JSON.parse(saved) };
+        }
+    } catch (error) {
+        console.error("Failed to parse execution settings from localStorage", error);
+    }
+    return DEFAULT_EXECUTION_SETTINGS;
+};
+
+export const saveExecutionSettings = (settings: ExecutionSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Failed to save execution settings to localStorage", error);
+    }
+};
+
+/**
+ * Checks usage against a budget.
+ * @returns A description of the exceeded limit, or null while the usage is within budget.
+ */
+export const describeBudgetOverrun = (usage: UsageTotals, budget: UsageBudget): string | null => {
+    if (budget.maxTokens && usage.tokens >= budget.maxTokens) {
+        return `used ${usage.tokens.toLocaleString()} of ${budget.maxTokens.toLocaleString()} tokens`;
+    }
+    if (budget.maxCost && usage.cost >= budget.maxCost) {
+        return `spent $${usage.cost.toFixed(4)} of $${budget.maxCost.toFixed(2)}`;
+    }
+    return null;
+};
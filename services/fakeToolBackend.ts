@@ -0,0 +1,93 @@
+import type { ToolCallOptions, ToolRegistry } from './tools';
+
+export interface FakeToolCall {
+    name: string;
+    args: { [key: string]: any };
+    result?: unknown;
+    error?: string;
+}
+
+export interface FakeToolBackendOptions {
+    // Initial sandbox files, keyed by path.
+    files?: { [path: string]: string };
+    // Extra or overriding tool implementations, e.g. a scripted browse_web.
+    handlers?: ToolRegistry;
+    // Makes the next N calls of a tool throw before it starts succeeding, to exercise retries.
+    failures?: { [toolName: string]: number };
+    // Canned output for shell commands, matched by exact command or by prefix.
+    shellOutputs?: { [command: string]: string };
+}
+
+export interface FakeToolBackend {
+    tools: ToolRegistry;
+    files: Map<string, string>;
+    calls: FakeToolCall[];
+}
+
+const normalizePath = (path: string) => path.replace(/^\.\//, '').replace(/\/+$/, '') || '.';
+
+/**
+ * An in-memory stand-in for the execution engine: a fake file system, canned shell output and
+ * injectable failures. Pass `tools` to `new AgentExecutor(callbacks, { tools })` to run plans offline.
+ */
+export const createFakeToolBackend = (options: FakeToolBackendOptions = {}): FakeToolBackend => {
+    const files = new Map<string, string>(
+        Object.entries(options.files || {}).map(([path, content]) => [normalizePath(path), content])
+    );
+    const failuresLeft = { ...(options.failures || {}) };
+    const calls: FakeToolCall[] = [];
+
+    const builtins: ToolRegistry = {
+        readFile: async (args: { path: string }) => {
+            const content = files.get(normalizePath(args.path));
+            if (content === undefined) throw new Error(`File not found: ${args.path}`);
+            return content;
+        },
+        writeFile: async (args: { path: string; content: string }) => {
+            files.set(normalizePath(args.path), args.content);
+            return `Wrote ${args.content.length} characters to ${args.path}.`;
+        },
+        listFiles: async (args: { path: string }) => {
+            const dir = normalizePath(args.path);
+            const prefix = dir === '.' ? '' : `${dir}/`;
+            const entries = new Set<string>();
+            files.forEach((_, path) => {
+                if (path.startsWith(prefix)) entries.add(path.slice(prefix.length).split('/')[0]);
+            });
+            return Array.from(entries).sort();
+        },
+        executeShellCommand: async (args: { command: string }) => {
+            const outputs = options.shellOutputs || {};
+            if (outputs[args.command] !== undefined) return outputs[args.command];
+            const prefix = Object.keys(outputs).find(key => args.command.startsWith(key));
+            return prefix ? outputs[prefix] : '';
+        },
+        executeCode: async (args: { language: string; code: string }) => {
+            return `Executed ${args.code.length} characters of ${args.language}.`;
+        },
+    };
+
+    const implementations: ToolRegistry = { ...builtins, ...(options.handlers || {}) };
+    const tools: ToolRegistry = {};
+
+    Object.entries(implementations).forEach(([name, implementation]) => {
+        tools[name] = async (args: { [key: string]: any }, callOptions?: ToolCallOptions) => {
+            const call: FakeToolCall = { name, args };
+            calls.push(call);
+            if (failuresLeft[name] > 0) {
+                failuresLeft[name] -= 1;
+                call.error = `Simulated failure of '${name}'.`;
+                throw new Error(call.error);
+            }
+            try {
+                call.result = await implementation(args, callOptions);
+                return call.result;
+            } catch (error) {
+                call.error = error instanceof Error ? error.message : String(error);
+                throw error;
+            }
+        };
+    });
+
+    return { tools, files, calls };
+};
@@ -0,0 +1,481 @@
+import { GoogleGenAI, FunctionDeclaration, GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { ModelProviderConfig, ToolCall, TokenUsage } from '../types';
+import { toJsonSchema } from './toolSchema';
+import { PermanentError, RequestError, runWithTimeout } from './retryPolicy';
+
+export type LLMPurpose =
+    | 'intent-analysis'
+    | 'prompt-refinement'
+    | 'planning'
+    | 'replanning'
+    | 'next-step'
+    | 'review'
+    | 'chat'
+    | 'playbook-naming'
+    | 'playbook-parameters'
+    | 'context-summary';
+
+export interface LLMMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface LLMRequest {
+    purpose: LLMPurpose;
+    system?: string;
+    messages: LLMMessage[];
+    responseFormat?: 'text' | 'json';
+    // A schema built with the @google/genai `Type` enum. Adapters without native schema support receive it as prompt text.
+    responseSchema?: object;
+    temperature?: number;
+    // Functions the model may call natively instead of answering with text.
+    tools?: FunctionDeclaration[];
+    // Aborts the call, e.g. when its task times out or is cancelled.
+    signal?: AbortSignal;
+    // Observes the call as it starts and completes, e.g. to trace it.
+    onCallEvent?: (event: LLMCallEvent) => void;
+    // Receives the response text as it is generated. Setting it makes adapters stream the response.
+    onTextDelta?: (delta: string) => void;
+}
+
+// Per-call options that callers thread through to the requests they make on a task's behalf.
+export type LLMCallOptions = Pick<LLMRequest, 'signal' | 'onCallEvent' | 'onTextDelta'>;
+
+interface LLMCallInfo {
+    callId: string;
+    purpose: LLMPurpose;
+    profileId: string;
+    model: string;
+}
+
+export type LLMCallEvent =
+    | ({ type: 'llm-request' } & LLMCallInfo)
+    | ({
+        type: 'llm-response';
+        latencyMs: number;
+        totalTokens: number;
+        promptTokens?: number;
+        completionTokens?: number;
+        cost: number;
+        // Set when the call failed or was aborted.
+        error?: string;
+    } & LLMCallInfo);
+
+export interface LLMResponse {
+    text: string;
+    totalTokens?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    functionCalls?: ToolCall[];
+}
+
+export type TokenUpdateHandler = (count: number, usage?: TokenUsage) => void;
+
+export interface LLMProvider {
+    generate: (request: LLMRequest, profile: ModelProviderConfig) => Promise<LLMResponse>;
+}
+
+// Keys are injected at build time for the built-in profiles and the variables listed in LLM_API_KEY_VARS (see vite.config.ts).
+const apiKeys: { [envVar: string]: string | undefined } = (() => {
+    try {
+        return JSON.parse(process.env.LLM_API_KEYS || '{}');
+    } catch {
+        return {};
+    }
+})();
+
+const getApiKey = (profile: ModelProviderConfig): string | undefined => {
+    if (profile.config.api_key_env_var) {
+        return apiKeys[profile.config.api_key_env_var];
+    }
+    return undefined;
+};
+
+const withSchemaInstructions = (request: LLMRequest): string | undefined => {
+    if (request.responseFormat !== 'json') return request.system;
+    const schemaHint = request.responseSchema
+        ? `\n\nRespond ONLY with a JSON value that matches this schema:\n${JSON.stringify(request.responseSchema)}`
+        : '\n\nRespond ONLY with a valid JSON value.';
+    return `${request.system || ''}${schemaHint}`.trim();
+};
+
+const toOpenAiTools = (tools: FunctionDeclaration[]) => tools.map(tool => ({
+    type: 'function',
+    function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: toJsonSchema(tool.parameters as object | undefined),
+    },
+}));
+
+// A tool call as returned by an OpenAI-compatible chat completion. Arguments are a JSON string; streamed calls
+// arrive in fragments that carry the index of the call they belong to.
+interface OpenAiToolCall {
+    index?: number;
+    function?: { name?: string; arguments?: string };
+}
+
+// Ollama returns tool call arguments as an object rather than a JSON string.
+interface OllamaToolCall {
+    function?: { name?: string; arguments?: unknown };
+}
+
+const parseToolArguments = (args: unknown): { [key: string]: any } => {
+    if (typeof args !== 'string') return (args as { [key: string]: any }) || {};
+    try {
+        return JSON.parse(args);
+    } catch {
+        // Returned as-is so that argument validation reports the malformed call.
+        return { __unparsed_arguments: args };
+    }
+};
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+    try {
+        const body = await response.json();
+        return body.error?.message || body.error || response.statusText;
+    } catch {
+        return response.statusText;
+    }
+};
+
+/** Yields the lines of a streamed response body as they arrive, e.g. NDJSON objects or server-sent events. */
+async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+            if (line.trim()) yield line;
+        }
+    }
+    buffered += decoder.decode();
+    if (buffered.trim()) yield buffered;
+}
+
+// --- Adapters ---
+
+const geminiClients = new Map<string, GoogleGenAI>();
+
+const geminiProvider: LLMProvider = {
+    generate: async (request, profile) => {
+        const apiKey = getApiKey(profile) || process.env.API_KEY;
+        const cacheKey = apiKey || '';
+        if (!geminiClients.has(cacheKey)) {
+            geminiClients.set(cacheKey, new GoogleGenAI({ apiKey }));
+        }
+        const ai = geminiClients.get(cacheKey)!;
+
+        const params = {
+            model: profile.config.model_name,
+            contents: request.messages.map(m => ({
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: m.content }],
+            })),
+            config: {
+                systemInstruction: request.system,
+                temperature: request.temperature,
+                ...(request.responseFormat === 'json' ? { responseMimeType: "application/json" } : {}),
+                ...(request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+                ...(request.tools ? { tools: [{ functionDeclarations: request.tools }] } : {}),
+                ...(request.signal ? { abortSignal: request.signal } : {}),
+            },
+        };
+
+        if (request.onTextDelta) {
+            let text = '';
+            const functionCalls: ToolCall[] = [];
+            let usage: GenerateContentResponseUsageMetadata | undefined;
+            for await (const chunk of await ai.models.generateContentStream(params)) {
+                if (chunk.text) {
+                    text += chunk.text;
+                    request.onTextDelta(chunk.text);
+                }
+                chunk.functionCalls?.forEach(call => functionCalls.push({ name: call.name || '', args: call.args || {} }));
+                usage = chunk.usageMetadata || usage;
+            }
+            return {
+                text,
+                totalTokens: usage?.totalTokenCount,
+                promptTokens: usage?.promptTokenCount,
+                completionTokens: usage?.candidatesTokenCount,
+                functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+            };
+        }
+
+        const response = await ai.models.generateContent(params);
+
+        return {
+            text: response.text || '',
+            totalTokens: response.usageMetadata?.totalTokenCount,
+            promptTokens: response.usageMetadata?.promptTokenCount,
+            completionTokens: response.usageMetadata?.candidatesTokenCount,
+            functionCalls: response.functionCalls?.map(call => ({ name: call.name || '', args: call.args || {} })),
+        };
+    },
+};
+
+// Server-sent events from a streamed chat completion. Tool calls arrive in fragments, keyed by their index.
+const readOpenAiStream = async (response: Response, onTextDelta: (delta: string) => void): Promise<LLMResponse> => {
+    let text = '';
+    const toolCalls: { name: string; arguments: string }[] = [];
+    let usage: { total_tokens?: number; prompt_tokens?: number; completion_tokens?: number } | undefined;
+    for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') break;
+        const chunk = JSON.parse(payload);
+        const delta = chunk.choices?.[0]?.delta;
+        if (delta?.content) {
+            text += delta.content;
+            onTextDelta(delta.content);
+        }
+        delta?.tool_calls?.forEach((call: OpenAiToolCall) => {
+            const entry = toolCalls[call.index ?? toolCalls.length] ||= { name: '', arguments: '' };
+            entry.name += call.function?.name || '';
+            entry.arguments += call.function?.arguments || '';
+        });
+        usage = chunk.usage || usage;
+    }
+    return {
+        text,
+        totalTokens: usage?.total_tokens,
+        promptTokens: usage?.prompt_tokens,
+        completionTokens: usage?.completion_tokens,
+        functionCalls: toolCalls.length > 0 ? toolCalls.filter(Boolean).map(call => ({ name: call.name, args: parseToolArguments(call.arguments) })) : undefined,
+    };
+};
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself, Hugging Face TGI / Inference
+ * Endpoints, Groq, Together, OpenRouter, vLLM, LM Studio and so on.
+ */
+const openAiCompatibleProvider: LLMProvider = {
+    generate: async (request, profile) => {
+        const baseUrl = (profile.config.endpoint_url || profile.config.base_url || 'https://api.openai.com/v1').replace(/\/+$/, '');
+        const url = baseUrl.endsWith('/chat/completions') ? baseUrl : `${baseUrl}/chat/completions`;
+        const apiKey = getApiKey(profile);
+        const system = withSchemaInstructions(request);
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: profile.config.model_name,
+                messages: [
+                    ...(system ? [{ role: 'system', content: system }] : []),
+                    ...request.messages,
+                ],
+                temperature: request.temperature,
+                ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+                ...(request.tools ? { tools: toOpenAiTools(request.tools), tool_choice: 'auto' } : {}),
+                ...(request.onTextDelta ? { stream: true, stream_options: { include_usage: true } } : {}),
+            }),
+            signal: request.signal,
+        });
+
+        if (!response.ok) {
+            throw new RequestError(`${profile.provider} request failed (${response.status}): ${await readErrorMessage(response)}`, response.status);
+        }
+        if (request.onTextDelta) {
+            return readOpenAiStream(response, request.onTextDelta);
+        }
+        const data = await response.json();
+        const message = data.choices?.[0]?.message;
+        return {
+            text: message?.content || '',
+            totalTokens: data.usage?.total_tokens,
+            promptTokens: data.usage?.prompt_tokens,
+            completionTokens: data.usage?.completion_tokens,
+            functionCalls: message?.tool_calls?.map((call: OpenAiToolCall) => ({ name: call.function?.name || '', args: parseToolArguments(call.function?.arguments) })),
+        };
+    },
+};
+
+// A streamed Ollama chat response is one JSON object per line; the last one carries the token counts.
+// Returns the same shape as a non-streamed response, with the text and tool calls of every line combined.
+const readOllamaStream = async (response: Response, onTextDelta: (delta: string) => void) => {
+    let content = '';
+    const toolCalls: OllamaToolCall[] = [];
+    let last: any = {};
+    for await (const line of readLines(response)) {
+        last = JSON.parse(line);
+        if (last.error) throw new RequestError(`Ollama stream failed: ${last.error}`);
+        if (last.message?.content) {
+            content += last.message.content;
+            onTextDelta(last.message.content);
+        }
+        toolCalls.push(...(last.message?.tool_calls || []));
+    }
+    return { ...last, message: { content, tool_calls: toolCalls.length > 0 ? toolCalls : undefined } };
+};
+
+const ollamaProvider: LLMProvider = {
+    generate: async (request, profile) => {
+        // Profiles may point at any Ollama endpoint (e.g. /api/generate); the adapter always uses /api/chat.
+        const origin = (profile.config.base_url || 'http://localhost:11434').replace(/\/api\/.*$/, '').replace(/\/+$/, '');
+        const system = withSchemaInstructions(request);
+
+        const response = await fetch(`${origin}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: profile.config.model_name,
+                messages: [
+                    ...(system ? [{ role: 'system', content: system }] : []),
+                    ...request.messages,
+                ],
+                stream: !!request.onTextDelta,
+                ...(request.responseFormat === 'json' ? { format: 'json' } : {}),
+                ...(request.temperature !== undefined ? { options: { temperature: request.temperature } } : {}),
+                ...(request.tools ? { tools: toOpenAiTools(request.tools) } : {}),
+            }),
+            signal: request.signal,
+        });
+
+        if (!response.ok) {
+            throw new RequestError(`Ollama request failed (${response.status}): ${await readErrorMessage(response)}. Is Ollama running at ${origin}?`, response.status);
+        }
+        const data = request.onTextDelta ? await readOllamaStream(response, request.onTextDelta) : await response.json();
+        const totalTokens = (data.prompt_eval_count || 0) + (data.eval_count || 0);
+        return {
+            text: data.message?.content || '',
+            totalTokens: totalTokens || undefined,
+            promptTokens: data.prompt_eval_count,
+            completionTokens: data.eval_count,
+            functionCalls: data.message?.tool_calls?.map((call: OllamaToolCall) => ({ name: call.function?.name || '', args: parseToolArguments(call.function?.arguments) })),
+        };
+    },
+};
+
+const providersByType: { [provider: string]: LLMProvider } = {
+    GEMINI: geminiProvider,
+    OLLAMA: ollamaProvider,
+    HUGGING_FACE: openAiCompatibleProvider,
+    OPENAI: openAiCompatibleProvider,
+    OPENAI_COMPATIBLE: openAiCompatibleProvider,
+};
+
+export const SUPPORTED_PROVIDERS = Object.keys(providersByType);
+
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Routes every model call through the given provider regardless of the resolved profile,
+ * e.g. a scripted provider for offline runs. Pass null to restore normal routing.
+ */
+export const setLLMProviderOverride = (provider: LLMProvider | null) => {
+    providerOverride = provider;
+};
+
+/** Returns the adapter for a profile's provider type, ignoring any override. */
+export const getProviderAdapter = (profile: ModelProviderConfig): LLMProvider => {
+    const provider = providersByType[profile.provider.toUpperCase()];
+    if (!provider) {
+        throw new PermanentError(`Unsupported model provider '${profile.provider}' for profile '${profile.id}'.`);
+    }
+    return provider;
+};
+
+export const getLLMProvider = (profile: ModelProviderConfig): LLMProvider => {
+    return providerOverride || getProviderAdapter(profile);
+};
+
+/**
+ * Prices a response with the profile's per-million-token rates. When the provider does not split
+ * prompt and completion tokens, the whole count is priced at the input rate.
+ */
+export const calculateCost = (response: Pick<LLMResponse, 'totalTokens' | 'promptTokens' | 'completionTokens'>, profile: ModelProviderConfig): number => {
+    if (!profile.pricing) return 0;
+    const { input_per_million, output_per_million } = profile.pricing;
+    if (response.promptTokens !== undefined || response.completionTokens !== undefined) {
+        return ((response.promptTokens || 0) * input_per_million + (response.completionTokens || 0) * output_per_million) / 1_000_000;
+    }
+    return (response.totalTokens || 0) * input_per_million / 1_000_000;
+};
+
+let llmCallCount = 0;
+
+/**
+ * Sends a request to the model configured by the given profile and reports token usage and cost.
+ * @returns The full response, including any native function calls.
+ */
+export const generate = async (
+    request: LLMRequest,
+    profile: ModelProviderConfig,
+    onTokenUpdate: TokenUpdateHandler
+): Promise<LLMResponse> => {
+    const call: LLMCallInfo = { callId: `llm-${Date.now()}-${++llmCallCount}`, purpose: request.purpose, profileId: profile.id, model: profile.config.model_name };
+    const startedAt = Date.now();
+    request.onCallEvent?.({ type: 'llm-request', ...call });
+
+    // Text that arrives after an abort is dropped, so a stopped stream stops updating the screen at once.
+    let streamed = false;
+    const onTextDelta = request.onTextDelta && ((delta: string) => {
+        if (request.signal?.aborted) return;
+        streamed = true;
+        request.onTextDelta!(delta);
+    });
+    const streamRequest = { ...request, onTextDelta };
+
+    let response: LLMResponse;
+    try {
+        // Adapters abort their own requests; racing the signal also covers any that cannot.
+        response = request.signal
+            ? await runWithTimeout(signal => getLLMProvider(profile).generate({ ...streamRequest, signal }, profile), undefined, '', request.signal)
+            : await getLLMProvider(profile).generate(streamRequest, profile);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        request.onCallEvent?.({ type: 'llm-response', ...call, latencyMs: Date.now() - startedAt, totalTokens: 0, cost: 0, error: message });
+        throw error;
+    }
+
+    // Providers that cannot stream, e.g. a scripted one, deliver the whole text at once.
+    if (onTextDelta && !streamed && response.text) {
+        onTextDelta(response.text);
+    }
+
+    const cost = calculateCost(response, profile);
+    request.onCallEvent?.({
+        type: 'llm-response',
+        ...call,
+        latencyMs: Date.now() - startedAt,
+        totalTokens: response.totalTokens || 0,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
+        cost,
+    });
+    if (response.totalTokens) {
+        onTokenUpdate(response.totalTokens, {
+            profileId: profile.id,
+            model: profile.config.model_name,
+            totalTokens: response.totalTokens,
+            promptTokens: response.promptTokens,
+            completionTokens: response.completionTokens,
+            cost,
+        });
+    }
+    return response;
+};
+
+/**
+ * Like `generate`, for requests that only need the text of the response.
+ * @returns The raw text of the model's response.
+ */
+export const generateText = async (
+    request: LLMRequest,
+    profile: ModelProviderConfig,
+    onTokenUpdate: TokenUpdateHandler
+): Promise<string> => {
+    const response = await generate(request, profile, onTokenUpdate);
+    return response.text;
+};
@@ -0,0 +1,106 @@
+import type { ModelProviderConfig, ToolCall } from '../types';
+import { getProviderAdapter } from './llmProviders';
+import type { LLMProvider, LLMPurpose, LLMRequest, LLMResponse } from './llmProviders';
+
+/**
+ * A canned reply: literal text, a value serialized as JSON, an object with `functionCalls`
+ * (returned as native function calls), or a function of the request producing any of these.
+ */
+export type ScriptedReply = string | object | ((request: LLMRequest) => string | object);
+
+export type LLMScript = Partial<Record<LLMPurpose, ScriptedReply[]>>;
+
+export interface RecordedCall {
+    purpose: LLMPurpose;
+    profileId: string;
+    request: LLMRequest;
+    response: string;
+    functionCalls?: ToolCall[];
+}
+
+export interface ScriptedProvider extends LLMProvider {
+    /** Every call made so far, in order. */
+    calls: RecordedCall[];
+    /** Replies that were scripted but never consumed, by purpose. */
+    remaining: () => LLMScript;
+}
+
+const SCRIPTED_TOKENS_PER_CALL = 10;
+
+const toResponse = (reply: ScriptedReply, request: LLMRequest): Omit<LLMResponse, 'totalTokens'> => {
+    const value = typeof reply === 'function' ? reply(request) : reply;
+    if (typeof value === 'string') return { text: value };
+    if ('functionCalls' in value && Array.isArray((value as LLMResponse).functionCalls)) {
+        const { text, functionCalls } = value as LLMResponse;
+        return { text: text || '', functionCalls };
+    }
+    return { text: JSON.stringify(value) };
+};
+
+/**
+ * A deterministic provider that replays canned replies per purpose, in order. Use with
+ * `setLLMProviderOverride` to run the planner and executor without network access.
+ * A purpose whose queue is exhausted throws, so an unexpected extra call fails loudly.
+ */
+export const createScriptedProvider = (script: LLMScript): ScriptedProvider => {
+    const queues: LLMScript = {};
+    (Object.keys(script) as LLMPurpose[]).forEach(purpose => {
+        queues[purpose] = [...(script[purpose] || [])];
+    });
+    const calls: RecordedCall[] = [];
+
+    return {
+        calls,
+        remaining: () => {
+            const left: LLMScript = {};
+            (Object.keys(queues) as LLMPurpose[]).forEach(purpose => {
+                if (queues[purpose]!.length > 0) left[purpose] = [...queues[purpose]!];
+            });
+            return left;
+        },
+        generate: async (request: LLMRequest, profile: ModelProviderConfig): Promise<LLMResponse> => {
+            const queue = queues[request.purpose];
+            const reply = queue?.shift();
+            if (reply === undefined) {
+                throw new Error(`No scripted reply left for purpose '${request.purpose}' (call #${calls.length + 1}).`);
+            }
+            const response = toResponse(reply, request);
+            calls.push({ purpose: request.purpose, profileId: profile.id, request, response: response.text, functionCalls: response.functionCalls });
+            return { ...response, totalTokens: SCRIPTED_TOKENS_PER_CALL };
+        },
+    };
+};
+
+export interface RecordingProvider extends LLMProvider {
+    calls: RecordedCall[];
+    /** The recorded responses as a script that `createScriptedProvider` can replay. */
+    toScript: () => LLMScript;
+}
+
+const profileAdapter: LLMProvider = {
+    generate: (request, profile) => getProviderAdapter(profile).generate(request, profile),
+};
+
+/**
+ * Wraps a real provider (by default, each profile's own adapter) and records every exchange,
+ * so a live session can be captured once and replayed offline later.
+ */
+export const createRecordingProvider = (inner: LLMProvider = profileAdapter): RecordingProvider => {
+    const calls: RecordedCall[] = [];
+    return {
+        calls,
+        toScript: () => {
+            const script: LLMScript = {};
+            calls.forEach(call => {
+                const reply = call.functionCalls?.length ? { text: call.response, functionCalls: call.functionCalls } : call.response;
+                (script[call.purpose] = script[call.purpose] || []).push(reply);
+            });
+            return script;
+        },
+        generate: async (request: LLMRequest, profile: ModelProviderConfig): Promise<LLMResponse> => {
+            const response = await inner.generate(request, profile);
+            calls.push({ purpose: request.purpose, profileId: profile.id, request, response: response.text, functionCalls: response.functionCalls });
+            return response;
+        },
+    };
+};
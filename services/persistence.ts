@@ -0,0 +1,103 @@
+import type { RunCheckpoint, SessionRecord } from '../types';
+
+const DB_NAME = 'echo-db';
+const DB_VERSION = 2;
+
+export const STORES = {
+    CHECKPOINTS: 'run-checkpoints',
+    SESSIONS: 'sessions',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORES.CHECKPOINTS)) {
+                    db.createObjectStore(STORES.CHECKPOINTS, { keyPath: 'runId' });
+                }
+                if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+                    db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const putRecord = <T>(storeName: StoreName, value: T): Promise<void> =>
+    isIndexedDbAvailable() ? runRequest<void>(storeName, 'readwrite', store => store.put(value)) : Promise.resolve();
+
+export const getRecord = <T>(storeName: StoreName, key: string): Promise<T | undefined> =>
+    isIndexedDbAvailable() ? runRequest<T | undefined>(storeName, 'readonly', store => store.get(key)) : Promise.resolve(undefined);
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+    isIndexedDbAvailable() ? runRequest<T[]>(storeName, 'readonly', store => store.getAll()) : Promise.resolve([]);
+
+export const deleteRecord = (storeName: StoreName, key: string): Promise<void> =>
+    isIndexedDbAvailable() ? runRequest<void>(storeName, 'readwrite', store => store.delete(key)) : Promise.resolve();
+
+// --- Run Checkpoints ---
+
+export const saveRunCheckpoint = (checkpoint: RunCheckpoint): Promise<void> =>
+    putRecord(STORES.CHECKPOINTS, checkpoint);
+
+export const clearRunCheckpoint = (runId: string): Promise<void> =>
+    deleteRecord(STORES.CHECKPOINTS, runId);
+
+/**
+ * Returns the most recently updated checkpoint left behind by a run that never
+ * reached a terminal state (e.g. the tab was closed or reloaded mid-execution).
+ */
+export const loadInterruptedRun = async (): Promise<RunCheckpoint | null> => {
+    try {
+        const checkpoints = await getAllRecords<RunCheckpoint>(STORES.CHECKPOINTS);
+        if (checkpoints.length === 0) return null;
+        return checkpoints.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+    } catch (error) {
+        console.error("Failed to load run checkpoints from IndexedDB", error);
+        return null;
+    }
+};
+
+// --- Session History ---
+
+export const saveSession = (session: SessionRecord): Promise<void> =>
+    putRecord(STORES.SESSIONS, session);
+
+export const deleteSession = (sessionId: string): Promise<void> =>
+    deleteRecord(STORES.SESSIONS, sessionId);
+
+/** Returns every saved action run and chat thread, most recently updated first. */
+export const loadSessions = async (): Promise<SessionRecord[]> => {
+    try {
+        const sessions = await getAllRecords<SessionRecord>(STORES.SESSIONS);
+        return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error) {
+        console.error("Failed to load sessions from IndexedDB", error);
+        return [];
+    }
+};
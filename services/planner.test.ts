@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Playbook, Task } from '../types';
+import { createInitialPlan, determineNextStep } from './planner';
+import { setLLMProviderOverride } from './llmProviders';
+import { createScriptedProvider } from './mockLLMProvider';
+import { runScriptedExecution } from './executionHarness';
+
+const playbook: Playbook = {
+    id: 'release',
+    name: 'Release a package',
+    description: 'Builds, tests and publishes a package.',
+    triggerPrompt: 'release the widgets package',
+    parameters: [{ name: 'package', type: 'string', description: 'The package to release', example: 'widgets' }],
+    tasks: [
+        { title: 'Build {package}', details: 'Run the build for {package}.', agent: { role: 'Executor', name: 'God Mode' }, estimatedTime: '~45s', dependsOn: [] },
+        { title: 'Test {package}', details: 'Run the tests.', agent: { role: 'Executor', name: 'God Mode' }, estimatedTime: '~45s', dependsOn: [] },
+        { title: 'Publish {package}', details: 'Publish {package} to the registry.', agent: { role: 'Executor', name: 'God Mode' }, estimatedTime: '~45s', dependsOn: [0, 1] },
+    ],
+    createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const context = { connectedServices: [], playbooks: [playbook], customAgents: [], activeTodos: [] };
+const noTokens = () => {};
+
+afterEach(() => {
+    setLLMProviderOverride(null);
+});
+
+describe('playbook rehydration', () => {
+    it('rebuilds the task graph of a matching playbook with its parameters filled in', async () => {
+        const provider = createScriptedProvider({ 'playbook-parameters': [[{ name: 'package', value: 'gadgets' }]] });
+        setLLMProviderOverride(provider);
+
+        const tasks = await createInitialPlan('release the gadgets package', false, context, noTokens);
+
+        expect(provider.calls.map(c => c.purpose)).toEqual(['playbook-parameters']);
+        expect(tasks.map(t => t.title)).toEqual(['Build gadgets', 'Test gadgets', 'Publish gadgets']);
+        expect(tasks[2].details).toBe('Publish gadgets to the registry.');
+        expect(tasks.every(t => t.id.startsWith('playbook-release-') && t.status === 'Queued')).toBe(true);
+        expect(tasks[0].dependencies).toEqual([]);
+        expect(tasks[1].dependencies).toEqual([]);
+        expect(tasks[2].dependencies).toEqual([tasks[0].id, tasks[1].id]);
+    });
+
+    it('replays playbooks saved without dependency indices as a linear chain', async () => {
+        const legacy: Playbook = { ...playbook, parameters: undefined, tasks: playbook.tasks.map(({ dependsOn, ...task }) => task) };
+        setLLMProviderOverride(createScriptedProvider({}));
+
+        const tasks = await createInitialPlan('release the widgets package', false, { ...context, playbooks: [legacy] }, noTokens);
+
+        expect(tasks.map(t => t.dependencies)).toEqual([[], [tasks[0].id], [tasks[1].id]]);
+    });
+
+    it('asks for the parameters the prompt does not give', async () => {
+        setLLMProviderOverride(createScriptedProvider({ 'playbook-parameters': [[{ name: 'package', value: '' }]] }));
+        const asked: string[] = [];
+
+        const tasks = await createInitialPlan('release the package', false, {
+            ...context,
+            choosePlaybook: async (matches) => matches[0].playbook,
+            requestParameterValues: async (_, missing) => {
+                asked.push(...missing.map(p => p.name));
+                return { package: 'sprockets' };
+            },
+        }, noTokens);
+
+        expect(asked).toEqual(['package']);
+        expect(tasks[0].title).toBe('Build sprockets');
+    });
+
+    it('runs the rehydrated tasks to completion', async () => {
+        setLLMProviderOverride(createScriptedProvider({ 'playbook-parameters': [[{ name: 'package', value: 'gadgets' }]] }));
+        const tasks = await createInitialPlan('release the gadgets package', false, context, noTokens);
+        const finish = { text: 'Done.', functionCalls: [{ name: 'finishTask', args: { final_thought: 'Done.', summary: 'Done.' } }] };
+
+        const result = await runScriptedExecution({ tasks, script: { 'next-step': [finish, finish, finish] } });
+
+        expect(result.tasks.map(t => t.status)).toEqual(['Done', 'Done', 'Done']);
+        expect(result.provider.calls[2].request.messages[0].content).toContain('Publish gadgets');
+        expect(result.outcome).toBe('finished');
+        expect(result.events.at(-1)).toMatchObject({ type: 'run-finished', outcome: 'finished' });
+    });
+});
+
+describe('playbook selection', () => {
+    const plan = JSON.stringify([{ key: 'work', title: 'Do the work', agentRole: 'Executor', details: 'Plan from scratch.', dependsOn: [] }]);
+
+    it('offers a partial match to the user and plans from scratch when they decline', async () => {
+        setLLMProviderOverride(createScriptedProvider({ planning: [plan] }));
+        const offered: string[] = [];
+
+        const tasks = await createInitialPlan('release the widgets library', false, {
+            ...context,
+            choosePlaybook: async (matches) => {
+                offered.push(...matches.map(m => m.playbook.id));
+                return null;
+            },
+        }, noTokens);
+
+        expect(offered).toEqual(['release']);
+        expect(tasks.map(t => t.title)).toEqual(['Do the work']);
+    });
+
+    it('neither replays nor offers a match below the suggestion threshold', async () => {
+        const provider = createScriptedProvider({ planning: [plan] });
+        setLLMProviderOverride(provider);
+        let asked = false;
+
+        const tasks = await createInitialPlan('draft a press release about our new office', false, {
+            ...context,
+            choosePlaybook: async () => { asked = true; return playbook; },
+        }, noTokens);
+
+        expect(asked).toBe(false);
+        expect(provider.calls.map(c => c.purpose)).toEqual(['planning']);
+        expect(tasks[0].details).toBe('Plan from scratch.');
+    });
+});
+
+describe('next step', () => {
+    const task: Task = {
+        id: 'read', title: 'Read notes', status: 'Executing', agent: { role: 'Executor', name: 'God Mode' }, estimatedTime: '~45s',
+        details: 'Read the notes.', dependencies: [], logs: [], reviewHistory: [], retryCount: 0, maxRetries: 2, subSteps: [],
+    };
+    const call = (name: string, args: { [key: string]: any }) => ({ text: '', functionCalls: [{ name, args }] });
+
+    it('asks the model to repair a call to an unknown tool or with invalid arguments', async () => {
+        const provider = createScriptedProvider({
+            'next-step': [call('deleteEverything', {}), call('readFile', { path: 'notes.md' })],
+        });
+        setLLMProviderOverride(provider);
+
+        const step = await determineNextStep(task, [], [], [], noTokens);
+
+        expect(step).toEqual({ thought: 'Calling readFile.', toolCall: { name: 'readFile', args: { path: 'notes.md' } } });
+        const repairRequest = provider.calls[1].request.messages.at(-1)!.content;
+        expect(repairRequest).toContain(`'deleteEverything' is not an available function.`);
+    });
+
+    it('gives up when the repaired call is still invalid', async () => {
+        setLLMProviderOverride(createScriptedProvider({
+            'next-step': [call('readFile', {}), call('readFile', { path: 7 })],
+        }));
+
+        await expect(determineNextStep(task, [], [], [], noTokens)).rejects.toThrow(
+            `The agent produced an invalid next step after a repair attempt: readFile: 'path' must be a string, got number.`
+        );
+    });
+});
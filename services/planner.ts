@@ -1,6 +1,15 @@
-import { GoogleGenAI, FunctionDeclaration, Type, Chat, GenerateContentResponse } from "@google/genai";
-import type { Task, AgentRole, ToolCall, AgentPreferences, TodoItem, SubStep, Playbook, CustomAgent, Artifact } from '../types';
+import { Type, FunctionDeclaration } from "@google/genai";
+import type { Task, AgentRole, ToolCall, AgentPreferences, TodoItem, SubStep, Playbook, PlaybookParameter, CustomAgent, Artifact, ReviewEntry, TaskOutput, PlanRevision, Message, ModelProviderConfig } from '../types';
 import { availableTools, toolDeclarations } from './tools';
+import { validateTaskGraph } from './taskGraph';
+import { generate, generateText, LLMCallOptions, LLMMessage, LLMRequest, LLMResponse, TokenUpdateHandler } from './llmProviders';
+import { validateToolArgs } from './toolSchema';
+import { loadAgents, resolveModelProfile, resolveModelProfileForAgent } from './agentRegistry';
+import { resolveAllowedToolNames } from './agentToolset';
+import { buildExecutionHistory, resolveContextBudget } from './contextManager';
+import { fillPlaybookTemplate, ParameterValues, PLAYBOOK_PARAMETER_TYPES, toParameterName, validateParameterValue } from './playbookParameters';
+import { AUTO_USE_CONFIDENCE, MAX_SUGGESTIONS, PlaybookMatch, rankPlaybooks, SUGGEST_CONFIDENCE } from './playbookRetrieval';
+import type { ErrorKind } from './retryPolicy';
 
 const structuredPlanSchema = {
     type: Type.ARRAY,
@@ -8,6 +17,7 @@ const structuredPlanSchema = {
     items: {
         type: Type.OBJECT,
         properties: {
+            key: { type: Type.STRING, description: "A short, unique identifier for the task within this plan, in snake_case (e.g. 'research_api')." },
             title: { type: Type.STRING, description: "A short, descriptive title for the task." },
             details: { type: Type.STRING, description: "A detailed description of what this task entails." },
             agentRole: { 
@@ -15,11 +25,25 @@ const structuredPlanSchema = {
                 description: "The role of the agent best suited for this task.",
                 enum: ['Planner', 'Executor', 'Reviewer', 'Synthesizer']
             },
+            dependsOn: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING },
+                description: "The keys (or 1-based step numbers) of the tasks that must finish before this one can start. Use an empty array for tasks that can start immediately."
+            },
         },
-        required: ["title", "details", "agentRole"]
+        required: ["key", "title", "details", "agentRole", "dependsOn"]
     }
 };
 
+const replanSchema = {
+    type: Type.OBJECT,
+    properties: {
+        rationale: { type: Type.STRING, description: "A short explanation of what changed in the plan and why." },
+        tasks: structuredPlanSchema,
+    },
+    required: ["rationale", "tasks"]
+};
+
 const actionAnalysisSchema = {
     type: Type.OBJECT,
     properties: {
@@ -35,8 +59,48 @@ const actionAnalysisSchema = {
     required: ["is_actionable", "suggested_prompt"]
 };
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-let chat: Chat | null = null;
+const reviewSchema = {
+    type: Type.OBJECT,
+    properties: {
+        status: {
+            type: Type.STRING,
+            description: "'Approved' if the work fully satisfies its objective, 'Changes Requested' if it must be revised.",
+            enum: ['Approved', 'Changes Requested']
+        },
+        comments: {
+            type: Type.STRING,
+            description: "A concise critique. When requesting changes, list the concrete problems and what must be done to fix them."
+        }
+    },
+    required: ["status", "comments"]
+};
+
+const playbookParametersSchema = {
+    type: Type.ARRAY,
+    description: "The values in the request that would change from one run of this procedure to the next.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            name: { type: Type.STRING, description: "A short snake_case name for the parameter (e.g. 'pr_url', 'repo_name')." },
+            type: { type: Type.STRING, enum: PLAYBOOK_PARAMETER_TYPES },
+            description: { type: Type.STRING, description: "What the parameter is, phrased so a user can be asked for it." },
+            value: { type: Type.STRING, description: "The parameter's value in this run, exactly as it appears in the prompt or tasks." },
+        },
+        required: ["name", "type", "description", "value"]
+    }
+};
+
+const parameterValuesSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            name: { type: Type.STRING },
+            value: { type: Type.STRING, description: "The value from the prompt, or an empty string if the prompt does not give it." },
+        },
+        required: ["name", "value"]
+    }
+};
 
 const WELCOME_TRIGGERS = ['what can you do', 'help', 'explain yourself', 'what is this', 'hello', 'hi', 'what are you', 'who are you'];
 
@@ -75,30 +139,32 @@ My goal is to be your ultimate tool for creation and execution. Give it a try! S
 
 Your thoughts. My echo. Infinite possibility.`;
 
-const handleApiResponse = (response: GenerateContentResponse, onTokenUpdate: (count: number) => void): string => {
-    if (response.usageMetadata?.totalTokenCount) {
-        onTokenUpdate(response.usageMetadata.totalTokenCount);
+const loadAgentPreferences = (): AgentPreferences => {
+    if (typeof localStorage === 'undefined') return {};
+    try {
+        const savedPrefsJSON = localStorage.getItem('echo-agent-preferences');
+        if (savedPrefsJSON) return JSON.parse(savedPrefsJSON);
+    } catch (error) {
+        console.error("Failed to parse agent preferences from localStorage", error);
     }
-    return response.text;
-}
+    return {};
+};
 
-export const analyzeChatMessageForAction = async (prompt: string, onTokenUpdate: (count: number) => void): Promise<{ is_actionable: boolean; suggested_prompt: string }> => {
+export const analyzeChatMessageForAction = async (prompt: string, onTokenUpdate: TokenUpdateHandler): Promise<{ is_actionable: boolean; suggested_prompt: string }> => {
     const systemInstruction = `You are an intent-recognition AI. Your task is to analyze a user's chat message and determine if it contains an actionable command (e.g., "build this", "create a file", "run this command", "can you write a script for...") versus a conversational query (e.g., "how does this work?", "what is...", "explain...").
 - If it's an actionable command, set 'is_actionable' to true and rephrase the command into a clear, concise prompt for another AI agent.
 - If it's conversational, set 'is_actionable' to false.
 Your response MUST be a valid JSON object adhering to the provided schema.`;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: actionAnalysisSchema,
-                systemInstruction: systemInstruction,
-            },
-        });
-        const resultJson = handleApiResponse(response, onTokenUpdate).trim();
+        const responseText = await generateText({
+            purpose: 'intent-analysis',
+            system: systemInstruction,
+            messages: [{ role: 'user', content: prompt }],
+            responseFormat: 'json',
+            responseSchema: actionAnalysisSchema,
+        }, resolveModelProfileForAgent(), onTokenUpdate);
+        const resultJson = responseText.trim();
         const result = JSON.parse(resultJson);
         return result;
     } catch (error) {
@@ -107,7 +173,7 @@ Your response MUST be a valid JSON object adhering to the provided schema.`;
     }
 };
 
-export const clarifyAndCorrectPrompt = async (prompt: string, onTokenUpdate: (count: number) => void): Promise<string> => {
+export const clarifyAndCorrectPrompt = async (prompt: string, onTokenUpdate: TokenUpdateHandler): Promise<string> => {
     const systemInstruction = `You are an AI assistant that refines user prompts. Your goal is to correct any spelling or grammar mistakes, clarify ambiguities, and rephrase the prompt into a clear, actionable command for another AI agent. Do not add any conversational fluff. Only return the refined prompt. If the prompt is already clear and well-defined, return it as-is.
 
 Example 1:
@@ -119,15 +185,13 @@ User: "make a new react component called header"
 Assistant: "Create a new React component named 'Header'. It should have a default export and a basic JSX structure."
 `;
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction: systemInstruction,
-                temperature: 0.2, // Be conservative with changes
-            },
-        });
-        return handleApiResponse(response, onTokenUpdate).trim();
+        const responseText = await generateText({
+            purpose: 'prompt-refinement',
+            system: systemInstruction,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0.2, // Be conservative with changes
+        }, resolveModelProfileForAgent(), onTokenUpdate);
+        return responseText.trim();
     } catch (error) {
         console.error("Error clarifying prompt:", error);
         return prompt; // Return original prompt on error
@@ -148,92 +212,155 @@ const getAgentNameForRole = (role: AgentRole, preferences: AgentPreferences): st
     }
 }
 
-const findRelevantPlaybook = async (prompt: string, playbooks: Playbook[], onTokenUpdate: (count: number) => void): Promise<Playbook | null> => {
-    if (playbooks.length === 0) return null;
+/**
+ * Picks the saved playbook to replay for a prompt, if any. A strong local match is used as-is; weaker
+ * ones are offered to the user, and nothing is used when even the best match is below the suggestion threshold.
+ */
+const findRelevantPlaybook = async (prompt: string, context: ExecutionContext): Promise<Playbook | null> => {
+    const candidates = rankPlaybooks(prompt, context.playbooks).filter(match => match.confidence >= SUGGEST_CONFIDENCE);
+    if (candidates.length === 0) return null;
+
+    const [best] = candidates;
+    if (best.confidence >= AUTO_USE_CONFIDENCE) {
+        context.onPlaybookMatched?.(best, true);
+        return best.playbook;
+    }
 
-    const playbookDescriptions = playbooks.map(p => `ID: ${p.id}, Description: ${p.triggerPrompt}`).join('\n');
-    
-    const recallPrompt = `
+    const suggestions = candidates.slice(0, MAX_SUGGESTIONS);
+    const chosen = context.choosePlaybook ? await context.choosePlaybook(suggestions) : null;
+    const chosenMatch = suggestions.find(match => match.playbook.id === chosen?.id);
+    if (chosenMatch) context.onPlaybookMatched?.(chosenMatch, false);
+    return chosenMatch?.playbook || null;
+};
+
+/**
+ * Reads the values of a playbook's parameters from a new prompt. Values the prompt does not give,
+ * or that do not fit the parameter's type, are left out so that the user can be asked for them.
+ */
+const fillPlaybookParameters = async (prompt: string, playbook: Playbook, onTokenUpdate: TokenUpdateHandler): Promise<ParameterValues> => {
+    const parameters = playbook.parameters || [];
+    const fillPrompt = `
 User Prompt: "${prompt}"
 
-Based on the user's prompt, which of the following saved playbooks is the most relevant?
-A good match means the playbook's description is very similar in intent to the user's prompt.
-If you find a strong match, respond with ONLY the ID of that playbook.
-If none are a good match, respond with "NONE".
+The saved procedure "${playbook.name}" was learned from the prompt "${playbook.triggerPrompt}" and takes these parameters:
+${parameters.map(p => `- ${p.name} (${p.type}): ${p.description}${p.example ? ` Example: ${p.example}` : ''}`).join('\n')}
 
-Available Playbooks:
-${playbookDescriptions}
+For each parameter, give its value from the user prompt. Only use values the user prompt actually states; never reuse an example.
+If the prompt does not give a parameter, use an empty string.
 `;
-    
+
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: recallPrompt,
+        const responseText = await generateText({
+            purpose: 'playbook-parameters',
+            messages: [{ role: 'user', content: fillPrompt }],
+            responseFormat: 'json',
+            responseSchema: parameterValuesSchema,
+        }, resolveModelProfileForAgent(), onTokenUpdate);
+
+        const entries: { name: string; value: string }[] = JSON.parse(responseText.trim());
+        const values: ParameterValues = {};
+        parameters.forEach(parameter => {
+            const value = entries.find(e => e.name === parameter.name)?.value?.trim() || '';
+            if (!validateParameterValue(parameter, value)) values[parameter.name] = value;
         });
-
-        const bestId = handleApiResponse(response, onTokenUpdate).trim();
-        if (bestId && bestId !== 'NONE') {
-            return playbooks.find(p => p.id === bestId) || null;
-        }
+        return values;
     } catch (error) {
-        console.error("Error finding relevant playbook:", error);
+        console.error("Error filling playbook parameters:", error);
+        return {};
     }
-    
-    return null;
-}
+};
 
-const rehydrateTasksFromPlaybook = (playbook: Playbook, preferences: AgentPreferences): Task[] => {
-    let lastTaskId: string | null = null;
-    return playbook.tasks.map((taskTemplate, index) => {
-        const taskId = `playbook-${playbook.id}-${Date.now()}-${index}`;
+const rehydrateTasksFromPlaybook = (playbook: Playbook, preferences: AgentPreferences, values: ParameterValues = {}): Task[] => {
+    const runStamp = Date.now();
+    const taskIds = playbook.tasks.map((_, index) => `playbook-${playbook.id}-${runStamp}-${index}`);
+    return playbook.tasks.map(({ dependsOn, ...taskTemplate }, index) => {
+        const taskId = taskIds[index];
+        // Playbooks saved before dependency indices were recorded replay as a linear chain.
+        const dependencies = dependsOn
+            ? dependsOn.filter(i => i >= 0 && i < taskIds.length && i !== index).map(i => taskIds[i])
+            : index > 0 ? [taskIds[index - 1]] : [];
         const task: Task = {
             ...taskTemplate,
+            title: fillPlaybookTemplate(taskTemplate.title, values),
+            details: fillPlaybookTemplate(taskTemplate.details, values),
             id: taskId,
             status: 'Queued',
             agent: { ...taskTemplate.agent, name: getAgentNameForRole(taskTemplate.agent.role, preferences) },
-            dependencies: lastTaskId ? [lastTaskId] : [],
+            dependencies,
             logs: [],
             reviewHistory: [],
             retryCount: 0,
             maxRetries: 3,
             subSteps: [],
         };
-        lastTaskId = taskId;
         return task;
     });
 };
 
+/**
+ * Resolves the planner's `dependsOn` references (task keys or 1-based step numbers) into task IDs.
+ * Unresolvable references are kept as-is so that graph validation reports them.
+ */
+const resolvePlanDependencies = (parsedPlan: any[], taskIds: string[]): string[][] => {
+    const idByKey = new Map<string, string>();
+    parsedPlan.forEach((p, index) => {
+        if (typeof p.key === 'string' && p.key.trim()) idByKey.set(p.key.trim(), taskIds[index]);
+    });
+
+    return parsedPlan.map(p => {
+        const refs: unknown[] = Array.isArray(p.dependsOn) ? p.dependsOn : [];
+        const resolved = refs.map(ref => {
+            const refString = String(ref).trim();
+            if (idByKey.has(refString)) return idByKey.get(refString)!;
+            const stepNumber = Number(refString);
+            if (Number.isInteger(stepNumber) && stepNumber >= 1 && stepNumber <= taskIds.length) return taskIds[stepNumber - 1];
+            return refString;
+        });
+        return Array.from(new Set(resolved));
+    });
+};
+
 interface ExecutionContext {
     connectedServices: string[];
     playbooks: Playbook[];
     customAgents: CustomAgent[];
     activeTodos: TodoItem[];
+    // Offers playbooks that match the prompt too weakly to be used without asking. Resolves to null to plan from scratch.
+    choosePlaybook?: (matches: PlaybookMatch[]) => Promise<Playbook | null>;
+    // Reports the playbook about to be replayed and whether it was picked without asking.
+    onPlaybookMatched?: (match: PlaybookMatch, autoSelected: boolean) => void;
+    // Asks the user for the parameters of a recalled playbook that the prompt did not give. Resolves to null if they declined.
+    requestParameterValues?: (playbook: Playbook, missing: PlaybookParameter[], values: ParameterValues) => Promise<ParameterValues | null>;
 }
 
 export const createInitialPlan = async (
     prompt: string,
     isWebToolActive: boolean,
     context: ExecutionContext,
-    onTokenUpdate: (count: number) => void
+    onTokenUpdate: TokenUpdateHandler,
+    callOptions: LLMCallOptions = {}
 ): Promise<Task[]> => {
-    let agentPreferences: AgentPreferences = {};
-
-    try {
-        const savedPrefsJSON = localStorage.getItem('echo-agent-preferences');
-        if (savedPrefsJSON) agentPreferences = JSON.parse(savedPrefsJSON);
-    } catch (error) {
-        console.error("Failed to parse agent preferences from localStorage", error);
-    }
+    const agentPreferences = loadAgentPreferences();
 
     if (!isWebToolActive) {
-        const relevantPlaybook = await findRelevantPlaybook(prompt, context.playbooks, onTokenUpdate);
+        const relevantPlaybook = await findRelevantPlaybook(prompt, context);
         if (relevantPlaybook) {
             console.log(`Found relevant playbook: ${relevantPlaybook.name}`);
-            return rehydrateTasksFromPlaybook(relevantPlaybook, agentPreferences);
+            const parameters = relevantPlaybook.parameters || [];
+            let values = parameters.length > 0 ? await fillPlaybookParameters(prompt, relevantPlaybook, onTokenUpdate) : {};
+            const missing = parameters.filter(p => !(p.name in values));
+            if (missing.length > 0) {
+                const answered = context.requestParameterValues ? await context.requestParameterValues(relevantPlaybook, missing, values) : null;
+                values = answered ? { ...values, ...answered } : values;
+            }
+            // A playbook that cannot be filled in is not replayed; the request is planned from scratch instead.
+            if (parameters.every(p => p.name in values)) {
+                return rehydrateTasksFromPlaybook(relevantPlaybook, agentPreferences, values);
+            }
         }
     }
     
-    let systemInstruction = "You are a world-class autonomous agent planner. Your job is to receive a user request and break it down into a sequence of logical tasks. A typical sequence is: 1. Planner (for outlining/structuring), 2. Executor (for performing the work), 3. Reviewer (for checking quality), and 4. Synthesizer (for final assembly). Keep tasks high-level. The Executor agent will handle the detailed, step-by-step tool usage. Respond with a JSON array of tasks that adheres to the provided schema.";
+    let systemInstruction = "You are a world-class autonomous agent planner. Your job is to receive a user request and break it down into a graph of logical tasks. A typical flow is: 1. Planner (for outlining/structuring), 2. Executor (for performing the work), 3. Reviewer (for checking quality), and 4. Synthesizer (for final assembly). Keep tasks high-level. The Executor agent will handle the detailed, step-by-step tool usage. Give every task a unique 'key' and list in 'dependsOn' the keys of the tasks whose results it needs. Independent pieces of work (e.g. researching two unrelated topics) must NOT depend on each other, so they can run in parallel. At least one task must have no dependencies, and dependencies must never form a cycle. Respond with a JSON array of tasks that adheres to the provided schema.";
     
     let contextPreamble = `
 [SYSTEM CONTEXT]
@@ -252,17 +379,14 @@ This context is for your awareness. Use it to create a more effective and inform
     }
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: structuredPlanSchema,
-                systemInstruction: systemInstruction,
-            },
-        });
-        
-        const textResponse = handleApiResponse(response, onTokenUpdate);
+        const textResponse = await generateText({
+            purpose: 'planning',
+            system: systemInstruction,
+            messages: [{ role: 'user', content: prompt }],
+            responseFormat: 'json',
+            responseSchema: structuredPlanSchema,
+            ...callOptions,
+        }, resolveModelProfileForAgent(getAgentNameForRole('Planner', agentPreferences)), onTokenUpdate);
 
         if (!textResponse || !textResponse.trim()) {
             throw new Error("The AI planner returned an empty response.");
@@ -276,9 +400,16 @@ This context is for your awareness. Use it to create a more effective and inform
         const parsedPlan = JSON.parse(jsonString);
 
         if (Array.isArray(parsedPlan) && parsedPlan.length > 0) {
-            let lastTaskId: string | null = null;
+            const planStamp = Date.now();
+            const taskIds = parsedPlan.map((_: any, index: number) => `task-gen-${planStamp}-${index}`);
+            // A plan without any dependency declarations falls back to the classic linear chain.
+            const declaresDependencies = parsedPlan.some((p: any) => Array.isArray(p.dependsOn));
+            const planDependencies = declaresDependencies
+                ? resolvePlanDependencies(parsedPlan, taskIds)
+                : taskIds.map((_: string, index: number) => index > 0 ? [taskIds[index - 1]] : []);
+
             const newTasks: Task[] = parsedPlan.map((p: any, index: number) => {
-                const taskId = `task-gen-${Date.now()}-${index}`;
+                const taskId = taskIds[index];
                 let agentRole: AgentRole = p.agentRole || 'Executor';
                 let agentName = getAgentNameForRole(agentRole, agentPreferences);
                 
@@ -293,19 +424,19 @@ This context is for your awareness. Use it to create a more effective and inform
                     agent: { role: agentRole, name: agentName },
                     estimatedTime: "~45s",
                     details: p.details || "No details provided.",
-                    dependencies: lastTaskId ? [lastTaskId] : [],
+                    dependencies: planDependencies[index],
                     logs: [],
                     reviewHistory: [],
                     retryCount: 0,
                     maxRetries: 3,
                     subSteps: [],
                 };
-                lastTaskId = taskId;
                 return task;
             });
-            // First task should have no dependencies and start immediately
-            if(newTasks.length > 0) {
-                newTasks[0].dependencies = [];
+
+            const graphProblems = validateTaskGraph(newTasks);
+            if (graphProblems.length > 0) {
+                throw new Error(`The planner produced an invalid task graph. ${graphProblems.join(' ')}`);
             }
             return newTasks;
         }
@@ -313,36 +444,247 @@ This context is for your awareness. Use it to create a more effective and inform
         throw new Error("The AI planner failed to generate a valid plan.");
 
     } catch (error) {
+        if (callOptions.signal?.aborted) throw error;
         console.error("Error in createInitialPlan:", error);
         const errorMessage = error instanceof Error ? error.message : "An unknown error occurred during planning.";
         throw new Error(`Failed to generate a task plan. Reason: ${errorMessage}`);
     }
 };
 
+export interface ReplanRequest {
+    trigger: PlanRevision['trigger'];
+    triggerTask: Task;
+    reason: string;
+    // How the trigger task failed, for 'task-failed' replans.
+    errorKind?: ErrorKind;
+    // The unfinished tasks the revised plan replaces, including every waiting task that depends on one of them.
+    replaceableTasks: Task[];
+}
+
+/**
+ * Revises the unfinished part of a running plan after a task failed or an agent asked for a new plan.
+ * Finished and in-flight tasks are kept; the returned tasks replace `replaceableTasks` and may
+ * depend on kept tasks by their IDs.
+ */
+export const replanRemainingTasks = async (
+    prompt: string,
+    tasks: Task[],
+    request: ReplanRequest,
+    onTokenUpdate: TokenUpdateHandler,
+    callOptions: LLMCallOptions = {}
+): Promise<{ tasks: Task[]; rationale: string }> => {
+    const agentPreferences = loadAgentPreferences();
+    const replaceableIds = new Set(request.replaceableTasks.map(t => t.id));
+    const keptTasks = tasks.filter(t => !replaceableIds.has(t.id) && t.status !== 'Cancelled' && t.status !== 'Error');
+    const completed = keptTasks.filter(t => t.status === 'Done');
+    const inFlight = keptTasks.filter(t => t.status !== 'Done');
+
+    const { triggerTask, reason } = request;
+    const attempts = `${triggerTask.retryCount + 1} attempt${triggerTask.retryCount === 0 ? '' : 's'}`;
+    const event = request.trigger === 'task-failed'
+        ? request.errorKind === 'permanent'
+            ? `Task [${triggerTask.id}] "${triggerTask.title}" failed after ${attempts} with an error that retrying cannot fix: ${reason}`
+            : `Task [${triggerTask.id}] "${triggerTask.title}" failed after ${attempts}: ${reason}`
+        : `The agent working on task [${triggerTask.id}] "${triggerTask.title}" finished early and asked for a new plan: ${reason}`;
+
+    const replanPrompt = `
+Original request: "${prompt}"
+
+[COMPLETED TASKS AND THEIR OUTPUTS]
+${completed.length > 0 ? completed.map(t => t.output ? formatUpstreamOutputs([t]) : `- [${t.id}] "${t.title}" (${t.agent.name})`).join('\n') : "None"}
+
+[TASKS STILL IN PROGRESS]
+${inFlight.length > 0 ? inFlight.map(t => `- [${t.id}] "${t.title}" (${t.status})`).join('\n') : "None"}
+
+[WHAT HAPPENED]
+${event}
+
+[TASKS BEING REPLACED]
+${request.replaceableTasks.length > 0 ? request.replaceableTasks.map(t => `- "${t.title}": ${t.details}`).join('\n') : "None"}
+
+Write the remaining tasks needed to fulfil the original request, taking what happened into account.
+Do not repeat completed or in-progress work. Keep replaced tasks that are still needed, changed as required, and drop the rest.
+A new task may list in 'dependsOn' the keys of other new tasks or the IDs (in square brackets above) of completed or in-progress tasks.
+If nothing more is needed, return an empty task list.
+`;
+
+    try {
+        const textResponse = await generateText({
+            purpose: 'replanning',
+            system: "You are a world-class autonomous agent planner revising a plan that is already running. Respond with a JSON object that adheres to the provided schema.",
+            messages: [{ role: 'user', content: replanPrompt }],
+            responseFormat: 'json',
+            responseSchema: replanSchema,
+            ...callOptions,
+        }, resolveModelProfileForAgent(getAgentNameForRole('Planner', agentPreferences)), onTokenUpdate);
+
+        const jsonMatch = textResponse.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+            throw new Error("Planner response did not contain a recognizable JSON object.");
+        }
+        const parsed = JSON.parse(jsonMatch[0]);
+        const parsedPlan: any[] = Array.isArray(parsed.tasks) ? parsed.tasks : [];
+
+        const planStamp = Date.now();
+        const taskIds = parsedPlan.map((_: any, index: number) => `task-replan-${planStamp}-${index}`);
+        const planDependencies = resolvePlanDependencies(parsedPlan, taskIds);
+        const newTasks: Task[] = parsedPlan.map((p: any, index: number) => {
+            const agentRole: AgentRole = p.agentRole || 'Executor';
+            return {
+                id: taskIds[index],
+                title: p.title || "Untitled Task",
+                status: "Queued",
+                agent: { role: agentRole, name: getAgentNameForRole(agentRole, agentPreferences) },
+                estimatedTime: "~45s",
+                details: p.details || "No details provided.",
+                dependencies: planDependencies[index],
+                logs: [],
+                reviewHistory: [],
+                retryCount: 0,
+                maxRetries: 3,
+                subSteps: [],
+            };
+        });
+
+        const graphProblems = validateTaskGraph([...keptTasks, ...newTasks]);
+        if (graphProblems.length > 0) {
+            throw new Error(`The planner produced an invalid task graph. ${graphProblems.join(' ')}`);
+        }
+        return { tasks: newTasks, rationale: String(parsed.rationale || '').trim() };
+
+    } catch (error) {
+        console.error("Error in replanRemainingTasks:", error);
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred during replanning.";
+        throw new Error(`Failed to revise the plan. Reason: ${errorMessage}`);
+    }
+};
+
+
+const UPSTREAM_VALUE_PREVIEW_LENGTH = 300;
 
-export const determineNextStep = async (task: Task, subSteps: SubStep[], currentArtifacts: Artifact[], onTokenUpdate: (count: number) => void): Promise<{ thought: string; toolCall: ToolCall } | { isFinished: true; finalThought: string }> => {
-    const history = subSteps.map(step => 
-        `Thought: ${step.thought}\nAction: ${JSON.stringify(step.toolCall)}\nObservation: ${step.observation}`
-    ).join('\n\n');
+const formatUpstreamOutputs = (upstreamTasks: Task[]): string => {
+    return upstreamTasks.filter(t => t.output).map(t => {
+        const output = t.output as TaskOutput;
+        const values = Object.entries(output.values).map(([key, value]) =>
+            `    - ${key}: ${value.length > UPSTREAM_VALUE_PREVIEW_LENGTH ? `${value.substring(0, UPSTREAM_VALUE_PREVIEW_LENGTH)}... (truncated, use readTaskOutput for the full value)` : value}`
+        ).join('\n');
+        return `- [${t.id}] "${t.title}" (${t.agent.name}): ${output.summary}${values ? `\n${values}` : ''}`;
+    }).join('\n');
+};
+
+const finishTaskDeclaration: FunctionDeclaration = {
+    name: 'finishTask',
+    description: 'Signals that the high-level objective is complete and records what the task produced for the tasks that depend on it. Call this instead of a tool once the work is done.',
+    parameters: {
+        type: Type.OBJECT, properties: {
+            final_thought: { type: Type.STRING, description: 'Your concluding thoughts on how the objective was met.' },
+            summary: { type: Type.STRING, description: 'What this task produced, written for the tasks that depend on it.' },
+            values: {
+                type: Type.ARRAY,
+                description: 'Specific results later tasks may need, e.g. a file path, URL or ID.',
+                items: {
+                    type: Type.OBJECT, properties: {
+                        key: { type: Type.STRING, description: 'A short snake_case name for the value (e.g. "component_path").' },
+                        value: { type: Type.STRING, description: 'The value itself.' }
+                    }, required: ['key', 'value']
+                }
+            }
+        }, required: ['final_thought', 'summary']
+    }
+};
+
+const REACT_INSTRUCTION = "Follow the ReAct (Reason-Act) pattern: reason briefly, then act by calling exactly one function per response.";
+
+// The functions offered to an agent: its allowed tools (all of them when unrestricted) plus finishTask.
+const getNextStepDeclarations = (agent?: CustomAgent): FunctionDeclaration[] => {
+    const allowed = resolveAllowedToolNames(agent);
+    const tools = allowed ? toolDeclarations.filter(d => allowed.includes(d.name)) : toolDeclarations;
+    return [...tools, finishTaskDeclaration];
+};
+
+type NextStep = { thought: string; toolCall: ToolCall } | { isFinished: true; finalThought: string; output: Pick<TaskOutput, 'summary' | 'values'> };
+
+const interpretNextStep = (response: LLMResponse, declarations: FunctionDeclaration[]): { step: NextStep } | { problems: string[] } => {
+    // Models sometimes emit several parallel calls; the ReAct loop takes one step at a time.
+    const call = response.functionCalls?.[0];
+    if (!call) {
+        return { problems: ['You did not call a function. Every response must call exactly one of the available functions, or finishTask when the objective is complete.'] };
+    }
+
+    const declaration = declarations.find(d => d.name === call.name);
+    if (!declaration) {
+        return { problems: [`'${call.name}' is not an available function. Choose one of: ${declarations.map(d => d.name).join(', ')}.`] };
+    }
+
+    const problems = validateToolArgs(declaration, call.args);
+    if (problems.length > 0) {
+        return { problems: problems.map(problem => `${call.name}: ${problem}`) };
+    }
+
+    if (call.name === finishTaskDeclaration.name) {
+        const values: { [key: string]: string } = {};
+        (call.args.values || []).forEach((entry: { key: string; value: string }) => {
+            values[entry.key] = entry.value;
+        });
+        return { step: { isFinished: true, finalThought: call.args.final_thought, output: { summary: call.args.summary, values } } };
+    }
+
+    return { step: { thought: response.text.trim() || `Calling ${call.name}.`, toolCall: { name: call.name, args: call.args } } };
+};
+
+const describeResponse = (response: LLMResponse): string => {
+    const calls = (response.functionCalls || []).map(call => `Called ${call.name}(${JSON.stringify(call.args)})`).join('\n');
+    return [response.text.trim(), calls].filter(Boolean).join('\n') || '(empty response)';
+};
+
+/** The model profile a task's next steps run on: the custom agent's own profile, or the one assigned to its agent name. */
+export const resolveNextStepProfile = (task: Task, agent?: CustomAgent): ModelProviderConfig =>
+    agent?.llm_profile_id ? resolveModelProfile(agent.llm_profile_id) : resolveModelProfileForAgent(task.agent.name);
+
+export const determineNextStep = async (
+    task: Task,
+    subSteps: SubStep[],
+    currentArtifacts: Artifact[],
+    upstreamTasks: Task[],
+    onTokenUpdate: TokenUpdateHandler,
+    agent?: CustomAgent,
+    callOptions: LLMCallOptions = {}
+): Promise<NextStep> => {
+    const profile = resolveNextStepProfile(task, agent);
+    const history = buildExecutionHistory(subSteps, task.contextSummary, resolveContextBudget(profile));
     
     const artifactList = currentArtifacts.map(a => `- ${a.title} (${a.type})`).join('\n');
+    const upstreamOutputs = formatUpstreamOutputs(upstreamTasks);
+
+    // A custom agent runs with its own instructions, tools and model; God Mode uses the defaults.
+    const declarations = getNextStepDeclarations(agent);
+    const delegates = declarations.some(d => d.name === 'delegate_to_agent')
+        ? loadAgents().filter(a => a.enabled && a.name !== task.agent.name)
+            .map(a => `- ${a.name}${a.capabilities?.length ? ` [${a.capabilities.join(', ')}]` : ''}: ${a.description || a.instructions}`).join('\n')
+        : '';
+
+    const latestReview = task.reviewHistory[task.reviewHistory.length - 1];
+    const reviewFeedback = task.status === 'Executing' && latestReview?.status === 'Changes Requested'
+        ? `\n[REVIEWER FEEDBACK]\nYour previous result was reviewed by ${latestReview.reviewer} and sent back for revision. Address these comments before finishing:\n${latestReview.comments}\n`
+        : '';
 
     const prompt = `
 You are an autonomous agent executing a task.
 Your high-level objective is: "${task.title} - ${task.details}"
 
-You have access to the following tools: ${toolDeclarations.map(t => t.name).join(', ')}.
-
 [CURRENT CONTEXT]
 - Artifacts created so far:
 ${artifactList.length > 0 ? artifactList : "None"}
-
+- Outputs of upstream tasks this task depends on:
+${upstreamOutputs.length > 0 ? upstreamOutputs : "None"}
+${delegates ? `- Agents you can hand sub-tasks to with 'delegate_to_agent':\n${delegates}\n` : ''}${reviewFeedback}
 Based on the history of your previous actions and observations, decide on the very next step. 
-You must think step-by-step and then choose one single tool to use.
+Think step-by-step: briefly state your reasoning in text, then call exactly one of the available functions.
 When you have a final result, like a block of code or a document, use the 'createArtifact' tool to save it.
-Do not guess or assume information; use tools like 'listFiles' or 'readFile' to get the facts.
-If you believe the high-level objective is complete, respond with a JSON object: {"isFinished": true, "finalThought": "your concluding thoughts"}.
-Otherwise, respond with a JSON object: {"thought": "your reasoning", "toolCall": {"name": "tool_name", "args": {...}}}.
+Do not guess or assume information; use the available tools to get the facts.
+Build on the upstream outputs instead of redoing their work. Use 'readTaskOutput' to get the full output of an upstream task by its ID.
+If you believe the high-level objective is complete, call 'finishTask' with a summary of what this task produced.
+Long observations are shortened in the history below; use 'viewObservation' to read an omitted part when you need it.
 
 Execution History:
 ${history || "No actions taken yet."}
@@ -350,55 +692,121 @@ ${history || "No actions taken yet."}
 What is your next action?
 `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            systemInstruction: "You are a methodical AI agent executor. Follow the ReAct (Reason-Act) pattern. Your response must be a single, valid JSON object representing your next thought and action, or a finalization signal.",
-        },
-    });
-    
-    const resultJson = handleApiResponse(response, onTokenUpdate).trim();
+    const request: LLMRequest = {
+        purpose: 'next-step',
+        system: agent?.instructions.trim()
+            ? `${agent.instructions.trim()}\n\n${REACT_INSTRUCTION}`
+            : `You are a methodical AI agent executor. ${REACT_INSTRUCTION}`,
+        messages: [{ role: 'user', content: prompt }],
+        tools: declarations,
+        ...callOptions,
+    };
+
+    const response = await generate(request, profile, onTokenUpdate);
+    const first = interpretNextStep(response, declarations);
+    if ('step' in first) return first.step;
+
+    // One self-repair round: show the model its invalid response and what was wrong with it.
+    console.warn("Invalid next step from agent, requesting a repair:", first.problems);
+    const repaired = await generate({
+        ...request,
+        messages: [
+            ...request.messages,
+            { role: 'assistant', content: describeResponse(response) },
+            { role: 'user', content: `Your previous response was invalid:\n${first.problems.map(p => `- ${p}`).join('\n')}\nRespond again by calling exactly one of the available functions with valid arguments.` },
+        ],
+    }, profile, onTokenUpdate);
+    const second = interpretNextStep(repaired, declarations);
+    if ('step' in second) return second.step;
+
+    throw new Error(`The agent produced an invalid next step after a repair attempt: ${second.problems.join(' ')}`);
+};
 
-    try {
-        const result = JSON.parse(resultJson);
-        if (result.isFinished) {
-            return { isFinished: true, finalThought: result.finalThought };
-        }
-        if (result.thought && result.toolCall && result.toolCall.name && result.toolCall.args) {
-            return { thought: result.thought, toolCall: result.toolCall };
-        }
-        throw new Error("Invalid JSON response from agent brain.");
-    } catch (e) {
-        console.error("Failed to parse agent's next step:", resultJson, e);
-        // Fallback or error handling action
-        return {
-            thought: "I seem to be confused about the next step. I will ask for clarification.",
-            toolCall: { name: 'askUser', args: { question: 'I am unable to determine the next step. Can you clarify what I should do?' } }
-        };
+export const reviewTaskOutputs = async (
+    reviewTask: Task,
+    reviewedTasks: Task[],
+    currentArtifacts: Artifact[],
+    onTokenUpdate: TokenUpdateHandler,
+    callOptions: LLMCallOptions = {}
+): Promise<{ status: ReviewEntry['status']; comments: string }> => {
+    const workSummary = reviewedTasks.map(t => {
+        const steps = (t.subSteps || []).map((step, i) =>
+            `  ${i + 1}. Thought: ${step.thought}\n     Action: ${step.toolCall.name}(${JSON.stringify(step.toolCall.args)})\n     Observation: ${step.observation.substring(0, 1000)}`
+        ).join('\n');
+        const artifacts = currentArtifacts.filter(a => a.taskId === t.id).map(a =>
+            `  - ${a.title} (${a.type}):\n${a.content.substring(0, 4000)}`
+        ).join('\n');
+        const previousReviews = t.reviewHistory.map(r => `  - [${r.status}] ${r.reviewer}: ${r.comments}`).join('\n');
+        const reportedOutput = t.output
+            ? `  ${t.output.summary}${Object.entries(t.output.values).map(([key, value]) => `\n  - ${key}: ${value}`).join('')}`
+            : '  None.';
+
+        return `### Task: ${t.title} [${t.agent.role}: ${t.agent.name}]
+Objective: ${t.details}
+Reported output:
+${reportedOutput}
+Steps taken:
+${steps || '  None recorded.'}
+Artifacts produced:
+${artifacts || '  None.'}
+Previous reviews:
+${previousReviews || '  None.'}`;
+    }).join('\n\n');
+
+    const prompt = `
+Your review assignment is: "${reviewTask.title} - ${reviewTask.details}"
+
+Critically review the work produced by the following upstream tasks. Check that each objective is actually met, that the outputs and artifacts are correct and complete, and that earlier review comments were addressed.
+Approve only if the work is ready to be used as-is. Otherwise request changes with specific, actionable comments.
+
+${workSummary}
+`;
+
+    const responseText = await generateText({
+        purpose: 'review',
+        system: "You are a meticulous quality reviewer in a multi-agent system. You judge completed work against its objective and respond with a JSON verdict that adheres to the provided schema.",
+        messages: [{ role: 'user', content: prompt }],
+        responseFormat: 'json',
+        responseSchema: reviewSchema,
+        ...callOptions,
+    }, resolveModelProfileForAgent(reviewTask.agent.name), onTokenUpdate);
+
+    const resultJson = responseText.trim();
+    const result = JSON.parse(resultJson);
+    if (result.status !== 'Approved' && result.status !== 'Changes Requested') {
+        throw new Error("Invalid review verdict from reviewer.");
     }
+    return { status: result.status, comments: result.comments || '' };
 };
 
-export const getChatResponse = async (prompt: string, onTokenUpdate: (count: number) => void): Promise<string> => {
+/**
+ * Answers the last message of a chat thread. The thread's earlier messages are the model's only
+ * context, so threads never share a conversation and an edited thread is answered as edited.
+ * Pass `onTextDelta` to receive the reply as it is generated.
+ */
+export const getChatResponse = async (threadMessages: Message[], onTokenUpdate: TokenUpdateHandler, callOptions: LLMCallOptions = {}): Promise<string> => {
+    const conversation = threadMessages.filter(m => m.type !== 'system' && m.type !== 'action_prompt');
+    const prompt = conversation[conversation.length - 1]?.text || '';
+
     // Check for welcome triggers
     const lowerCasePrompt = prompt.toLowerCase().trim().replace(/[.,?_]/g, "");
     if (WELCOME_TRIGGERS.some(trigger => lowerCasePrompt.includes(trigger))) {
         return ECHO_EXPLANATION;
     }
 
-    if (!chat) {
-        chat = ai.chats.create({
-            model: 'gemini-2.5-flash',
-            config: {
-                systemInstruction: 'You are ECHO, a helpful AI assistant. You are direct, efficient, and concise in your responses.',
-            },
-        });
-    }
     try {
-        const response = await chat.sendMessage({ message: prompt });
-        return handleApiResponse(response, onTokenUpdate);
+        const messages: LLMMessage[] = conversation.map(m => ({
+            role: m.sender === 'user' ? 'user' : 'assistant',
+            content: m.text,
+        }));
+        return await generateText({
+            purpose: 'chat',
+            system: 'You are ECHO, a helpful AI assistant. You are direct, efficient, and concise in your responses.',
+            messages,
+            ...callOptions,
+        }, resolveModelProfileForAgent(), onTokenUpdate);
     } catch (error) {
+        if (callOptions.signal?.aborted) throw error;
         console.error("Error getting chat response:", error);
         if (error instanceof Error) {
             return `Sorry, I encountered an error: ${error.message}`;
@@ -408,7 +816,7 @@ export const getChatResponse = async (prompt: string, onTokenUpdate: (count: num
 };
 
 
-export const suggestPlaybookName = async (prompt: string, tasks: Task[], onTokenUpdate: (count: number) => void): Promise<string> => {
+export const suggestPlaybookName = async (prompt: string, tasks: Task[], onTokenUpdate: TokenUpdateHandler): Promise<string> => {
     const taskSummary = tasks.map((t, i) => `${i + 1}. [${t.agent.role}] ${t.title}`).join('\n');
     
     const summarizationPrompt = `
@@ -421,14 +829,60 @@ Based on the original prompt and the successful plan, create a short, descriptiv
 `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: summarizationPrompt,
-        });
+        const responseText = await generateText({
+            purpose: 'playbook-naming',
+            messages: [{ role: 'user', content: summarizationPrompt }],
+        }, resolveModelProfileForAgent(getAgentNameForRole('Synthesizer', loadAgentPreferences())), onTokenUpdate);
 
-        return handleApiResponse(response, onTokenUpdate).trim().replace(/"/g, '');
+        return responseText.trim().replace(/"/g, '');
     } catch (error) {
         console.error("Error suggesting playbook name:", error);
         throw new Error("Could not suggest a name for the completed plan.");
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Finds the values in a successful run that a replay would need to change, such as a PR URL or a
+ * repository name, so that the playbook saved from it can take them as parameters.
+ * @returns The parameters, each with the value it had in this run as its example.
+ */
+export const extractPlaybookParameters = async (prompt: string, tasks: Task[], onTokenUpdate: TokenUpdateHandler): Promise<PlaybookParameter[]> => {
+    const taskSummary = tasks.map((t, i) => `${i + 1}. ${t.title}\n   ${t.details}`).join('\n');
+
+    const extractionPrompt = `
+Original User Prompt: "${prompt}"
+
+Successful Task Plan:
+${taskSummary}
+
+This plan will be saved as a reusable playbook. Identify the concrete values in it that would be different the next time someone runs the same procedure,
+such as URLs, repository or project names, file paths, identifiers and numbers. Only include values that appear verbatim in the task titles or details.
+Do not include values that are part of the procedure itself. Respond with an empty array if there are none.
+`;
+
+    try {
+        const responseText = await generateText({
+            purpose: 'playbook-parameters',
+            messages: [{ role: 'user', content: extractionPrompt }],
+            responseFormat: 'json',
+            responseSchema: playbookParametersSchema,
+        }, resolveModelProfileForAgent(getAgentNameForRole('Synthesizer', loadAgentPreferences())), onTokenUpdate);
+
+        const parsed: { name: string; type: string; description: string; value: string }[] = JSON.parse(responseText.trim());
+        const parameters: PlaybookParameter[] = [];
+        parsed.forEach(p => {
+            const name = toParameterName(p.name || '');
+            if (!name || !p.value?.trim() || parameters.some(existing => existing.name === name)) return;
+            parameters.push({
+                name,
+                type: PLAYBOOK_PARAMETER_TYPES.includes(p.type as PlaybookParameter['type']) ? p.type as PlaybookParameter['type'] : 'string',
+                description: p.description || name,
+                example: p.value.trim(),
+            });
+        });
+        return parameters;
+    } catch (error) {
+        console.error("Error extracting playbook parameters:", error);
+        return [];
+    }
+};
@@ -0,0 +1,67 @@
+import type { Playbook, PlaybookParameter, PlaybookParameterType } from '../types';
+
+export type PlaybookTaskTemplate = Playbook['tasks'][number];
+
+export type ParameterValues = { [name: string]: string };
+
+export const PLAYBOOK_PARAMETER_TYPES: PlaybookParameterType[] = ['string', 'number', 'url', 'path'];
+
+const PLACEHOLDER_PATTERN = /\{([a-z][a-z0-9_]*)\}/g;
+
+/** Turns a model-suggested name into a snake_case placeholder name, e.g. "PR URL" into "pr_url". */
+export const toParameterName = (name: string): string =>
+    name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(\d)/, 'p_$1');
+
+/** Returns why a value does not fit the parameter's type, or null if it does. */
+export const validateParameterValue = (parameter: PlaybookParameter, value: string): string | null => {
+    const trimmed = value.trim();
+    if (!trimmed) return `${parameter.name} is required.`;
+    switch (parameter.type) {
+        case 'number':
+            return Number.isFinite(Number(trimmed)) ? null : `${parameter.name} must be a number.`;
+        case 'url':
+            try {
+                return /^https?:$/.test(new URL(trimmed).protocol) ? null : `${parameter.name} must be an http(s) URL.`;
+            } catch {
+                return `${parameter.name} must be a full URL, e.g. https://example.com/...`;
+            }
+        case 'path':
+            return /[\r\n]/.test(trimmed) ? `${parameter.name} must be a single file or directory path.` : null;
+        default:
+            return null;
+    }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a value only as a whole word where it starts or ends with a word character, so "12" is not found in "2012".
+const valuePattern = (value: string) =>
+    new RegExp(`${/^\w/.test(value) ? '(?<!\\w)' : ''}${escapeRegExp(value)}${/\w$/.test(value) ? '(?!\\w)' : ''}`, 'g');
+
+/**
+ * Replaces each parameter's example value in the task titles and details with its {name} placeholder.
+ * Longer values are replaced first, so a value that contains another one is not split.
+ * @returns The templated tasks and the parameters whose value was actually found in them.
+ */
+export const templatePlaybookTasks = (
+    tasks: PlaybookTaskTemplate[],
+    parameters: PlaybookParameter[]
+): { tasks: PlaybookTaskTemplate[]; parameters: PlaybookParameter[] } => {
+    const candidates = parameters
+        .filter(p => p.example && p.example.trim())
+        .sort((a, b) => b.example!.length - a.example!.length);
+    const used = new Set<string>();
+    const template = (text: string) => candidates.reduce((result, parameter) => {
+        const pattern = valuePattern(parameter.example!.trim());
+        if (!pattern.test(result)) return result;
+        used.add(parameter.name);
+        return result.replace(pattern, `{${parameter.name}}`);
+    }, text);
+
+    const templated = tasks.map(task => ({ ...task, title: template(task.title), details: template(task.details) }));
+    return { tasks: templated, parameters: parameters.filter(p => used.has(p.name)) };
+};
+
+/** Substitutes parameter values into a templated text. Placeholders without a value are left as they are. */
+export const fillPlaybookTemplate = (text: string, values: ParameterValues): string =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
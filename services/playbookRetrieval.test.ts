@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Playbook } from '../types';
+import { AUTO_USE_CONFIDENCE, describePlaybookMatch, rankPlaybooks, SUGGEST_CONFIDENCE } from './playbookRetrieval';
+
+const playbook = (id: string, name: string, triggerPrompt: string, description: string, fields: Partial<Playbook> = {}): Playbook => ({
+    id, name, triggerPrompt, description, tasks: [], createdAt: '2026-01-01T00:00:00.000Z', ...fields,
+});
+
+const playbooks = [
+    playbook('deploy', 'Deploy web app to Vercel', 'deploy my web app to vercel', 'Builds the app and deploys it to Vercel.'),
+    playbook('triage', 'Triage GitHub issue', 'triage github issue 42', 'Labels and assigns a GitHub issue.', {
+        parameters: [{ name: 'issue', type: 'number', description: 'The issue number', example: '42' }],
+    }),
+    playbook('report', 'Weekly sales report', 'write the weekly sales report', 'Collects the sales numbers of the week and writes a report.'),
+];
+
+describe('rankPlaybooks', () => {
+    it('matches stemmed words across the name, description and original prompt', () => {
+        const [match, ...rest] = rankPlaybooks('Deploying the web app to Vercel', playbooks);
+
+        expect(rest).toEqual([]);
+        expect(match.playbook.id).toBe('deploy');
+        expect(match.confidence).toBeGreaterThanOrEqual(AUTO_USE_CONFIDENCE);
+        expect(match.matchedTerms).toEqual([
+            { term: 'deploying', fields: ['name', 'description', 'triggerPrompt'] },
+            { term: 'web', fields: ['name', 'triggerPrompt'] },
+            { term: 'app', fields: ['name', 'description', 'triggerPrompt'] },
+            { term: 'vercel', fields: ['name', 'description', 'triggerPrompt'] },
+        ]);
+    });
+
+    it('ignores parameter values, so a new issue number still matches fully', () => {
+        const [match] = rankPlaybooks('triage github issue 108', playbooks);
+
+        expect(match.playbook.id).toBe('triage');
+        expect(match.confidence).toBe(1);
+    });
+
+    it('ranks by confidence, then by BM25 score', () => {
+        const byConfidence = rankPlaybooks('github sales report', playbooks);
+        expect(byConfidence.map(m => m.playbook.id)).toEqual(['report', 'triage']);
+        expect(byConfidence[0].confidence).toBeGreaterThan(byConfidence[1].confidence);
+
+        const tied = rankPlaybooks('weekly report of app deploys', playbooks);
+        expect(tied.map(m => m.playbook.id)).toEqual(['deploy', 'report']);
+        expect(tied[0].confidence).toBe(tied[1].confidence);
+        expect(tied[0].score).toBeGreaterThan(tied[1].score);
+    });
+
+    it('gives a partial match a confidence between the thresholds', () => {
+        const [match] = rankPlaybooks('deploy the docs site to vercel', playbooks);
+
+        expect(match.confidence).toBeGreaterThanOrEqual(SUGGEST_CONFIDENCE);
+        expect(match.confidence).toBeLessThan(AUTO_USE_CONFIDENCE);
+    });
+
+    it('scores a match on one common word below the suggestion threshold', () => {
+        const matches = rankPlaybooks('write a poem about the sea', playbooks);
+
+        expect(matches.map(m => m.playbook.id)).toEqual(['report']);
+        expect(matches[0].confidence).toBeLessThan(SUGGEST_CONFIDENCE);
+        expect(rankPlaybooks('github sales report', playbooks)[1].confidence).toBeLessThan(SUGGEST_CONFIDENCE);
+    });
+
+    it('returns nothing when no word matches', () => {
+        expect(rankPlaybooks('cook dinner', playbooks)).toEqual([]);
+        expect(rankPlaybooks('the and of', playbooks)).toEqual([]);
+        expect(rankPlaybooks('deploy', [])).toEqual([]);
+    });
+});
+
+describe('describePlaybookMatch', () => {
+    it('names the confidence, the matched words and where they were found', () => {
+        const [match] = rankPlaybooks('triage github issue 108', playbooks);
+
+        expect(describePlaybookMatch(match)).toBe('100% confidence: matched "triage", "github", "issue" in its name and original prompt and description');
+    });
+});
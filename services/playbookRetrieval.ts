@@ -0,0 +1,135 @@
+import type { Playbook } from '../types';
+
+export type PlaybookMatchField = 'name' | 'description' | 'triggerPrompt';
+
+export interface PlaybookMatch {
+    playbook: Playbook;
+    // The BM25 score, which ranks the candidates but is not comparable between prompts.
+    score: number;
+    // How well the prompt and the playbook cover each other, from 0 to 1. Compared with the thresholds below.
+    confidence: number;
+    // The prompt's words found in the playbook, with the fields they were found in.
+    matchedTerms: { term: string; fields: PlaybookMatchField[] }[];
+}
+
+// At or above this confidence a playbook is replayed without asking.
+export const AUTO_USE_CONFIDENCE = 0.7;
+// At or above this confidence a playbook is suggested to the user; below it the request is planned from scratch.
+export const SUGGEST_CONFIDENCE = 0.35;
+export const MAX_SUGGESTIONS = 3;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// A playbook's name says what it does most directly, so its words count double.
+const FIELD_WEIGHTS: Record<PlaybookMatchField, number> = { name: 2, description: 1, triggerPrompt: 1 };
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'in', 'into', 'is', 'it',
+    'its', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'so', 'that', 'the', 'this', 'to', 'up', 'we', 'what', 'with', 'you', 'your',
+]);
+
+// A light suffix stripper, so that "deploying", "deployed" and "deploys" all match "deploy".
+const stem = (word: string): string => {
+    if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+    if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+};
+
+/** Splits a text into stemmed search terms, keeping the first original word of each for display. */
+const tokenize = (text: string): { term: string; word: string }[] =>
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+        .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+        .map(word => ({ term: stem(word), word }));
+
+// Numbers in a prompt are usually values such as an issue number, not a description of the procedure.
+const isDescriptive = (term: string) => !/^\d+$/.test(term);
+
+interface IndexedPlaybook {
+    playbook: Playbook;
+    fieldTerms: Record<PlaybookMatchField, Set<string>>;
+    termFrequencies: Map<string, number>;
+    length: number;
+    // The words that say what the playbook does: its name and trigger prompt, less its parameter values.
+    identity: Set<string>;
+}
+
+const indexPlaybook = (playbook: Playbook): IndexedPlaybook => {
+    const fieldTerms = {} as Record<PlaybookMatchField, Set<string>>;
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+    (Object.keys(FIELD_WEIGHTS) as PlaybookMatchField[]).forEach(field => {
+        const terms = tokenize(playbook[field] || '').map(t => t.term);
+        fieldTerms[field] = new Set(terms);
+        terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) || 0) + FIELD_WEIGHTS[field]));
+        length += terms.length * FIELD_WEIGHTS[field];
+    });
+    const parameterTerms = new Set((playbook.parameters || []).flatMap(p => tokenize(p.example || '').map(t => t.term)));
+    const identity = new Set([...fieldTerms.name, ...fieldTerms.triggerPrompt].filter(term => isDescriptive(term) && !parameterTerms.has(term)));
+    return { playbook, fieldTerms, termFrequencies, length, identity };
+};
+
+/**
+ * Ranks playbooks by how well they match a prompt, using BM25 over their name, description and
+ * trigger prompt. No model is involved, so this is fast and its results can be explained.
+ * @returns Every playbook that shares at least one word with the prompt, best first.
+ */
+export const rankPlaybooks = (prompt: string, playbooks: Playbook[]): PlaybookMatch[] => {
+    const queryTokens = tokenize(prompt);
+    const queryTerms = Array.from(new Set(queryTokens.map(t => t.term)));
+    if (queryTerms.length === 0 || playbooks.length === 0) return [];
+
+    const indexed = playbooks.map(indexPlaybook);
+    const averageLength = indexed.reduce((sum, doc) => sum + doc.length, 0) / indexed.length || 1;
+    const documentFrequency = (term: string) => indexed.filter(doc => doc.termFrequencies.has(term)).length;
+    const idfCache = new Map<string, number>();
+    // Words no playbook contains are weighted like the rarest ones that do, so that one unusual word cannot sink a match.
+    const idf = (term: string) => {
+        if (!idfCache.has(term)) {
+            const df = Math.max(1, documentFrequency(term));
+            idfCache.set(term, Math.log(1 + (indexed.length - df + 0.5) / (df + 0.5)));
+        }
+        return idfCache.get(term)!;
+    };
+    const weight = (terms: Iterable<string>) => Array.from(terms).reduce((sum, term) => sum + idf(term), 0);
+    const wordFor = (term: string) => queryTokens.find(t => t.term === term)!.word;
+
+    return indexed.map(doc => {
+        const score = queryTerms.reduce((sum, term) => {
+            const tf = doc.termFrequencies.get(term) || 0;
+            if (tf === 0) return sum;
+            return sum + idf(term) * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / averageLength));
+        }, 0);
+
+        const matched = queryTerms.filter(term => doc.termFrequencies.has(term));
+        const descriptiveQuery = queryTerms.filter(isDescriptive);
+        // How much of the prompt the playbook explains, and how much of the playbook the prompt asks for.
+        const promptCoverage = descriptiveQuery.length > 0 ? weight(matched.filter(isDescriptive)) / weight(descriptiveQuery) : 0;
+        const playbookCoverage = doc.identity.size > 0 ? weight(queryTerms.filter(term => doc.identity.has(term))) / weight(doc.identity) : 0;
+        const confidence = promptCoverage + playbookCoverage > 0
+            ? 2 * promptCoverage * playbookCoverage / (promptCoverage + playbookCoverage)
+            : 0;
+
+        return {
+            playbook: doc.playbook,
+            score,
+            confidence,
+            matchedTerms: matched.map(term => ({
+                term: wordFor(term),
+                fields: (Object.keys(FIELD_WEIGHTS) as PlaybookMatchField[]).filter(field => doc.fieldTerms[field].has(term)),
+            })),
+        };
+    })
+        .filter(match => match.matchedTerms.length > 0)
+        .sort((a, b) => b.confidence - a.confidence || b.score - a.score);
+};
+
+export const PLAYBOOK_MATCH_FIELD_LABELS: Record<PlaybookMatchField, string> = { name: 'name', description: 'description', triggerPrompt: 'original prompt' };
+
+/** A one-line explanation of a match, e.g. for the Live Terminal. */
+export const describePlaybookMatch = (match: PlaybookMatch): string => {
+    const fields = Array.from(new Set(match.matchedTerms.flatMap(t => t.fields))).map(field => PLAYBOOK_MATCH_FIELD_LABELS[field]);
+    const terms = match.matchedTerms.map(t => `"${t.term}"`).join(', ');
+    return `${Math.round(match.confidence * 100)}% confidence: matched ${terms} in its ${fields.join(' and ')}`;
+};
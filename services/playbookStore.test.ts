@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parsePlaybookFile, serializePlaybooks } from './playbookStore';
+
+const task = (title: string, dependsOn?: unknown) => ({ title, details: `${title}.`, agent: { role: 'Executor', name: 'God Mode' }, dependsOn });
+const file = (entry: object) => JSON.stringify({ playbooks: [{ name: 'Release', description: '', triggerPrompt: 'release', ...entry }] });
+
+describe('playbook import', () => {
+    it('round-trips exported playbooks through JSON and YAML', () => {
+        const { playbooks } = parsePlaybookFile(file({
+            parameters: [{ name: 'package', type: 'string', description: 'The package' }],
+            tasks: [task('Build'), task('Publish', [0])],
+        }), 'json');
+
+        for (const format of ['json', 'yaml'] as const) {
+            const reparsed = parsePlaybookFile(serializePlaybooks(playbooks, format), format);
+            expect(reparsed.problems).toEqual([]);
+            expect(reparsed.playbooks[0].tasks.map(t => t.dependsOn)).toEqual([undefined, [0]]);
+            expect(reparsed.playbooks[0].parameters?.[0].name).toBe('package');
+        }
+    });
+
+    it('skips a playbook whose dependsOn is not a list', () => {
+        const result = parsePlaybookFile(file({ tasks: [task('Build'), task('Publish', '0')] }), 'json');
+
+        expect(result.playbooks).toEqual([]);
+        expect(result.problems).toEqual(['"Release" was skipped: Task 2 has a dependsOn that is not a list of task numbers.']);
+    });
+
+    it('skips a playbook that depends on a task index out of range', () => {
+        const result = parsePlaybookFile(file({ tasks: [task('Build'), task('Publish', [0, 2.5, 7])] }), 'json');
+
+        expect(result.playbooks).toEqual([]);
+        expect(result.problems[0]).toContain('Task 2 depends on 2.5, which is not the index of a task (0 to 1).');
+        expect(result.problems[0]).toContain('Task 2 depends on 7, which is not the index of a task (0 to 1).');
+    });
+
+    it('skips a playbook with an unnamed parameter and keeps the valid ones', () => {
+        const text = JSON.stringify([
+            { name: 'Broken', triggerPrompt: 'x', parameters: [{ type: 'string' }], tasks: [task('Build')] },
+            { name: 'Fine', triggerPrompt: 'y', tasks: [task('Build')] },
+        ]);
+
+        const result = parsePlaybookFile(text, 'json');
+
+        expect(result.playbooks.map(p => p.name)).toEqual(['Fine']);
+        expect(result.problems).toEqual(['"Broken" was skipped: Parameter 1 needs a name.']);
+    });
+});
@@ -0,0 +1,230 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { AgentRole, Playbook, PlaybookVersion } from '../types';
+import { validateTaskGraph } from './taskGraph';
+import { PLAYBOOK_PARAMETER_TYPES } from './playbookParameters';
+
+const PLAYBOOKS_STORAGE_KEY = 'echo-playbooks';
+const VERSIONS_STORAGE_KEY = 'echo-playbook-versions';
+// Older versions beyond this are dropped, oldest first, to keep localStorage small.
+const MAX_VERSIONS_PER_PLAYBOOK = 50;
+
+export type PlaybookFileFormat = 'json' | 'yaml';
+
+const AGENT_ROLES: AgentRole[] = ['Planner', 'Executor', 'Reviewer', 'Synthesizer'];
+
+export const loadPlaybooks = (): Playbook[] => {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+        const parsed = JSON.parse(localStorage.getItem(PLAYBOOKS_STORAGE_KEY) || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.error("Failed to parse playbooks from localStorage", error);
+        return [];
+    }
+};
+
+export const savePlaybooks = (playbooks: Playbook[]) => {
+    try {
+        localStorage.setItem(PLAYBOOKS_STORAGE_KEY, JSON.stringify(playbooks));
+    } catch (error) {
+        console.error("Failed to save playbooks to localStorage", error);
+    }
+};
+
+const loadAllVersions = (): { [playbookId: string]: PlaybookVersion[] } => {
+    if (typeof localStorage === 'undefined') return {};
+    try {
+        return JSON.parse(localStorage.getItem(VERSIONS_STORAGE_KEY) || '{}');
+    } catch (error) {
+        console.error("Failed to parse playbook versions from localStorage", error);
+        return {};
+    }
+};
+
+const saveAllVersions = (versions: { [playbookId: string]: PlaybookVersion[] }) => {
+    try {
+        localStorage.setItem(VERSIONS_STORAGE_KEY, JSON.stringify(versions));
+    } catch (error) {
+        console.error("Failed to save playbook versions to localStorage", error);
+    }
+};
+
+/** A playbook's saved versions, oldest first. */
+export const loadPlaybookVersions = (playbookId: string): PlaybookVersion[] => loadAllVersions()[playbookId] || [];
+
+/**
+ * Snapshots a playbook as its next version. A playbook saved before versioning existed gets its
+ * previous state recorded first, so that the first edit can still be compared and rolled back.
+ * @returns The playbook stamped with its new version number.
+ */
+export const recordPlaybookVersion = (playbook: Playbook, summary: string, previous?: Playbook): Playbook => {
+    const all = loadAllVersions();
+    const history = [...(all[playbook.id] || [])];
+    if (history.length === 0 && previous) {
+        const original = { ...previous, version: 1, updatedAt: previous.updatedAt || previous.createdAt };
+        history.push({ version: 1, savedAt: original.updatedAt, summary: 'Original', playbook: original });
+    }
+    const version = (history[history.length - 1]?.version || 0) + 1;
+    const savedAt = new Date().toISOString();
+    const stamped = { ...playbook, version, updatedAt: savedAt };
+    history.push({ version, savedAt, summary, playbook: stamped });
+    all[playbook.id] = history.slice(-MAX_VERSIONS_PER_PLAYBOOK);
+    saveAllVersions(all);
+    return stamped;
+};
+
+export const deletePlaybookVersions = (playbookIds: string[]) => {
+    const all = loadAllVersions();
+    playbookIds.forEach(id => delete all[id]);
+    saveAllVersions(all);
+};
+
+/**
+ * Checks a playbook's fields and task graph.
+ * @returns A list of human-readable problems. An empty list means the playbook can be saved and replayed.
+ */
+export const validatePlaybook = (playbook: Playbook): string[] => {
+    const problems: string[] = [];
+    if (!playbook.name?.trim()) problems.push('The playbook needs a name.');
+    if (!Array.isArray(playbook.tasks) || playbook.tasks.length === 0) {
+        problems.push('The playbook needs at least one task.');
+        return problems;
+    }
+    const taskCount = playbook.tasks.length;
+    let dependenciesValid = true;
+    playbook.tasks.forEach((task, index) => {
+        if (typeof task.title !== 'string' || !task.title.trim()) problems.push(`Task ${index + 1} needs a title.`);
+        if (!AGENT_ROLES.includes(task.agent?.role)) problems.push(`Task ${index + 1} has an unknown agent role '${task.agent?.role}'.`);
+        if (task.dependsOn === undefined) return;
+        // Imported files are not typed, so dependsOn may be anything.
+        const dependsOn: unknown = task.dependsOn;
+        if (!Array.isArray(dependsOn)) {
+            problems.push(`Task ${index + 1} has a dependsOn that is not a list of task numbers.`);
+            dependenciesValid = false;
+            return;
+        }
+        dependsOn.forEach(dep => {
+            if (!Number.isInteger(dep) || dep < 0 || dep >= taskCount) {
+                problems.push(`Task ${index + 1} depends on ${JSON.stringify(dep)}, which is not the index of a task (0 to ${taskCount - 1}).`);
+                dependenciesValid = false;
+            } else if (dep === index) {
+                problems.push(`Task ${index + 1} cannot depend on itself.`);
+                dependenciesValid = false;
+            }
+        });
+    });
+    const parameters: unknown = playbook.parameters;
+    if (parameters !== undefined && !Array.isArray(parameters)) {
+        problems.push('The parameters must be a list.');
+    } else {
+        (playbook.parameters || []).forEach((parameter, index) => {
+            if (typeof parameter?.name !== 'string' || !parameter.name.trim()) {
+                problems.push(`Parameter ${index + 1} needs a name.`);
+            } else if (!PLAYBOOK_PARAMETER_TYPES.includes(parameter.type)) {
+                problems.push(`Parameter '${parameter.name}' has an unknown type '${parameter.type}'.`);
+            }
+        });
+    }
+    // Playbooks without dependency indices replay as a linear chain, which is always valid.
+    if (dependenciesValid && playbook.tasks.some(task => task.dependsOn)) {
+        problems.push(...validateTaskGraph(playbook.tasks.map((task, index) => ({
+            id: String(index),
+            title: task.title || `Task ${index + 1}`,
+            dependencies: (task.dependsOn || []).filter(dep => dep !== index).map(String),
+        }))));
+    }
+    return problems;
+};
+
+// The fields that define what a playbook does, in a stable order: what is exported and compared between versions.
+const toPortable = (playbook: Playbook) => ({
+    id: playbook.id,
+    name: playbook.name,
+    description: playbook.description,
+    triggerPrompt: playbook.triggerPrompt,
+    ...(playbook.parameters?.length ? { parameters: playbook.parameters } : {}),
+    tasks: playbook.tasks,
+    createdAt: playbook.createdAt,
+    ...(playbook.version ? { version: playbook.version } : {}),
+});
+
+/** A playbook as YAML without its bookkeeping fields, for line diffs between versions. */
+export const playbookToDiffText = (playbook: Playbook): string => {
+    const { id, createdAt, version, ...content } = toPortable(playbook);
+    return stringifyYaml(content, { lineWidth: 0 });
+};
+
+/** A short description of what changed between two versions, e.g. "Changed name and tasks". */
+export const summarizePlaybookChanges = (before: Playbook, after: Playbook): string => {
+    const labels: [keyof Playbook, string][] = [['name', 'name'], ['description', 'description'], ['triggerPrompt', 'trigger prompt'], ['parameters', 'parameters'], ['tasks', 'tasks']];
+    const changed = labels
+        .filter(([field]) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+        .map(([, label]) => label);
+    if (changed.length === 0) return 'Saved without changes';
+    return `Changed ${changed.length > 1 ? `${changed.slice(0, -1).join(', ')} and ${changed[changed.length - 1]}` : changed[0]}`;
+};
+
+export const serializePlaybooks = (playbooks: Playbook[], format: PlaybookFileFormat): string => {
+    const document = { playbooks: playbooks.map(toPortable) };
+    return format === 'yaml' ? stringifyYaml(document, { lineWidth: 0 }) : JSON.stringify(document, null, 2);
+};
+
+// Reads the fields of one imported playbook, leaving their validation to validatePlaybook.
+const toImportedPlaybook = (entry: any, index: number): Playbook => ({
+    id: typeof entry?.id === 'string' && entry.id ? entry.id : `playbook-${Date.now()}-${index}`,
+    name: String(entry?.name ?? ''),
+    description: String(entry?.description ?? ''),
+    triggerPrompt: String(entry?.triggerPrompt ?? ''),
+    // An empty list is dropped; anything else is kept for validatePlaybook to check.
+    ...(entry?.parameters !== undefined && entry?.parameters !== null && !(Array.isArray(entry.parameters) && entry.parameters.length === 0) ? { parameters: entry.parameters } : {}),
+    tasks: Array.isArray(entry?.tasks) ? entry.tasks.map((task: any) => ({
+        ...task,
+        title: String(task?.title ?? ''),
+        details: String(task?.details ?? ''),
+        estimatedTime: String(task?.estimatedTime ?? '~45s'),
+        agent: { role: task?.agent?.role ?? task?.agentRole, name: String(task?.agent?.name ?? '') },
+    })) : [],
+    createdAt: typeof entry?.createdAt === 'string' ? entry.createdAt : new Date().toISOString(),
+});
+
+/**
+ * Reads playbooks from an exported JSON or YAML file. The file may hold `{ playbooks: [...] }`,
+ * a bare list, or a single playbook.
+ * @returns The valid playbooks, and a problem for each one that was skipped.
+ */
+export const parsePlaybookFile = (text: string, format: PlaybookFileFormat): { playbooks: Playbook[]; problems: string[] } => {
+    let document: any;
+    try {
+        document = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { playbooks: [], problems: [`The file is not valid ${format.toUpperCase()}: ${message}`] };
+    }
+
+    const entries: unknown[] = Array.isArray(document) ? document
+        : Array.isArray(document?.playbooks) ? document.playbooks
+        : document && typeof document === 'object' ? [document]
+        : [];
+    const playbooks: Playbook[] = [];
+    const problems: string[] = [];
+    entries.forEach((entry: any, index) => {
+        const label = typeof entry?.name === 'string' && entry.name ? `"${entry.name}"` : `Playbook ${index + 1}`;
+        try {
+            const playbook = toImportedPlaybook(entry, index);
+            const playbookProblems = validatePlaybook(playbook);
+            if (playbookProblems.length > 0) {
+                problems.push(`${label} was skipped: ${playbookProblems.join(' ')}`);
+            } else {
+                playbooks.push(playbook);
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            problems.push(`${label} was skipped: ${message}`);
+        }
+    });
+    if (entries.length === 0) problems.push('The file contains no playbooks.');
+    return { playbooks, problems };
+};
+
+export const getPlaybookFileFormat = (fileName: string): PlaybookFileFormat =>
+    /\.ya?ml$/i.test(fileName) ? 'yaml' : 'json';
@@ -0,0 +1,153 @@
+export type ErrorKind = 'transient' | 'permanent';
+
+/** An error from an HTTP call that keeps the status code, so that retries can be decided on it. */
+export class RequestError extends Error {
+    readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'RequestError';
+        this.status = status;
+    }
+}
+
+/** Raised when a task attempt or a tool call runs out of time. */
+export class TimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
+}
+
+/** A failure that retrying cannot fix, e.g. a missing credential. */
+export class PermanentError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'PermanentError';
+    }
+}
+
+const PERMANENT_STATUSES = [400, 401, 403, 404, 405, 422];
+const TRANSIENT_PATTERNS = /network|fetch failed|failed to fetch|econnreset|econnrefused|etimedout|socket hang up|rate limit|too many requests|resource.exhausted|overloaded|unavailable|timed out/i;
+const PERMANENT_PATTERNS = /unknown tool|tool '.*' not found|unsupported|not connected|api key|unauthori[sz]ed|forbidden|permission denied|invalid credentials/i;
+
+// The Gemini SDK only reports the status in its error messages ("got status: 429 ...").
+const getStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') return status;
+    const match = error instanceof Error ? error.message.match(/got status:\s*(\d{3})/) : null;
+    return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Decides whether an error is worth retrying. Network failures, timeouts, 429 and 5xx responses
+ * are transient; missing tools, missing or rejected credentials and other 4xx responses are
+ * permanent. Errors that match neither are treated as transient, since the agent may take a
+ * different path on the next attempt.
+ */
+export const classifyError = (error: unknown): ErrorKind => {
+    if (error instanceof PermanentError) return 'permanent';
+    if (error instanceof TimeoutError) return 'transient';
+    if (error instanceof Error && error.cause !== undefined) return classifyError(error.cause);
+
+    const status = getStatus(error);
+    if (status !== undefined) {
+        if (status === 408 || status === 429 || status >= 500) return 'transient';
+        if (PERMANENT_STATUSES.includes(status)) return 'permanent';
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (TRANSIENT_PATTERNS.test(message)) return 'transient';
+    if (PERMANENT_PATTERNS.test(message)) return 'permanent';
+    return 'transient';
+};
+
+/**
+ * Exponential backoff with jitter: the delay doubles with every attempt up to `maxMs`, and a random
+ * half of it is added or withheld so that parallel tasks failing together do not retry in lockstep.
+ * @param attempt The 1-based number of the retry about to be made.
+ */
+export const getRetryDelay = (attempt: number, baseMs: number, maxMs = 30_000): number => {
+    const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+/**
+ * A time limit that can be suspended, e.g. while a task waits on the user, who may take longer
+ * than the task is allowed to run. Its signal aborts with a TimeoutError once the time is used up.
+ * Suspensions nest: the clock only runs again once every `suspend` has been matched by `resume`.
+ */
+export class Deadline {
+    private readonly controller = new AbortController();
+    readonly signal = this.controller.signal;
+    private remainingMs: number;
+    private startedAt = 0;
+    private timer?: ReturnType<typeof setTimeout>;
+    private suspensions = 0;
+
+    constructor(timeoutMs: number, private readonly message: string) {
+        this.remainingMs = timeoutMs;
+        this.start();
+    }
+
+    get isSuspended(): boolean {
+        return this.suspensions > 0;
+    }
+
+    suspend() {
+        if (this.suspensions++ > 0 || this.signal.aborted) return;
+        clearTimeout(this.timer);
+        this.remainingMs -= Date.now() - this.startedAt;
+    }
+
+    resume() {
+        if (this.suspensions === 0 || --this.suspensions > 0) return;
+        this.start();
+    }
+
+    clear() {
+        clearTimeout(this.timer);
+    }
+
+    private start() {
+        if (this.signal.aborted) return;
+        this.startedAt = Date.now();
+        this.timer = setTimeout(() => this.controller.abort(new TimeoutError(this.message)), Math.max(0, this.remainingMs));
+    }
+}
+
+/**
+ * Runs an abortable operation with a time limit. The operation receives a signal that aborts when
+ * the limit is hit or when `parentSignal` aborts, and the returned promise rejects at that moment
+ * even if the operation ignores its signal.
+ * @param timeout A limit in milliseconds, or a Deadline the caller suspends and clears itself.
+ */
+export const runWithTimeout = async <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    timeout: number | Deadline | undefined,
+    timeoutMessage: string,
+    parentSignal?: AbortSignal
+): Promise<T> => {
+    const controller = new AbortController();
+    const abortFromParent = () => controller.abort(parentSignal?.reason);
+    if (parentSignal?.aborted) abortFromParent();
+    parentSignal?.addEventListener('abort', abortFromParent, { once: true });
+    const deadline = typeof timeout === 'number' ? (timeout > 0 ? new Deadline(timeout, timeoutMessage) : undefined) : timeout;
+    const abortFromDeadline = () => controller.abort(deadline?.signal.reason);
+    if (deadline?.signal.aborted) abortFromDeadline();
+    deadline?.signal.addEventListener('abort', abortFromDeadline, { once: true });
+
+    try {
+        return await Promise.race([
+            operation(controller.signal),
+            new Promise<never>((_, reject) => {
+                if (controller.signal.aborted) reject(controller.signal.reason);
+                controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+            }),
+        ]);
+    } finally {
+        if (deadline !== timeout) deadline?.clear();
+        deadline?.signal.removeEventListener('abort', abortFromDeadline);
+        parentSignal?.removeEventListener('abort', abortFromParent);
+    }
+};
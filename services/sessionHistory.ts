@@ -0,0 +1,67 @@
+import { AgentMode, SessionOutcome, SessionRecord } from '../types';
+
+export interface SessionFilter {
+    query: string;
+    mode: AgentMode | 'all';
+    outcome: SessionOutcome | 'all';
+}
+
+const SNIPPET_RADIUS = 60;
+
+// Sessions are immutable once loaded, so their searchable text is built once per record.
+const searchTextCache = new WeakMap<SessionRecord, string[]>();
+
+/** Every piece of text in a session that full-text search looks at. */
+const getSearchableText = (session: SessionRecord): string[] => {
+    let text = searchTextCache.get(session);
+    if (!text) {
+        text = [
+            session.name || '',
+            session.prompt,
+            session.refinedPrompt || '',
+            ...session.tasks.flatMap(task => [
+                task.title,
+                task.details,
+                task.output?.summary || '',
+                ...Object.values(task.output?.values || {}),
+            ]),
+            ...session.artifacts.flatMap(artifact => [artifact.title, artifact.content]),
+            ...session.logs.map(log => log.message),
+            ...session.messages.map(message => message.text),
+        ].filter(Boolean);
+        searchTextCache.set(session, text);
+    }
+    return text;
+};
+
+const toTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+/**
+ * Keeps the sessions that match the mode and outcome filters and contain every word of the query
+ * somewhere in their prompt, tasks, artifacts, logs or messages.
+ */
+export const filterSessions = (sessions: SessionRecord[], filter: SessionFilter): SessionRecord[] => {
+    const terms = toTerms(filter.query);
+    return sessions.filter(session => {
+        if (filter.mode !== 'all' && session.mode !== filter.mode) return false;
+        if (filter.outcome !== 'all' && session.outcome !== filter.outcome) return false;
+        if (terms.length === 0) return true;
+        const text = getSearchableText(session).join('\n').toLowerCase();
+        return terms.every(term => text.includes(term));
+    });
+};
+
+/** The text around the first match of the query, to show why a session matched. */
+export const getMatchSnippet = (session: SessionRecord, query: string): string | null => {
+    const terms = toTerms(query);
+    if (terms.length === 0) return null;
+    for (const text of getSearchableText(session)) {
+        const lower = text.toLowerCase();
+        const index = terms.map(term => lower.indexOf(term)).find(i => i >= 0);
+        if (index === undefined) continue;
+        const start = Math.max(0, index - SNIPPET_RADIUS);
+        const end = Math.min(text.length, index + SNIPPET_RADIUS);
+        return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+    }
+    return null;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getTaskLevels, validateTaskGraph } from './taskGraph';
+
+const node = (id: string, dependencies: string[] = []) => ({ id, title: id.toUpperCase(), dependencies });
+
+describe('validateTaskGraph', () => {
+    it('accepts a DAG with parallel branches', () => {
+        expect(validateTaskGraph([node('a'), node('b'), node('c', ['a', 'b'])])).toEqual([]);
+    });
+
+    it('reports a dependency on an unknown task', () => {
+        expect(validateTaskGraph([node('a'), node('b', ['missing'])])).toEqual([
+            `Task "B" depends on unknown task 'missing'.`,
+        ]);
+    });
+
+    it('reports a task that depends on itself', () => {
+        expect(validateTaskGraph([node('a'), node('b', ['b'])])).toEqual([
+            'The plan contains a dependency cycle: "B" -> "B".',
+        ]);
+    });
+
+    it('reports each cycle once, along with the missing root', () => {
+        expect(validateTaskGraph([node('a', ['c']), node('b', ['a']), node('c', ['b'])])).toEqual([
+            'The plan has no root task: every task depends on another one.',
+            'The plan contains a dependency cycle: "A" -> "C" -> "B" -> "A".',
+        ]);
+    });
+
+    it('finds a cycle below a valid root', () => {
+        const problems = validateTaskGraph([node('root'), node('x', ['root', 'y']), node('y', ['x'])]);
+
+        expect(problems).toEqual(['The plan contains a dependency cycle: "X" -> "Y" -> "X".']);
+    });
+});
+
+describe('getTaskLevels', () => {
+    it('puts each task one level after its deepest dependency', () => {
+        const levels = getTaskLevels([node('a'), node('b', ['a']), node('c'), node('d', ['b', 'c'])]);
+
+        expect(levels.map(level => level.map(t => t.id))).toEqual([['a', 'c'], ['b'], ['d']]);
+    });
+
+    it('still levels a graph with unknown dependencies and cycles', () => {
+        const levels = getTaskLevels([node('a', ['missing']), node('b', ['c']), node('c', ['b'])]);
+
+        expect(levels.flat().map(t => t.id).sort()).toEqual(['a', 'b', 'c']);
+    });
+});
@@ -0,0 +1,85 @@
+import type { Task } from '../types';
+
+type GraphNode = Pick<Task, 'id' | 'title' | 'dependencies'>;
+
+/**
+ * Checks that a set of tasks forms a runnable DAG.
+ * @returns A list of human-readable problems. An empty list means the graph is valid.
+ */
+export const validateTaskGraph = (tasks: GraphNode[]): string[] => {
+    const problems: string[] = [];
+    if (tasks.length === 0) return problems;
+
+    const byId = new Map(tasks.map(t => [t.id, t]));
+
+    tasks.forEach(task => {
+        task.dependencies.forEach(depId => {
+            if (!byId.has(depId)) {
+                problems.push(`Task "${task.title}" depends on unknown task '${depId}'.`);
+            }
+        });
+    });
+
+    if (!tasks.some(t => t.dependencies.length === 0)) {
+        problems.push('The plan has no root task: every task depends on another one.');
+    }
+
+    // Depth-first search; a dependency that is still on the stack closes a cycle.
+    const state = new Map<string, 'visiting' | 'visited'>();
+    const stack: string[] = [];
+    const reportedCycles = new Set<string>();
+
+    const visit = (id: string) => {
+        const current = state.get(id);
+        if (current === 'visited') return;
+        if (current === 'visiting') {
+            const cycle = stack.slice(stack.indexOf(id));
+            const signature = [...cycle].sort().join('|');
+            if (!reportedCycles.has(signature)) {
+                reportedCycles.add(signature);
+                const titles = [...cycle, id].map(cid => `"${byId.get(cid)?.title}"`).join(' -> ');
+                problems.push(`The plan contains a dependency cycle: ${titles}.`);
+            }
+            return;
+        }
+        state.set(id, 'visiting');
+        stack.push(id);
+        byId.get(id)?.dependencies.forEach(depId => {
+            if (byId.has(depId)) visit(depId);
+        });
+        stack.pop();
+        state.set(id, 'visited');
+    };
+
+    tasks.forEach(t => visit(t.id));
+    return problems;
+};
+
+/**
+ * Groups tasks into levels, where every task sits one level after its deepest dependency.
+ * Tasks in the same level have no dependencies on each other and can run in parallel.
+ * Unknown dependencies and cycles are ignored so that a partially broken graph still renders.
+ */
+export const getTaskLevels = <T extends GraphNode>(tasks: T[]): T[][] => {
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const depths = new Map<string, number>();
+
+    const depthOf = (id: string, seen: Set<string>): number => {
+        const known = depths.get(id);
+        if (known !== undefined) return known;
+        if (seen.has(id)) return 0;
+        seen.add(id);
+        const deps = (byId.get(id)?.dependencies || []).filter(depId => byId.has(depId));
+        const depth = deps.length === 0 ? 0 : Math.max(...deps.map(depId => depthOf(depId, seen))) + 1;
+        seen.delete(id);
+        depths.set(id, depth);
+        return depth;
+    };
+
+    const levels: T[][] = [];
+    tasks.forEach(task => {
+        const depth = depthOf(task.id, new Set());
+        (levels[depth] = levels[depth] || []).push(task);
+    });
+    return levels.filter(Boolean);
+};
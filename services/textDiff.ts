@@ -0,0 +1,80 @@
+export interface DiffLine {
+    kind: 'same' | 'added' | 'removed';
+    text: string;
+    // 1-based line numbers in the old and new text; a line only has the number of the side it appears on.
+    oldLine?: number;
+    newLine?: number;
+}
+
+// The LCS table is quadratic; beyond this many cells the texts are shown as fully replaced instead.
+const MAX_DIFF_CELLS = 4_000_000;
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Computes a line diff between two texts using the longest common subsequence, so that unchanged
+ * lines are kept in place and only the edited lines are marked as removed and added.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const oldLines = splitLines(before);
+    const newLines = splitLines(after);
+
+    // Common prefix and suffix need no table; editing a file usually leaves most of it untouched.
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) suffix++;
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    const middle: DiffLine[] = [];
+
+    if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+        oldMiddle.forEach(text => middle.push({ kind: 'removed', text }));
+        newMiddle.forEach(text => middle.push({ kind: 'added', text }));
+    } else {
+        // lcs[i][j] is the LCS length of oldMiddle[i..] and newMiddle[j..].
+        const lcs = Array.from({ length: oldMiddle.length + 1 }, () => new Uint32Array(newMiddle.length + 1));
+        for (let i = oldMiddle.length - 1; i >= 0; i--) {
+            for (let j = newMiddle.length - 1; j >= 0; j--) {
+                lcs[i][j] = oldMiddle[i] === newMiddle[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < oldMiddle.length || j < newMiddle.length) {
+            if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+                middle.push({ kind: 'same', text: oldMiddle[i] });
+                i++;
+                j++;
+            } else if (i < oldMiddle.length && (j === newMiddle.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+                // Removals come before additions at a change, as in a unified diff.
+                middle.push({ kind: 'removed', text: oldMiddle[i++] });
+            } else {
+                middle.push({ kind: 'added', text: newMiddle[j++] });
+            }
+        }
+    }
+
+    const lines: DiffLine[] = [
+        ...oldLines.slice(0, prefix).map(text => ({ kind: 'same' as const, text })),
+        ...middle,
+        ...oldLines.slice(oldLines.length - suffix).map(text => ({ kind: 'same' as const, text })),
+    ];
+
+    let oldLine = 0;
+    let newLine = 0;
+    return lines.map(line => ({
+        ...line,
+        oldLine: line.kind === 'added' ? undefined : ++oldLine,
+        newLine: line.kind === 'removed' ? undefined : ++newLine,
+    }));
+};
+
+export const countChanges = (lines: DiffLine[]): { added: number; removed: number } => ({
+    added: lines.filter(l => l.kind === 'added').length,
+    removed: lines.filter(l => l.kind === 'removed').length,
+});
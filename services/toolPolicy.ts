@@ -0,0 +1,58 @@
+import type { ToolCall, ToolRiskLevel } from '../types';
+
+export interface ToolRiskAssessment {
+    risk: ToolRiskLevel;
+    reason: string;
+    requiresApproval: boolean;
+}
+
+// Tools whose effects are irreversible or visible outside this session.
+const HIGH_RISK_TOOLS: { [toolName: string]: string } = {
+    github_merge_pr: 'Merges a pull request into its base branch.',
+    github_create_repo: 'Creates a repository on GitHub.',
+    github_create_file_in_repo: 'Commits a file to a GitHub repository.',
+    github_post_pr_comment: 'Posts a public comment on a pull request.',
+    memory_delete: 'Permanently deletes a long-term memory item.',
+};
+
+const MEDIUM_RISK_TOOLS: { [toolName: string]: string } = {
+    writeFile: 'Creates or overwrites a file.',
+    executeShellCommand: 'Runs a shell command.',
+    executeCode: 'Runs code.',
+    data_analyze: 'Runs an analysis script.',
+    data_visualize: 'Runs a visualization script.',
+    memory_save: 'Writes to long-term memory.',
+};
+
+// Shell commands that delete data, rewrite history, escalate privileges or pipe remote code into a shell.
+const DESTRUCTIVE_COMMAND_PATTERNS: { pattern: RegExp; reason: string }[] = [
+    { pattern: /(^|[\s;&|(])(rm|rmdir|shred|unlink)\s/, reason: 'Deletes files.' },
+    { pattern: /(^|[\s;&|(])(sudo|su|doas)\s/, reason: 'Runs with elevated privileges.' },
+    { pattern: /(^|[\s;&|(])(mkfs|dd|fdisk|parted)\b/, reason: 'Writes to disks or partitions.' },
+    { pattern: /(^|[\s;&|(])(chmod|chown)\s+(-\w*R|--recursive)/, reason: 'Recursively changes permissions or ownership.' },
+    { pattern: /git\s+(push|reset\s+--hard|clean\s+-\w*f|checkout\s+--\s|branch\s+-D)/, reason: 'Discards or publishes git history.' },
+    { pattern: /(curl|wget)[^|]*\|\s*(sudo\s+)?(ba|z)?sh\b/, reason: 'Pipes downloaded code into a shell.' },
+    { pattern: /(^|[\s;&|(])(kill|killall|pkill|shutdown|reboot)\b/, reason: 'Stops processes or the machine.' },
+    { pattern: /(^|[^>])>\s*\/(etc|usr|bin|boot|dev)\//, reason: 'Overwrites system files.' },
+];
+
+/**
+ * Classifies a tool call by how much harm it could do if the agent got it wrong.
+ * High-risk calls must be approved by the user before they run.
+ */
+export const assessToolCall = (toolCall: ToolCall): ToolRiskAssessment => {
+    if (HIGH_RISK_TOOLS[toolCall.name]) {
+        return { risk: 'high', reason: HIGH_RISK_TOOLS[toolCall.name], requiresApproval: true };
+    }
+    if (toolCall.name === 'executeShellCommand') {
+        const command = String(toolCall.args.command || '');
+        const match = DESTRUCTIVE_COMMAND_PATTERNS.find(({ pattern }) => pattern.test(command));
+        if (match) {
+            return { risk: 'high', reason: match.reason, requiresApproval: true };
+        }
+    }
+    if (MEDIUM_RISK_TOOLS[toolCall.name]) {
+        return { risk: 'medium', reason: MEDIUM_RISK_TOOLS[toolCall.name], requiresApproval: false };
+    }
+    return { risk: 'low', reason: 'Reads data or only affects this session.', requiresApproval: false };
+};
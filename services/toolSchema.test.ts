@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { FunctionDeclaration, Type } from '@google/genai';
+import { toJsonSchema, validateToolArgs } from './toolSchema';
+
+const declaration: FunctionDeclaration = {
+    name: 'deploy',
+    description: 'Deploys a service.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            service: { type: Type.STRING },
+            replicas: { type: Type.INTEGER },
+            cpu: { type: Type.NUMBER },
+            dryRun: { type: Type.BOOLEAN },
+            region: { type: Type.STRING, enum: ['eu', 'us'] },
+            tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+            limits: { type: Type.OBJECT, properties: { memory: { type: Type.STRING } }, required: ['memory'] },
+        },
+        required: ['service', 'region'],
+    },
+};
+
+describe('validateToolArgs', () => {
+    it('accepts arguments that match the schema', () => {
+        expect(validateToolArgs(declaration, {
+            service: 'api', replicas: 3, cpu: 0.5, dryRun: false, region: 'eu', tags: ['web'], limits: { memory: '1Gi' },
+        })).toEqual([]);
+    });
+
+    it('reports missing required arguments, including null ones', () => {
+        expect(validateToolArgs(declaration, { service: null })).toEqual([
+            `Missing required argument 'service'.`,
+            `Missing required argument 'region'.`,
+        ]);
+    });
+
+    it('reports arguments of the wrong type', () => {
+        expect(validateToolArgs(declaration, {
+            service: 42, region: 'eu', replicas: 1.5, cpu: '2', dryRun: 'yes', tags: 'web',
+        })).toEqual([
+            `'service' must be a string, got number.`,
+            `'replicas' must be an integer, got number.`,
+            `'cpu' must be a number, got string.`,
+            `'dryRun' must be a boolean, got string.`,
+            `'tags' must be an array, got string.`,
+        ]);
+    });
+
+    it('reports nested problems with their path', () => {
+        expect(validateToolArgs(declaration, { service: 'api', region: 'eu', tags: ['web', 7], limits: {} })).toEqual([
+            `'tags[1]' must be a string, got number.`,
+            `Missing required argument 'limits.memory'.`,
+        ]);
+    });
+
+    it('reports values outside an enum and unknown arguments', () => {
+        expect(validateToolArgs(declaration, { service: 'api', region: 'asia', force: true })).toEqual([
+            `'region' must be one of 'eu', 'us', got 'asia'.`,
+            `Unknown argument 'force'.`,
+        ]);
+    });
+
+    it('requires the arguments to be an object', () => {
+        expect(validateToolArgs(declaration, ['api'])).toEqual([`Arguments for 'deploy' must be an object, got array.`]);
+        expect(validateToolArgs({ name: 'ping' }, {})).toEqual([]);
+    });
+});
+
+describe('toJsonSchema', () => {
+    it('converts the Type enum into JSON Schema types', () => {
+        expect(toJsonSchema(declaration.parameters as object)).toMatchObject({
+            type: 'object',
+            required: ['service', 'region'],
+            properties: {
+                replicas: { type: 'integer' },
+                tags: { type: 'array', items: { type: 'string' } },
+                limits: { type: 'object', properties: { memory: { type: 'string' } }, required: ['memory'] },
+            },
+        });
+        expect(toJsonSchema(undefined)).toEqual({ type: 'object', properties: {} });
+    });
+});
@@ -0,0 +1,124 @@
+import type { FunctionDeclaration } from "@google/genai";
+
+// The subset of the @google/genai Schema shape used by our tool declarations.
+interface ParameterSchema {
+    type?: string;
+    description?: string;
+    enum?: string[];
+    items?: ParameterSchema;
+    properties?: { [name: string]: ParameterSchema };
+    required?: string[];
+}
+
+/**
+ * Converts a schema written with the @google/genai `Type` enum into standard JSON Schema,
+ * for providers that take OpenAI-style tool definitions.
+ */
+export const toJsonSchema = (schema: ParameterSchema | undefined): object => {
+    if (!schema) return { type: 'object', properties: {} };
+    const converted: { [key: string]: unknown } = {};
+    if (schema.type) converted.type = schema.type.toLowerCase();
+    if (schema.description) converted.description = schema.description;
+    if (schema.enum) converted.enum = schema.enum;
+    if (schema.items) converted.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        converted.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([name, property]) => [name, toJsonSchema(property)])
+        );
+    }
+    if (schema.required && schema.required.length > 0) converted.required = schema.required;
+    return converted;
+};
+
+// Tool call arguments once validateToolArgs has accepted them: an object whose values still have to be narrowed.
+export type ToolArgs = { [name: string]: unknown };
+
+const describeType = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const validateValue = (value: unknown, schema: ParameterSchema, path: string, problems: string[]) => {
+    const expected = (schema.type || '').toUpperCase();
+    switch (expected) {
+        case 'STRING':
+            if (typeof value !== 'string') {
+                problems.push(`'${path}' must be a string, got ${describeType(value)}.`);
+                return;
+            }
+            break;
+        case 'NUMBER':
+            if (typeof value !== 'number' || Number.isNaN(value)) {
+                problems.push(`'${path}' must be a number, got ${describeType(value)}.`);
+                return;
+            }
+            break;
+        case 'INTEGER':
+            if (!Number.isInteger(value)) {
+                problems.push(`'${path}' must be an integer, got ${describeType(value)}.`);
+                return;
+            }
+            break;
+        case 'BOOLEAN':
+            if (typeof value !== 'boolean') {
+                problems.push(`'${path}' must be a boolean, got ${describeType(value)}.`);
+                return;
+            }
+            break;
+        case 'ARRAY':
+            if (!Array.isArray(value)) {
+                problems.push(`'${path}' must be an array, got ${describeType(value)}.`);
+                return;
+            }
+            if (schema.items) {
+                value.forEach((item, index) => validateValue(item, schema.items!, `${path}[${index}]`, problems));
+            }
+            return;
+        case 'OBJECT':
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                problems.push(`'${path}' must be an object, got ${describeType(value)}.`);
+                return;
+            }
+            validateObject(value as ToolArgs, schema, `${path}.`, problems);
+            return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string)) {
+        problems.push(`'${path}' must be one of ${schema.enum.map(e => `'${e}'`).join(', ')}, got '${String(value)}'.`);
+    }
+};
+
+const validateObject = (value: ToolArgs, schema: ParameterSchema, prefix: string, problems: string[]) => {
+    const properties = schema.properties || {};
+    (schema.required || []).forEach(name => {
+        if (value[name] === undefined || value[name] === null) {
+            problems.push(`Missing required argument '${prefix}${name}'.`);
+        }
+    });
+    Object.entries(value).forEach(([name, propertyValue]) => {
+        const propertySchema = properties[name];
+        if (!propertySchema) {
+            problems.push(`Unknown argument '${prefix}${name}'.`);
+            return;
+        }
+        if (propertyValue !== undefined && propertyValue !== null) {
+            validateValue(propertyValue, propertySchema, `${prefix}${name}`, problems);
+        }
+    });
+};
+
+/**
+ * Checks tool call arguments against the declaration's parameter schema.
+ * @returns A list of problems. An empty list means the arguments are valid.
+ */
+export const validateToolArgs = (declaration: FunctionDeclaration, args: unknown): string[] => {
+    const problems: string[] = [];
+    const schema = (declaration.parameters || { type: 'OBJECT', properties: {} }) as ParameterSchema;
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+        problems.push(`Arguments for '${declaration.name}' must be an object, got ${describeType(args)}.`);
+        return problems;
+    }
+    validateObject(args as ToolArgs, schema, '', problems);
+    return problems;
+};
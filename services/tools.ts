@@ -1,7 +1,10 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { Service } from '../types';
+import { PermanentError, RequestError } from './retryPolicy';
 
-const BACKEND_URL = 'http://localhost:3001/execute-tool';
+const BACKEND_URL = 'http://127.0.0.1:3001/execute-tool';
+// Shared with the engine through .env (see vite.config.ts); the engine refuses calls without it.
+const ENGINE_TOKEN = process.env.ECHO_ENGINE_TOKEN || '';
 
 // --- Helper Functions ---
 
@@ -9,30 +12,34 @@ const BACKEND_URL = 'http://localhost:3001/execute-tool';
  * A centralized function to securely call the backend execution engine.
  * @param toolName The name of the tool to execute.
  * @param args The arguments for the tool.
+ * @param signal Aborts the call, e.g. when the tool call times out.
  * @returns The result from the backend.
- * @throws An error if the backend call fails.
+ * @throws A RequestError carrying the engine's status code if the backend call fails.
  */
-const callBackendTool = async (toolName: string, args: object): Promise<any> => {
+const callBackendTool = async (toolName: string, args: object, signal?: AbortSignal): Promise<any> => {
     try {
         const response = await fetch(BACKEND_URL, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
+                'Authorization': `Bearer ${ENGINE_TOKEN}`,
             },
             body: JSON.stringify({ tool: toolName, args }),
+            signal,
         });
 
         if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.error || `Backend error: ${response.statusText}`);
+            throw new RequestError(errorData.error || `Backend error: ${response.statusText}`, response.status);
         }
 
         const result = await response.json();
         return result.result;
     } catch (error) {
+        if (signal?.aborted) throw signal.reason;
         console.error(`Error calling backend for tool '${toolName}':`, error);
         if (error instanceof Error) {
-            throw new Error(`Failed to execute '${toolName}': ${error.message}. Is the ECHO Execution Engine running?`);
+            throw new RequestError(`Failed to execute '${toolName}': ${error.message}. Is the ECHO Execution Engine running?`, error instanceof RequestError ? error.status : undefined);
         }
         throw new Error(`An unknown error occurred while executing '${toolName}'.`);
     }
@@ -53,32 +60,37 @@ const checkAuth = (serviceId: string): boolean => {
     return false;
 }
 
-const getSandboxToolRunner = (operation: string, args: object) => {
+const getSandboxToolRunner = (operation: string, args: object, signal?: AbortSignal) => {
     if (checkAuth('daytona')) {
-        return callBackendTool(`daytona_${operation}`, args);
+        return callBackendTool(`daytona_${operation}`, args, signal);
     }
     if (checkAuth('codesandbox')) {
         // Here you could add a log that it's using the fallback
-        return callBackendTool(`codesandbox_${operation}`, args);
+        return callBackendTool(`codesandbox_${operation}`, args, signal);
     }
-    throw new Error("No sandbox environment connected. Please connect Daytona or CodeSandbox in settings to manage files and execute commands.");
+    // Without a cloud sandbox, the execution engine runs the operation in its local workspace directory.
+    return callBackendTool(`local_${operation}`, args, signal);
 }
 
+// Memory lives in Supabase when it is connected, otherwise in the execution engine's local workspace.
+const getMemoryToolName = (operation: 'save' | 'retrieve' | 'delete') =>
+    checkAuth('supabase') ? `memory_${operation}` : `local_memory_${operation}`;
+
 
 // --- Tool Implementations ---
 
-const readFile = (path: string): Promise<string> => getSandboxToolRunner('readFile', { path });
-const writeFile = (path: string, content: string): Promise<string> => getSandboxToolRunner('writeFile', { path, content });
-const listFiles = (path: string): Promise<string[]> => getSandboxToolRunner('listFiles', { path });
-const executeShellCommand = (command: string): Promise<string> => getSandboxToolRunner('executeShellCommand', { command });
+const readFile = (path: string, signal?: AbortSignal): Promise<string> => getSandboxToolRunner('readFile', { path }, signal);
+const writeFile = (path: string, content: string, signal?: AbortSignal): Promise<string> => getSandboxToolRunner('writeFile', { path, content }, signal);
+const listFiles = (path: string, signal?: AbortSignal): Promise<string[]> => getSandboxToolRunner('listFiles', { path }, signal);
+const executeShellCommand = (command: string, signal?: AbortSignal): Promise<string> => getSandboxToolRunner('executeShellCommand', { command }, signal);
 
 
-const browse_web = async (url: string, task_description: string): Promise<string> => {
+const browse_web = async (url: string, task_description: string, signal?: AbortSignal): Promise<string> => {
     // In a real app, you might check for a specific web browsing service connection
     // if (!checkAuth('tavily')) {
     //     throw new Error("Web browsing requires a connected service like Tavily.");
     // }
-    return callBackendTool('browse_web', { url, task_description });
+    return callBackendTool('browse_web', { url, task_description }, signal);
 };
 
 const executeCode = async (language: 'javascript', code: string): Promise<string> => {
@@ -128,77 +140,81 @@ const executeCode = async (language: 'javascript', code: string): Promise<string
 
 // --- GitHub Tools ---
 
-const github_create_repo = async (name: string, description: string, is_private: boolean): Promise<any> => {
-    if (!checkAuth('github')) throw new Error("GitHub service not connected.");
-    return callBackendTool('github_create_repo', { name, description, is_private });
+const github_create_repo = async (name: string, description: string, is_private: boolean, signal?: AbortSignal): Promise<any> => {
+    if (!checkAuth('github')) throw new PermanentError("GitHub service not connected.");
+    return callBackendTool('github_create_repo', { name, description, is_private }, signal);
+};
+
+const github_get_pr_details = async (pr_url: string, signal?: AbortSignal): Promise<any> => {
+    if (!checkAuth('github')) throw new PermanentError("GitHub service not connected.");
+    return callBackendTool('github_get_pr_details', { pr_url }, signal);
 };
 
-const github_get_pr_details = async (pr_url: string): Promise<any> => {
-    if (!checkAuth('github')) throw new Error("GitHub service not connected.");
-    return callBackendTool('github_get_pr_details', { pr_url });
+const github_post_pr_comment = async (pr_url: string, comment: string, signal?: AbortSignal): Promise<any> => {
+    if (!checkAuth('github')) throw new PermanentError("GitHub service not connected.");
+    return callBackendTool('github_post_pr_comment', { pr_url, comment }, signal);
 };
 
-const github_post_pr_comment = async (pr_url: string, comment: string): Promise<any> => {
-    if (!checkAuth('github')) throw new Error("GitHub service not connected.");
-    return callBackendTool('github_post_pr_comment', { pr_url, comment });
+const github_merge_pr = async (pr_url: string, method: 'merge' | 'squash' | 'rebase', signal?: AbortSignal): Promise<any> => {
+    if (!checkAuth('github')) throw new PermanentError("GitHub service not connected.");
+    return callBackendTool('github_merge_pr', { pr_url, method }, signal);
 };
 
-const github_merge_pr = async (pr_url: string, method: 'merge' | 'squash' | 'rebase'): Promise<any> => {
-    if (!checkAuth('github')) throw new Error("GitHub service not connected.");
-    return callBackendTool('github_merge_pr', { pr_url, method });
+const github_create_file_in_repo = async (repo_name: string, path: string, content: string, commit_message: string, signal?: AbortSignal): Promise<any> => {
+    if (!checkAuth('github')) throw new PermanentError("GitHub service not connected.");
+    return callBackendTool('github_create_file_in_repo', { repo_name, path, content, commit_message }, signal);
 };
 
-const github_create_file_in_repo = async (repo_name: string, path: string, content: string, commit_message: string): Promise<any> => {
-    if (!checkAuth('github')) throw new Error("GitHub service not connected.");
-    return callBackendTool('github_create_file_in_repo', { repo_name, path, content, commit_message });
+
+// --- Observability ---
+
+/** Uploads a run's OpenTelemetry trace to AgentOps through the execution engine, when AgentOps is connected. */
+export const exportTraceToAgentOps = async (trace: object): Promise<void> => {
+    if (!checkAuth('agentops')) return;
+    await callBackendTool('agentops_export_trace', { trace });
 };
 
 
-// --- Memory Tools (Supabase Integration) ---
+// --- Memory Tools (Supabase, or the engine's local store) ---
 
-const memory_save = async (key: string, value: string, tags: string[]): Promise<string> => {
-    if (!checkAuth(\'supabase\')) throw new Error("Supabase service not connected for memory operations.");
-    return callBackendTool(\'memory_save\', { key, value, tags });
+const memory_save = async (key: string, value: string, tags: string[], signal?: AbortSignal): Promise<string> => {
+    return callBackendTool(getMemoryToolName('save'), { key, value, tags }, signal);
 };
 
-const memory_retrieve = async (key?: string, tags?: string[]): Promise<string> => {
-    if (!checkAuth(\'supabase\')) throw new Error("Supabase service not connected for memory operations.");
+const memory_retrieve = async (key?: string, tags?: string[], signal?: AbortSignal): Promise<string> => {
     if (!key && (!tags || tags.length === 0)) {
-        throw new Error("Must provide either a \'key\' or \'tags\' to retrieve memory.");
+        throw new Error("Must provide either a 'key' or 'tags' to retrieve memory.");
     }
-    return callBackendTool(\'memory_retrieve\', { key, tags });
+    return callBackendTool(getMemoryToolName('retrieve'), { key, tags }, signal);
 };
 
-const memory_delete = async (key: string): Promise<string> => {
-    if (!checkAuth(\'supabase\')) throw new Error("Supabase service not connected for memory operations.");
-    return callBackendTool(\'memory_delete\', { key });
+const memory_delete = async (key: string, signal?: AbortSignal): Promise<string> => {
+    return callBackendTool(getMemoryToolName('delete'), { key }, signal);
 };
 
-const data_analyze = async (input_file_path: string, analysis_script: string): Promise<string> => {
+const data_analyze = async (input_file_path: string, analysis_script: string, signal?: AbortSignal): Promise<string> => {
     // The script will be written to a temporary file and executed via executeShellCommand
     const temp_script_path = `./temp_analysis_${Date.now()}.py`;
-    await writeFile(temp_script_path, analysis_script);
+    await writeFile(temp_script_path, analysis_script, signal);
     const command = `python3 ${temp_script_path} ${input_file_path}`;
-    const result = await executeShellCommand(command);
+    const result = await executeShellCommand(command, signal);
     await executeShellCommand(`rm ${temp_script_path}`); // Clean up
     return result;
 };
 
-const data_visualize = async (input_file_path: string, visualization_script: string, output_image_path: string): Promise<string> => {
+const data_visualize = async (input_file_path: string, visualization_script: string, output_image_path: string, signal?: AbortSignal): Promise<string> => {
     // The script will be written to a temporary file and executed via executeShellCommand
     const temp_script_path = `./temp_viz_${Date.now()}.py`;
-    await writeFile(temp_script_path, visualization_script);
+    await writeFile(temp_script_path, visualization_script, signal);
     const command = `python3 ${temp_script_path} ${input_file_path} ${output_image_path}`;
-    const result = await executeShellCommand(command);
+    const result = await executeShellCommand(command, signal);
     await executeShellCommand(`rm ${temp_script_path}`); // Clean up
     return `Visualization saved to: ${output_image_path}. Shell output: ${result}`;
 };
 
+// This is a placeholder. The actual logic is handled by the AgentExecutor, which suspends the task until the user answers.
 const askUser = async (question: string): Promise<string> => {
-    return new Promise((resolve) => {
-        const answer = window.prompt(question);
-        resolve(answer || "User provided no input.");
-    });
+    return `Signal received to ask the user: "${question}". The executor will handle this process.`;
 };
 
 // This is a placeholder. The actual logic is handled by the AgentExecutor.
@@ -211,13 +227,34 @@ const create_and_delegate_task_to_new_agent = async (agent_name: string, agent_i
     return `Signal received to create agent "${agent_name}" and delegate task: "${task_description}". The executor will handle this process.`;
 };
 
+// This is a placeholder. The actual logic is handled by the AgentExecutor.
+const delegate_to_agent = async (task_description: string, agent_name?: string, capability?: string): Promise<string> => {
+    return `Signal received to delegate task to ${agent_name ? `agent "${agent_name}"` : `an agent with capability "${capability}"`}: "${task_description}". The executor will handle this process.`;
+};
+
+
+// This is a placeholder. The actual logic is handled by the AgentExecutor, which ends the task and asks the planner for a revised plan.
+const request_replan = async (reason: string): Promise<string> => {
+    return `Signal received to request a new plan: "${reason}". The executor will handle this process.`;
+};
+
+// This is a placeholder. The actual logic is handled by the AgentExecutor.
+const readTaskOutput = async (task_id: string, key?: string): Promise<string> => {
+    return `Signal received to read the output of task "${task_id}"${key ? ` (key: ${key})` : ''}. The executor will handle this process.`;
+};
+
+// This is a placeholder. The actual logic is handled by the AgentExecutor, which keeps the full observations.
+const viewObservation = async (step: number, offset: number): Promise<string> => {
+    return `Signal received to view the observation of step ${step} from offset ${offset}. The executor will handle this process.`;
+};
+
 
 // --- Tool Definitions and Declarations ---
 
 export const toolDeclarations: FunctionDeclaration[] = [
     {
         name: 'readFile',
-        description: 'Reads the entire content of a specified file from the connected sandbox environment (Daytona or CodeSandbox).',
+        description: 'Reads the entire content of a specified file from the sandbox environment (Daytona or CodeSandbox if connected, otherwise the execution engine\'s local workspace).',
         parameters: {
             type: Type.OBJECT, properties: { 
                 path: { type: Type.STRING, description: 'The full path to the file (e.g., "./src/index.js").' } 
@@ -245,7 +282,7 @@ export const toolDeclarations: FunctionDeclaration[] = [
     },
     {
         name: 'executeShellCommand',
-        description: 'Executes a command in a real shell inside the connected sandbox environment. This is a powerful tool for using system commands, developer tools, and scripts. Examples: `npm install`, `git clone <url>`, `docker build -t my-app .`, `python my_script.py`.',
+        description: 'Executes a command in a real shell inside the sandbox environment (or the execution engine\'s local workspace when no sandbox is connected). This is a powerful tool for using system commands, developer tools, and scripts. Examples: `npm install`, `git clone <url>`, `docker build -t my-app .`, `python my_script.py`.',
         parameters: {
             type: Type.OBJECT, properties: { 
                 command: { type: Type.STRING, description: 'The shell command to execute.' } 
@@ -316,7 +353,7 @@ export const toolDeclarations: FunctionDeclaration[] = [
     },
     {
         name: 'memory_save',
-        description: 'Stores a piece of structured information or a key-value pair into the agent\'s long-term memory via Supabase. Use this to persist learned information, user preferences, or project details.',
+        description: 'Stores a piece of structured information or a key-value pair into the agent\'s long-term memory (Supabase if connected, otherwise a local store). Use this to persist learned information, user preferences, or project details.',
         parameters: {
             type: Type.OBJECT, properties: {
                 key: { type: Type.STRING, description: 'A unique identifier for the memory item (e.g., "user_project_goals").' },
@@ -327,7 +364,7 @@ export const toolDeclarations: FunctionDeclaration[] = [
     },
     {
         name: 'memory_retrieve',
-        description: 'Retrieves a memory item based on its key or a set of tags from Supabase. At least one of key or tags must be provided.',
+        description: 'Retrieves a memory item based on its key or a set of tags from long-term memory. At least one of key or tags must be provided.',
         parameters: {
             type: Type.OBJECT, properties: {
                 key: { type: Type.STRING, description: 'The unique identifier of the memory item to retrieve.' },
@@ -337,7 +374,7 @@ export const toolDeclarations: FunctionDeclaration[] = [
     },
     {
         name: 'memory_delete',
-        description: 'Deletes a memory item based on its key from Supabase.',
+        description: 'Deletes a memory item based on its key from long-term memory.',
         parameters: {
             type: Type.OBJECT, properties: {
                 key: { type: Type.STRING, description: 'The unique identifier of the memory item to delete.' }
@@ -367,7 +404,7 @@ export const toolDeclarations: FunctionDeclaration[] = [
     },
     {
         name: 'create_and_delegate_task_to_new_agent',
-        description: 'A meta-tool for agent proliferation. When a task is too complex or requires a specialist, use this to create a new, temporary agent with specific instructions and delegate a sub-task to it. The current task will pause until the new agent completes its work.',
+        description: 'A meta-tool for agent proliferation. When a task requires a specialist and no existing agent fits, use this to create a new, temporary agent with specific instructions and delegate a sub-task to it. The agent is discarded when the run ends. The current task will pause until the new agent completes its work.',
         parameters: {
             type: Type.OBJECT, properties: {
                 agent_name: { type: Type.STRING, description: 'A descriptive name for the new specialist agent (e.g., "DB Schema Designer").' },
@@ -377,6 +414,17 @@ export const toolDeclarations: FunctionDeclaration[] = [
             }, required: ['agent_name', 'agent_instructions', 'task_description']
         }
     },
+    {
+        name: 'delegate_to_agent',
+        description: 'Delegates a sub-task to an existing agent, chosen by name or by capability. Prefer this over creating a new agent. The current task will pause until the agent completes its work.',
+        parameters: {
+            type: Type.OBJECT, properties: {
+                task_description: { type: Type.STRING, description: 'The specific, detailed task to be delegated.' },
+                agent_name: { type: Type.STRING, description: 'Optional. The name of the agent to delegate to, as listed in your context.' },
+                capability: { type: Type.STRING, description: 'Optional. A capability the agent must have (e.g., "CODE_EXECUTION"), used when agent_name is not given.' },
+            }, required: ['task_description']
+        }
+    },
     {
         name: 'createArtifact',
         description: 'Creates a final output artifact to be displayed to the user. Use this when you have generated a complete piece of code, a document, or other final result.',
@@ -388,9 +436,38 @@ export const toolDeclarations: FunctionDeclaration[] = [
             }, required: ['title', 'type', 'content']
         }
     },
+    {
+        name: 'readTaskOutput',
+        description: 'Reads the structured output of a completed upstream task, including its summary, the full text of its key values and the content of the artifacts it produced. Use this when an upstream output summary was truncated or you need a specific result from it.',
+        parameters: {
+            type: Type.OBJECT, properties: {
+                task_id: { type: Type.STRING, description: 'The ID of the upstream task, as listed in your context.' },
+                key: { type: Type.STRING, description: 'Optional. The name of a specific output value to read. Omit to read the whole output.' }
+            }, required: ['task_id']
+        }
+    },
+    {
+        name: 'viewObservation',
+        description: 'Reads a part of an earlier step\'s observation that was shortened in your execution history. Use the step number and offset given in the truncation note.',
+        parameters: {
+            type: Type.OBJECT, properties: {
+                step: { type: Type.INTEGER, description: 'The number of the step whose observation to read, as shown in the execution history.' },
+                offset: { type: Type.INTEGER, description: 'The character offset to start reading from.' }
+            }, required: ['step', 'offset']
+        }
+    },
+    {
+        name: 'request_replan',
+        description: 'Ends the current task and asks the planner to revise the rest of the plan. Use this when you discover that the remaining tasks are wrong or no longer make sense (e.g., a premise of the plan turned out to be false). Record what you found with createArtifact first if later tasks will need it.',
+        parameters: {
+            type: Type.OBJECT, properties: {
+                reason: { type: Type.STRING, description: 'What you found and why the remaining plan should change.' }
+            }, required: ['reason']
+        }
+    },
     {
         name: 'askUser',
-        description: 'Asks the user a clarifying question when you are stuck or need more information to proceed with the task. The user\'s response will be returned as the observation.',
+        description: 'Asks the user a clarifying question when you are stuck or need more information to proceed with the task. The task pauses until the user answers; other tasks keep running. The user\'s response will be returned as the observation.',
         parameters: {
             type: Type.OBJECT, properties: { 
                 question: { type: Type.STRING, description: 'The question to ask the user.' } 
@@ -399,24 +476,35 @@ export const toolDeclarations: FunctionDeclaration[] = [
     }
 ];
 
-export const availableTools: { [key: string]: (...args: any[]) => Promise<any> } = {
-    readFile: (args: { path: string }) => readFile(args.path),
-    writeFile: (args: { path: string; content: string }) => writeFile(args.path, args.content),
-    listFiles: (args: { path: string }) => listFiles(args.path),
-    executeShellCommand: (args: { command: string }) => executeShellCommand(args.command),
-    browse_web: (args: { url: string; task_description: string }) => browse_web(args.url, args.task_description),
+export interface ToolCallOptions {
+    // Aborts the call, e.g. when the tool call or its task times out.
+    signal?: AbortSignal;
+}
+
+export type ToolRegistry = { [key: string]: (args: any, options?: ToolCallOptions) => Promise<any> };
+
+export const availableTools: ToolRegistry = {
+    readFile: (args: { path: string }, options?: ToolCallOptions) => readFile(args.path, options?.signal),
+    writeFile: (args: { path: string; content: string }, options?: ToolCallOptions) => writeFile(args.path, args.content, options?.signal),
+    listFiles: (args: { path: string }, options?: ToolCallOptions) => listFiles(args.path, options?.signal),
+    executeShellCommand: (args: { command: string }, options?: ToolCallOptions) => executeShellCommand(args.command, options?.signal),
+    browse_web: (args: { url: string; task_description: string }, options?: ToolCallOptions) => browse_web(args.url, args.task_description, options?.signal),
     executeCode: (args: { language: 'javascript', code: string }) => executeCode(args.language, args.code),
-    github_create_repo: (args: { name: string, description: string, is_private: boolean }) => github_create_repo(args.name, args.description, args.is_private),
-    github_get_pr_details: (args: { pr_url: string }) => github_get_pr_details(args.pr_url),
-    github_post_pr_comment: (args: { pr_url: string, comment: string }) => github_post_pr_comment(args.pr_url, args.comment),
-    github_merge_pr: (args: { pr_url: string, method: 'merge' | 'squash' | 'rebase' }) => github_merge_pr(args.pr_url, args.method),
-    github_create_file_in_repo: (args: { repo_name: string, path: string, content: string, commit_message: string }) => github_create_file_in_repo(args.repo_name, args.path, args.content, args.commit_message),
-    memory_save: (args: { key: string, value: string, tags: string[] }) => memory_save(args.key, args.value, args.tags),
-    memory_retrieve: (args: { key?: string, tags?: string[] }) => memory_retrieve(args.key, args.tags),
-    memory_delete: (args: { key: string }) => memory_delete(args.key),
-    data_analyze: (args: { input_file_path: string, analysis_script: string }) => data_analyze(args.input_file_path, args.analysis_script),
-    data_visualize: (args: { input_file_path: string, visualization_script: string, output_image_path: string }) => data_visualize(args.input_file_path, args.visualization_script, args.output_image_path),
+    github_create_repo: (args: { name: string, description: string, is_private: boolean }, options?: ToolCallOptions) => github_create_repo(args.name, args.description, args.is_private, options?.signal),
+    github_get_pr_details: (args: { pr_url: string }, options?: ToolCallOptions) => github_get_pr_details(args.pr_url, options?.signal),
+    github_post_pr_comment: (args: { pr_url: string, comment: string }, options?: ToolCallOptions) => github_post_pr_comment(args.pr_url, args.comment, options?.signal),
+    github_merge_pr: (args: { pr_url: string, method: 'merge' | 'squash' | 'rebase' }, options?: ToolCallOptions) => github_merge_pr(args.pr_url, args.method, options?.signal),
+    github_create_file_in_repo: (args: { repo_name: string, path: string, content: string, commit_message: string }, options?: ToolCallOptions) => github_create_file_in_repo(args.repo_name, args.path, args.content, args.commit_message, options?.signal),
+    memory_save: (args: { key: string, value: string, tags: string[] }, options?: ToolCallOptions) => memory_save(args.key, args.value, args.tags, options?.signal),
+    memory_retrieve: (args: { key?: string, tags?: string[] }, options?: ToolCallOptions) => memory_retrieve(args.key, args.tags, options?.signal),
+    memory_delete: (args: { key: string }, options?: ToolCallOptions) => memory_delete(args.key, options?.signal),
+    data_analyze: (args: { input_file_path: string, analysis_script: string }, options?: ToolCallOptions) => data_analyze(args.input_file_path, args.analysis_script, options?.signal),
+    data_visualize: (args: { input_file_path: string, visualization_script: string, output_image_path: string }, options?: ToolCallOptions) => data_visualize(args.input_file_path, args.visualization_script, args.output_image_path, options?.signal),
     createArtifact: (args: { title: string, type: 'code' | 'markdown' | 'live-preview', content: string }) => createArtifact(args.title, args.type, args.content),
     create_and_delegate_task_to_new_agent: (args: { agent_name: string, agent_instructions: string, task_description: string, agent_icon: string }) => create_and_delegate_task_to_new_agent(args.agent_name, args.agent_instructions, args.task_description, args.agent_icon),
+    readTaskOutput: (args: { task_id: string, key?: string }) => readTaskOutput(args.task_id, args.key),
+    viewObservation: (args: { step: number, offset: number }) => viewObservation(args.step, args.offset),
+    delegate_to_agent: (args: { task_description: string, agent_name?: string, capability?: string }) => delegate_to_agent(args.task_description, args.agent_name, args.capability),
+    request_replan: (args: { reason: string }) => request_replan(args.reason),
     askUser: (args: { question: string }) => askUser(args.question),
 };
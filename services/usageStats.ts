@@ -0,0 +1,35 @@
+import type { SessionStats, TokenUsage, UsageTotals } from '../types';
+
+// Usage outside task execution (intent analysis, planning, chat) is attributed to the orchestrator.
+const ORCHESTRATOR_USAGE_LABEL = 'Core (planning & chat)';
+
+export const createEmptySessionStats = (): SessionStats => ({
+    totalTokensUsed: 0,
+    totalCost: 0,
+    byTask: {},
+    byAgent: {},
+    byModel: {},
+});
+
+export const addUsage = (totals: UsageTotals | undefined, tokens: number, cost: number): UsageTotals => ({
+    tokens: (totals?.tokens || 0) + tokens,
+    cost: (totals?.cost || 0) + cost,
+});
+
+/** Adds one model call's usage to the session totals and their per-task, per-agent and per-model breakdowns. */
+export const recordUsage = (stats: SessionStats, count: number, usage?: TokenUsage): SessionStats => {
+    const cost = usage?.cost || 0;
+    const agentName = usage?.agentName || ORCHESTRATOR_USAGE_LABEL;
+    const model = usage?.model || 'unknown';
+    return {
+        totalTokensUsed: stats.totalTokensUsed + count,
+        totalCost: stats.totalCost + cost,
+        byTask: usage?.taskId
+            ? { ...stats.byTask, [usage.taskId]: { ...addUsage(stats.byTask[usage.taskId], count, cost), label: usage.taskTitle || usage.taskId } }
+            : stats.byTask,
+        byAgent: { ...stats.byAgent, [agentName]: addUsage(stats.byAgent[agentName], count, cost) },
+        byModel: { ...stats.byModel, [model]: addUsage(stats.byModel[model], count, cost) },
+    };
+};
+
+export const formatCost = (cost: number): string => cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
@@ -5,8 +5,30 @@ export enum AgentMode {
     CHAT = 'CHAT',
 }
 
+export interface UsageTotals {
+    tokens: number;
+    cost: number; // USD, from the model profile's pricing
+}
+
+// One model call's usage, attributed to the task and agent that made it when it happened during execution.
+export interface TokenUsage {
+    profileId: string;
+    model: string;
+    totalTokens: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    cost: number;
+    taskId?: string;
+    taskTitle?: string;
+    agentName?: string;
+}
+
 export interface SessionStats {
     totalTokensUsed: number;
+    totalCost: number;
+    byTask: { [taskId: string]: UsageTotals & { label: string } };
+    byAgent: { [agentName: string]: UsageTotals };
+    byModel: { [model: string]: UsageTotals };
 }
 
 export interface Message {
@@ -16,9 +38,11 @@ export interface Message {
     timestamp: string;
     type?: 'chat' | 'system' | 'action_prompt';
     suggestedPrompt?: string;
+    // Set while the reply is still being generated.
+    isStreaming?: boolean;
 }
 
-export type TaskStatus = 'Done' | 'Executing' | 'Queued' | 'Error' | 'Pending Review' | 'Revising' | 'Delegating' | 'Cancelled';
+export type TaskStatus = 'Done' | 'Executing' | 'Queued' | 'Error' | 'Pending Review' | 'Revising' | 'Delegating' | 'Awaiting Approval' | 'Awaiting Input' | 'Cancelled';
 
 export interface LogEntry {
     timestamp: string;
@@ -26,6 +50,13 @@ export interface LogEntry {
     message: string;
 }
 
+// Model output shown in the Live Terminal while it is being generated, e.g. an agent's thought before it acts.
+export interface LiveOutput {
+    id: string;
+    source: string;
+    text: string;
+}
+
 export interface ReviewEntry {
     reviewer: string;
     timestamp: string;
@@ -44,6 +75,53 @@ export interface SubStep {
     thought: string;
     toolCall: ToolCall;
     observation: string;
+    // When the agent started deciding on the step, and how long the step took up to its observation,
+    // including any wait for approval or an answer.
+    startedAt?: string;
+    durationMs?: number;
+    // Tokens spent on the model call that chose this step.
+    tokens?: number;
+}
+
+export type ToolRiskLevel = 'low' | 'medium' | 'high';
+
+export interface PendingApproval {
+    toolCall: ToolCall;
+    thought: string;
+    risk: ToolRiskLevel;
+    reason: string;
+    requestedAt: string;
+}
+
+// The user's answer to a pending approval. Approving may replace the arguments the agent proposed.
+export type ApprovalDecision =
+    | { action: 'approve'; args?: { [key: string]: any } }
+    | { action: 'reject'; feedback: string };
+
+export interface PendingQuestion {
+    question: string;
+    thought: string;
+    askedAt: string;
+}
+
+// A change the planner made to the unfinished part of a running plan.
+export interface PlanRevision {
+    revision: number;
+    trigger: 'task-failed' | 'agent-request';
+    triggerTaskId: string;
+    triggerTaskTitle: string;
+    reason: string;
+    rationale: string;
+    removedTasks: { id: string; title: string }[];
+    addedTasks: { id: string; title: string }[];
+    revisedAt: string;
+}
+
+export interface TaskOutput {
+    summary: string;
+    values: { [key: string]: string };
+    artifactIds: string[];
+    producedAt: string;
 }
 
 export interface Task {
@@ -61,9 +139,21 @@ export interface Task {
     reviewHistory: ReviewEntry[];
     retryCount: number;
     maxRetries: number;
+    revisionCount?: number;
     toolCall?: ToolCall;
     subSteps?: SubStep[];
+    output?: TaskOutput;
+    pendingApproval?: PendingApproval;
+    pendingQuestion?: PendingQuestion;
+    usage?: UsageTotals;
     delegatorTaskId?: string;
+    // Per-attempt time limit, e.g. from the delegating agent's child_agent_template.
+    timeoutSeconds?: number;
+    // The plan revision that added this task, or that replaced it (it is then Cancelled).
+    planRevision?: number;
+    supersededByRevision?: number;
+    // A rolling summary of the oldest sub-steps, which then no longer appear in full in next-step prompts.
+    contextSummary?: { text: string; stepCount: number };
 }
 
 export interface ChildAgentTemplate {
@@ -89,6 +179,19 @@ export interface CustomAgent {
   child_agent_template?: ChildAgentTemplate;
   capabilities?: string[];
   enabled_tools?: string[];
+  // Spawned for a single run: never saved to the agent list and removed when the run ends.
+  ephemeral?: boolean;
+}
+
+export type PlaybookParameterType = 'string' | 'number' | 'url' | 'path';
+
+// A value that differs between runs of a playbook. Task titles and details refer to it as {name}.
+export interface PlaybookParameter {
+  name: string;
+  type: PlaybookParameterType;
+  description: string;
+  // The value the playbook was learned with, shown as an example when asking for a new one.
+  example?: string;
 }
 
 export interface Playbook {
@@ -96,8 +199,21 @@ export interface Playbook {
   name: string;
   description: string;
   triggerPrompt: string;
-  tasks: Omit<Task, 'id' | 'status' | 'dependencies' | 'logs' | 'reviewHistory' | 'retryCount' | 'maxRetries' | 'subSteps'>[];
+  parameters?: PlaybookParameter[];
+  // dependsOn holds indices into this array; playbooks saved without it replay as a linear chain.
+  tasks: (Omit<Task, 'id' | 'status' | 'dependencies' | 'logs' | 'reviewHistory' | 'retryCount' | 'maxRetries' | 'subSteps' | 'output' | 'pendingApproval' | 'pendingQuestion' | 'usage' | 'planRevision' | 'supersededByRevision'> & { dependsOn?: number[] })[];
   createdAt: string;
+  // The latest saved version; playbooks learned before versioning have none.
+  version?: number;
+  updatedAt?: string;
+}
+
+// A snapshot taken each time a playbook is saved, so that earlier versions can be compared and restored.
+export interface PlaybookVersion {
+  version: number;
+  savedAt: string;
+  summary: string;
+  playbook: Playbook;
 }
 
 export interface AppDeployment {
@@ -157,6 +273,45 @@ export interface Artifact {
     createdAt: string;
 }
 
+export interface RunCheckpoint {
+    runId: string;
+    prompt: string;
+    tasks: Task[];
+    artifacts: Artifact[];
+    logs: LogEntry[];
+    isPaused: boolean;
+    startedAt: string;
+    updatedAt: string;
+    spawnedAgents?: CustomAgent[];
+    planRevisions?: PlanRevision[];
+}
+
+// 'running' until the run ends; a run that never ended (e.g. the tab was closed) keeps it.
+export type SessionOutcome = 'running' | 'finished' | 'failed' | 'stopped' | 'incomplete';
+
+// A past action run or chat thread, saved so that it can be searched and reopened from the history panel.
+export interface SessionRecord {
+    id: string;
+    mode: AgentMode;
+    // The run's command, or the first message of a chat thread.
+    prompt: string;
+    refinedPrompt?: string;
+    // The executor's run, used to continue the same session when an interrupted run is resumed.
+    runId?: string;
+    tasks: Task[];
+    logs: LogEntry[];
+    artifacts: Artifact[];
+    messages: Message[];
+    usage: UsageTotals;
+    // Only action runs have an outcome.
+    outcome?: SessionOutcome;
+    // Chat threads only: a name given by the user, and the thread and message a branch was made from.
+    name?: string;
+    branchedFrom?: { threadId: string; messageId: string };
+    startedAt: string;
+    updatedAt: string;
+}
+
 export interface ModelProviderConfig {
   id: string;
   provider: 'GEMINI' | 'OLLAMA' | 'HUGGING_FACE' | string;
@@ -168,6 +323,16 @@ export interface ModelProviderConfig {
     base_url?: string;
     endpoint_url?: string;
   };
+  // USD per million tokens. Profiles without pricing are counted as free.
+  pricing?: {
+    input_per_million: number;
+    output_per_million: number;
+  };
+  // Token budgets for a task's execution history in next-step prompts. Unset fields use the defaults.
+  contextBudget?: {
+    history_tokens?: number;
+    observation_tokens?: number;
+  };
   integration_layer: 'NATIVE' | 'LANGCHAIN';
   enabled: boolean;
 }
\ No newline at end of file
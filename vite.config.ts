@@ -1,6 +1,14 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { initialModelProviders } from './services/agentRegistry';
+
+// Keys end up in the browser bundle, so only the variables model profiles are known to read are inlined:
+// those of the built-in profiles, plus any listed in LLM_API_KEY_VARS (comma-separated) for custom profiles.
+const getModelKeyVariables = (env: Record<string, string>): string[] => [
+  ...initialModelProviders.map(p => p.config.api_key_env_var).filter((name): name is string => !!name),
+  ...(env.LLM_API_KEY_VARS || '').split(',').map(name => name.trim()).filter(Boolean),
+];
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -13,7 +21,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ECHO_ENGINE_TOKEN': JSON.stringify(env.ECHO_ENGINE_TOKEN),
+        // Keys for the model profiles configured in settings, looked up by their api_key_env_var.
+        'process.env.LLM_API_KEYS': JSON.stringify(JSON.stringify(
+          Object.fromEntries(getModelKeyVariables(env).filter(name => env[name]).map(name => [name, env[name]]))
+        ))
       },
       resolve: {
         alias: {